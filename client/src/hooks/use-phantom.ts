@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { VersionedTransaction } from '@solana/web3.js';
 
 interface PhantomWallet {
   isPhantom?: boolean;
@@ -7,6 +8,7 @@ interface PhantomWallet {
   connect(opts?: { onlyIfTrusted?: boolean }): Promise<{ publicKey: { toString(): string } }>;
   disconnect(): Promise<void>;
   request(params: { method: string; params?: any }): Promise<any>;
+  signTransaction(transaction: VersionedTransaction): Promise<VersionedTransaction>;
   on(event: string, callback: (...args: any[]) => void): void;
   off(event: string, callback: (...args: any[]) => void): void;
 }
@@ -25,6 +27,7 @@ export interface UsePhantomReturn {
   publicKey: string | null;
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
+  signTransaction: (transaction: VersionedTransaction) => Promise<VersionedTransaction>;
   isPhantomInstalled: boolean;
 }
 
@@ -151,6 +154,15 @@ export function usePhantom(): UsePhantomReturn {
     }
   }, [phantom]);
 
+  // Phantom adds the wallet's signature and leaves other signers, such as an
+  // x402 fee payer, for whoever submits the transaction.
+  const signTransaction = useCallback(async (transaction: VersionedTransaction) => {
+    if (!phantom || !phantom.isConnected) {
+      throw new Error('Connect your Phantom wallet first');
+    }
+    return phantom.signTransaction(transaction);
+  }, [phantom]);
+
   return {
     phantom,
     connected,
@@ -158,6 +170,7 @@ export function usePhantom(): UsePhantomReturn {
     publicKey,
     connect,
     disconnect,
+    signTransaction,
     isPhantomInstalled: !!phantom,
   };
 }
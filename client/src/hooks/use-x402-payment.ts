@@ -0,0 +1,82 @@
+import { useState, useCallback, useRef } from 'react';
+import { usePhantom } from '@/hooks/use-phantom';
+import { paidRequest } from '@/lib/queryClient';
+import {
+  authorizePayment,
+  selectUsdcRequirements,
+  toPaymentQuote,
+  type PaymentQuote,
+  type PaymentRequired,
+  type SettlementReceipt
+} from '@/lib/x402';
+
+export interface UseX402PaymentReturn {
+  pendingQuote: PaymentQuote | null;
+  paying: boolean;
+  receipt: SettlementReceipt | null;
+  request: (method: string, url: string, data?: unknown) => Promise<Response>;
+  approve: () => void;
+  decline: () => void;
+}
+
+// Runs paid agent calls from the browser. A 402 is turned into a quote the
+// user approves or declines; approved quotes are paid with a USDC transfer
+// signed in Phantom.
+export function useX402Payment(): UseX402PaymentReturn {
+  const { phantom, signTransaction } = usePhantom();
+  const [pendingQuote, setPendingQuote] = useState<PaymentQuote | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [receipt, setReceipt] = useState<SettlementReceipt | null>(null);
+  const decisionRef = useRef<((approved: boolean) => void) | null>(null);
+
+  const decide = useCallback((approved: boolean) => {
+    const resolve = decisionRef.current;
+    decisionRef.current = null;
+    setPendingQuote(null);
+    resolve?.(approved);
+  }, []);
+
+  const approve = useCallback(() => decide(true), [decide]);
+  const decline = useCallback(() => decide(false), [decide]);
+
+  const pay = useCallback(async (required: PaymentRequired) => {
+    const requirements = selectUsdcRequirements(required);
+    if (!requirements) {
+      throw new Error(required.error || 'This agent does not accept USDC payments');
+    }
+
+    const quote = toPaymentQuote(requirements);
+    const approved = await new Promise<boolean>(resolve => {
+      decisionRef.current = resolve;
+      setPendingQuote(quote);
+    });
+    if (!approved) throw new Error('Payment cancelled');
+
+    if (!phantom) throw new Error('Install Phantom to pay for this agent');
+    if (!phantom.isConnected) await phantom.connect();
+    if (!phantom.publicKey) throw new Error('Connect your Phantom wallet first');
+
+    setPaying(true);
+    return authorizePayment(quote, phantom.publicKey.toString(), signTransaction);
+  }, [phantom, signTransaction]);
+
+  const request = useCallback(async (method: string, url: string, data?: unknown) => {
+    setReceipt(null);
+    try {
+      const result = await paidRequest(method, url, pay, data);
+      setReceipt(result.receipt);
+      return result.res;
+    } finally {
+      setPaying(false);
+    }
+  }, [pay]);
+
+  return {
+    pendingQuote,
+    paying,
+    receipt,
+    request,
+    approve,
+    decline,
+  };
+}
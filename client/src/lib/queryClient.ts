@@ -1,4 +1,10 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import {
+  decodeSettlementReceipt,
+  type PaymentAuthorization,
+  type PaymentRequired,
+  type SettlementReceipt,
+} from "./x402";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,6 +29,37 @@ export async function apiRequest(
   return res;
 }
 
+// Calls a paid x402 route. On 402 the caller's `pay` callback turns the
+// payment requirements into an X-Payment header (or throws if the user
+// declines) and the request is retried once with it. The settlement receipt
+// comes back from the X-PAYMENT-RESPONSE header.
+export async function paidRequest(
+  method: string,
+  url: string,
+  pay: (required: PaymentRequired) => Promise<PaymentAuthorization>,
+  data?: unknown | undefined,
+): Promise<{ res: Response; receipt: SettlementReceipt | null }> {
+  const send = (headers: Record<string, string> = {}) =>
+    fetch(url, {
+      method,
+      headers: data ? { "Content-Type": "application/json", ...headers } : headers,
+      body: data ? JSON.stringify(data) : undefined,
+      credentials: "include",
+    });
+
+  const first = await send();
+  if (first.status !== 402) {
+    return { res: first, receipt: null };
+  }
+
+  const authorization = await pay(await first.json());
+  const res = await send({
+    "X-Payment": authorization.header,
+    ...(authorization.quoteId && { "X-Quote-Id": authorization.quoteId }),
+  });
+  return { res, receipt: decodeSettlementReceipt(res.headers.get("X-PAYMENT-RESPONSE")) };
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
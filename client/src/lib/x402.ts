@@ -0,0 +1,101 @@
+import { PublicKey, type VersionedTransaction } from "@solana/web3.js";
+import {
+  X402_ASSETS,
+  X402_NETWORK_IDS,
+  type X402Cluster,
+  type X402PaymentRequirements,
+  type X402SettlementReceipt
+} from "@shared/x402";
+import { createWalletAdapterSigner, encodePaymentHeader } from "@shared/x402-signer";
+
+export { decodeSettlementReceipt } from "@shared/x402-signer";
+
+export type PaymentRequirements = X402PaymentRequirements;
+export type SettlementReceipt = X402SettlementReceipt;
+
+export interface PaymentRequired {
+  x402Version: number;
+  error?: string;
+  accepts: PaymentRequirements[];
+}
+
+// What the payer is asked to approve before anything is signed.
+export interface PaymentQuote {
+  agentName: string;
+  priceUSD: number;
+  amount: string;
+  symbol: string;
+  quoteId?: string;
+  requirements: PaymentRequirements;
+}
+
+export interface PaymentAuthorization {
+  header: string;
+  quoteId?: string;
+}
+
+// Agents listed in VITE_X402_PAID_AGENTS (comma separated, or "*" for all) are
+// called through their paid /api/x402 routes; the rest stay on the free beta
+// routes.
+const paidAgents = (import.meta.env.VITE_X402_PAID_AGENTS || "")
+  .split(",")
+  .map((id: string) => id.trim())
+  .filter(Boolean);
+
+export function isPaidAgent(agentId: string): boolean {
+  return paidAgents.includes("*") || paidAgents.includes(agentId);
+}
+
+export function hasPaidAgents(): boolean {
+  return paidAgents.length > 0;
+}
+
+function clusterForNetwork(network: string): X402Cluster | undefined {
+  return (Object.keys(X402_NETWORK_IDS) as X402Cluster[]).find(cluster => X402_NETWORK_IDS[cluster] === network);
+}
+
+// Picks the USDC option from a 402 response. Other assets are advertised too,
+// but the Dashboard only pays in USDC.
+export function selectUsdcRequirements(required: PaymentRequired): PaymentRequirements | undefined {
+  return (required.accepts || []).find(option => {
+    const cluster = clusterForNetwork(option.network);
+    const usdc = cluster && X402_ASSETS[cluster].find(asset => asset.symbol === "USDC");
+    return option.scheme === "exact" && !!usdc && option.asset === usdc.address;
+  });
+}
+
+export function toPaymentQuote(requirements: PaymentRequirements): PaymentQuote {
+  const decimals = requirements.extra?.decimals ?? 6;
+  const units = Number(requirements.maxAmountRequired) / 10 ** decimals;
+  return {
+    agentName: requirements.extra?.agentName || requirements.description,
+    priceUSD: requirements.extra?.quote?.priceUSD ?? units,
+    amount: String(units),
+    symbol: requirements.extra?.symbol || "USDC",
+    quoteId: requirements.extra?.quote?.id,
+    requirements
+  };
+}
+
+async function fetchRecentBlockhash(): Promise<string> {
+  const res = await fetch("/api/x402/blockhash", { credentials: "include" });
+  if (!res.ok) throw new Error("Could not fetch a recent blockhash");
+  const data = await res.json();
+  return data.blockhash;
+}
+
+// Pays the quote with a transfer signed by the connected wallet.
+export async function authorizePayment(
+  quote: PaymentQuote,
+  payer: string,
+  signTransaction: (transaction: VersionedTransaction) => Promise<VersionedTransaction>
+): Promise<PaymentAuthorization> {
+  const signer = createWalletAdapterSigner({ publicKey: new PublicKey(payer), signTransaction });
+  const payload = await signer.signPayment(quote.requirements, { recentBlockhash: fetchRecentBlockhash });
+  return { header: encodePaymentHeader(payload), quoteId: quote.quoteId };
+}
+
+export function explorerUrl(receipt: SettlementReceipt): string {
+  const cluster = clusterForNetwork(receipt.network);
+  return `https://solscan.io/tx/${receipt.transaction}${cluster === "devnet" ? "?cluster=devnet" : ""}`;
+}
@@ -37,6 +37,8 @@ import {
   Search
 } from "lucide-react";
 import { usePhantom } from "@/hooks/use-phantom";
+import { useX402Payment, type UseX402PaymentReturn } from "@/hooks/use-x402-payment";
+import { explorerUrl, hasPaidAgents, isPaidAgent } from "@/lib/x402";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -1976,6 +1978,79 @@ function PortfolioTerminalOutput({ onClose }: { onClose: () => void }) {
   );
 }
 
+// Price confirmation and settlement receipt for terminals running in paid mode.
+function X402PaymentPanel({ payment }: { payment: UseX402PaymentReturn }) {
+  const { pendingQuote, paying, receipt, approve, decline } = payment;
+
+  if (pendingQuote) {
+    return (
+      <div className="p-4 rounded-lg bg-primary/10 border border-primary/30 space-y-3" data-testid="x402-payment-quote">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-medium text-white">Payment required</div>
+            <div className="text-xs text-white/50">{pendingQuote.agentName}</div>
+          </div>
+          <div className="text-right">
+            <div className="text-lg font-bold text-primary font-mono">{pendingQuote.amount} {pendingQuote.symbol}</div>
+            <div className="text-xs text-white/40">${pendingQuote.priceUSD.toFixed(2)} via x402</div>
+          </div>
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={decline}
+            className="text-white/60 hover:text-white hover:bg-white/10"
+            data-testid="button-x402-decline"
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={approve}
+            className="bg-primary hover:bg-primary/90"
+            data-testid="button-x402-approve"
+          >
+            <Wallet className="w-3.5 h-3.5 mr-1.5" />
+            Pay with Phantom
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (paying) {
+    return (
+      <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-xs text-white/60 flex items-center gap-2">
+        <RefreshCw className="w-3.5 h-3.5 animate-spin text-primary" />
+        Waiting for signature and settlement...
+      </div>
+    );
+  }
+
+  if (receipt?.success) {
+    return (
+      <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-between" data-testid="x402-payment-receipt">
+        <div className="flex items-center gap-2 text-xs text-emerald-400">
+          <Check className="w-3.5 h-3.5" />
+          Paid on {receipt.network}
+          <span className="font-mono text-white/50">{receipt.transaction.slice(0, 8)}...{receipt.transaction.slice(-8)}</span>
+        </div>
+        <a
+          href={explorerUrl(receipt)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-primary hover:underline flex items-center gap-1"
+        >
+          View <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+    );
+  }
+
+  return null;
+}
+
 interface SmartEntryResult {
   tokenAddress: string;
   symbol: string;
@@ -2018,6 +2093,8 @@ function SmartEntryTerminalOutput({ onClose }: { onClose: () => void }) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<SmartEntryResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const payment = useX402Payment();
+  const paid = isPaidAgent("x402-entry");
 
   const analyzeEntry = async () => {
     if (!tokenAddress.trim()) return;
@@ -2027,11 +2104,13 @@ function SmartEntryTerminalOutput({ onClose }: { onClose: () => void }) {
     setResult(null);
 
     try {
-      const response = await fetch("/api/smart-entry/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ tokenAddress: tokenAddress.trim() }),
-      });
+      const response = paid
+        ? await payment.request("GET", `/api/x402/entry?token=${encodeURIComponent(tokenAddress.trim())}`)
+        : await fetch("/api/smart-entry/analyze", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ tokenAddress: tokenAddress.trim() }),
+          });
 
       if (!response.ok) {
         const data = await response.json();
@@ -2102,6 +2181,11 @@ function SmartEntryTerminalOutput({ onClose }: { onClose: () => void }) {
             <Badge className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30 text-[10px]">
               READY
             </Badge>
+            {paid && (
+              <Badge className="bg-primary/20 text-primary border-primary/30 text-[10px]">
+                x402 PAID
+              </Badge>
+            )}
           </div>
         </div>
         <Button
@@ -2155,6 +2239,8 @@ function SmartEntryTerminalOutput({ onClose }: { onClose: () => void }) {
             </Button>
           </div>
 
+          {paid && <X402PaymentPanel payment={payment} />}
+
           {error && (
             <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
               {error}
@@ -2374,6 +2460,8 @@ function LiquidityTerminalOutput({ onClose }: { onClose: () => void }) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<LiquidityResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const payment = useX402Payment();
+  const paid = isPaidAgent("x402-liquidity");
 
   const analyzeLiquidity = async () => {
     if (!tokenAddress.trim()) return;
@@ -2383,11 +2471,13 @@ function LiquidityTerminalOutput({ onClose }: { onClose: () => void }) {
     setResult(null);
 
     try {
-      const response = await fetch("/api/liquidity/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ tokenAddress: tokenAddress.trim() }),
-      });
+      const response = paid
+        ? await payment.request("GET", `/api/x402/liquidity?token=${encodeURIComponent(tokenAddress.trim())}`)
+        : await fetch("/api/liquidity/analyze", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ tokenAddress: tokenAddress.trim() }),
+          });
 
       if (!response.ok) {
         const data = await response.json();
@@ -2454,6 +2544,11 @@ function LiquidityTerminalOutput({ onClose }: { onClose: () => void }) {
             <Badge className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30 text-[10px]">
               READY
             </Badge>
+            {paid && (
+              <Badge className="bg-primary/20 text-primary border-primary/30 text-[10px]">
+                x402 PAID
+              </Badge>
+            )}
           </div>
         </div>
         <Button
@@ -2507,6 +2602,8 @@ function LiquidityTerminalOutput({ onClose }: { onClose: () => void }) {
             </Button>
           </div>
 
+          {paid && <X402PaymentPanel payment={payment} />}
+
           {error && (
             <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
               {error}
@@ -2699,6 +2796,8 @@ function WhaleTrackerTerminalOutput({ onClose }: { onClose: () => void }) {
   const [isTracking, setIsTracking] = useState(false);
   const [result, setResult] = useState<WhaleResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const payment = useX402Payment();
+  const paid = isPaidAgent("x402-whaletracker");
 
   const trackWhales = async () => {
     setIsTracking(true);
@@ -2706,6 +2805,15 @@ function WhaleTrackerTerminalOutput({ onClose }: { onClose: () => void }) {
     setResult(null);
 
     try {
+      // The paid agent tracks one token and returns the summary itself.
+      if (paid) {
+        const response = await payment.request("GET", `/api/x402/whaletracker?token=${encodeURIComponent(tokenAddress.trim())}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to track whales");
+        setResult(data);
+        return;
+      }
+
       const response = await fetch(`/api/whales?limit=20`);
 
       if (!response.ok) {
@@ -2787,6 +2895,11 @@ function WhaleTrackerTerminalOutput({ onClose }: { onClose: () => void }) {
             <Badge className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30 text-[10px]">
               READY
             </Badge>
+            {paid && (
+              <Badge className="bg-primary/20 text-primary border-primary/30 text-[10px]">
+                x402 PAID
+              </Badge>
+            )}
           </div>
         </div>
         <Button
@@ -2803,7 +2916,9 @@ function WhaleTrackerTerminalOutput({ onClose }: { onClose: () => void }) {
       <ScrollArea className="h-[600px]">
         <div className="p-6 space-y-6">
           <div className="space-y-3">
-            <label className="text-sm text-white/70">Filter by token symbol or address (optional - leave empty for all trending):</label>
+            <label className="text-sm text-white/70">
+              {paid ? "Token address to track:" : "Filter by token symbol or address (optional - leave empty for all trending):"}
+            </label>
             <div className="flex gap-2">
               <Input
                 placeholder="e.g., SOL, BONK, or leave empty for all"
@@ -2814,7 +2929,7 @@ function WhaleTrackerTerminalOutput({ onClose }: { onClose: () => void }) {
               />
               <Button
                 onClick={trackWhales}
-                disabled={isTracking}
+                disabled={isTracking || (paid && !tokenAddress.trim())}
                 className="bg-primary hover:bg-primary/90 px-6"
                 data-testid="button-track-whales"
               >
@@ -2827,6 +2942,8 @@ function WhaleTrackerTerminalOutput({ onClose }: { onClose: () => void }) {
             </div>
           </div>
 
+          {paid && <X402PaymentPanel payment={payment} />}
+
           {error && (
             <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
               {error}
@@ -2976,8 +3093,17 @@ export default function Dashboard() {
               <Sparkles className="w-4 h-4 text-primary" />
             </div>
             <div>
-              <div className="text-sm font-medium text-white">Beta Access - All Agents Free</div>
-              <div className="text-xs text-white/50">x402 payments will be enabled soon. Enjoy unlimited agent usage during beta.</div>
+              {hasPaidAgents() ? (
+                <>
+                  <div className="text-sm font-medium text-white">x402 Payments Live</div>
+                  <div className="text-xs text-white/50">Agents marked x402 PAID are paid per call in USDC with your Phantom wallet. All other agents stay free during beta.</div>
+                </>
+              ) : (
+                <>
+                  <div className="text-sm font-medium text-white">Beta Access - All Agents Free</div>
+                  <div className="text-xs text-white/50">x402 payments will be enabled soon. Enjoy unlimited agent usage during beta.</div>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -1,5 +1,6 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import crypto from "crypto";
 import { storage } from "./storage";
 import { 
   getTokenPairs, 
@@ -12,14 +13,104 @@ import {
 } from "./services/dexscreener";
 import { getRecentWhaleTrades, isHeliusConfigured, getWalletRecentSwaps } from "./services/helius";
 import { getTopTraderPositions, getCurrentMode, setMode, getPredictionEntries, type PredictionMode } from "./services/polymarket";
-import { insertTrackedWalletSchema, insertUserWatchlistSchema } from "@shared/schema";
-import { x402Middleware, create402Response, getAllAgentsInfo, getAgentByResource, MODEXO_AGENTS } from "./services/x402";
+import {
+  insertTrackedWalletSchema,
+  insertUserWatchlistSchema,
+  x402AgentDefinitionSchema,
+  x402AgentUpdateSchema,
+  x402AgentVersionSchema,
+  x402WalletBudgetUpdateSchema,
+  x402PassPlanDefinitionSchema,
+  x402PassGrantSchema,
+  x402PromoCodeDefinitionSchema,
+  type X402AgentCallFilter
+} from "@shared/schema";
+import { x402Middleware, create402Response, getAllAgentsInfo, getAgentByResource, identifyPayingWallet } from "./services/x402";
+import {
+  initializeRegistry,
+  startRegistrySync,
+  getAgent,
+  getAllAgents,
+  getListedAgents,
+  getRegistryStats,
+  createAgent,
+  updateAgent,
+  publishAgentVersion,
+  retireAgent,
+  getAgentVersions,
+  isRetired
+} from "./services/x402-registry";
+import { buildDiscoveryManifest, matchesETag, X402_DISCOVERY_CONFIG } from "./services/x402-discovery";
+import { buildOpenApiDocument, X402_OPENAPI_PATH } from "./services/x402-openapi";
+import { trackAgentCall, getCallReport, getAllAgentStats, getDailyMetrics, toCsv } from "./services/x402-analytics";
+import { startHealthProber, getAgentHealth, isHealthProbe, X402_HEALTH_CONFIG } from "./services/x402-health";
+import { getFacilitator } from "./services/x402-facilitator";
+import { createSolanaRpc } from "./services/x402-solana-rpc";
+import { getX402Network } from "./services/x402-assets";
+import { startRefundWorker } from "./services/x402-refunds";
+import { startBatchProcessor, getTransferBackend, X402_BATCH_PROCESSOR_CONFIG } from "./services/x402-batch-processor";
+import { startPaymentSweeper } from "./services/x402-payments";
+import { isAsyncRun, getAsyncResult, X402_ASYNC_CONFIG } from "./services/x402-async";
+import { getQueueMetrics, getQueueLength } from "./services/x402-queue";
+import {
+  registerWebhook,
+  unregisterWebhook,
+  getWebhook,
+  getAllWebhooks,
+  updateWebhook,
+  rotateWebhookSecret,
+  toPublicWebhook,
+  isWebhookEventType,
+  redeliverEvent,
+  getDeliveryLogs,
+  getWebhookStats,
+  startWebhookWorker,
+  X402_WEBHOOK_CONFIG
+} from "./services/x402-webhook";
+import { parseBatch } from "./services/x402-pricing";
+import {
+  openCreditSession,
+  authenticateCreditSession,
+  revokeCreditSession,
+  topUpCredits,
+  getCreditAccount,
+  getCreditTopUps,
+  getCreditDebits,
+  microUsdToUsd
+} from "./services/x402-credits";
+import { verifyWalletAuth, hashWalletAuthBody } from "./services/x402-wallet-auth";
+import { getBudgetStatus, updateWalletBudget } from "./services/x402-budgets";
+import { buildStatement, statementToCsv, currentStatementPeriod } from "./services/x402-statements";
+import { issueReceipt, getReceiptPayment, getReceiptPublicKey } from "./services/x402-receipts";
+import {
+  purchasePass,
+  grantPass,
+  getPass,
+  getPasses,
+  revokePass,
+  getPassPlans,
+  createPassPlan,
+  retirePassPlan,
+  getPassStats
+} from "./services/x402-passes";
+import { getPromoCodes, createPromoCode, revokePromoCode, getPromoCodeStats } from "./services/x402-promo-codes";
+import {
+  checkRateLimit as checkWalletRateLimit,
+  recordUsage,
+  isWalletBlocked,
+  unblockWallet,
+  getTopUsers,
+  getWalletUsageStats,
+  getGlobalMetrics,
+  X402_RATELIMIT_CONFIG
+} from "./services/x402-ratelimit";
 
 const ROUTES_VERSION = "1.2.0";
 const MAX_REQUEST_SIZE = 1024 * 100;
 const REQUEST_TIMEOUT_MS = 30000;
 const RATE_LIMIT_WINDOW_MS = 60000;
 const MAX_REQUESTS_PER_WINDOW = 100;
+const WHALE_TRADES_BY_DEPTH: Record<string, number> = { shallow: 5, standard: 10, deep: 25 };
 
 interface RateLimitEntry {
   count: number;
@@ -28,7 +119,7 @@ interface RateLimitEntry {
 
 const rateLimitMap = new Map<string, RateLimitEntry>();
 
-function checkRateLimit(clientId: string): { allowed: boolean; retryAfter?: number } {
+function checkRateLimit(clientId: string): { allowed: boolean; remaining: number; resetIn: number } {
   const now = Date.now();
   let entry = rateLimitMap.get(clientId);
 
@@ -37,13 +128,13 @@ function checkRateLimit(clientId: string): { allowed: boolean; retryAfter?: numb
     rateLimitMap.set(clientId, entry);
   }
 
+  const resetIn = entry.windowStart + RATE_LIMIT_WINDOW_MS - now;
   if (entry.count >= MAX_REQUESTS_PER_WINDOW) {
-    const retryAfter = Math.ceil((entry.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
-    return { allowed: false, retryAfter };
+    return { allowed: false, remaining: 0, resetIn };
   }
 
   entry.count++;
-  return { allowed: true };
+  return { allowed: true, remaining: MAX_REQUESTS_PER_WINDOW - entry.count, resetIn };
 }
 
 function getClientId(req: Request): string {
@@ -61,6 +152,114 @@ function cleanupRateLimits(): void {
 
 setInterval(cleanupRateLimits, RATE_LIMIT_WINDOW_MS);
 
+interface AppliedLimit {
+  limit: number;
+  remaining: number;
+  resetIn: number;
+}
+
+function setRateLimitHeaders(res: Response, applied: AppliedLimit): void {
+  res.setHeader("RateLimit-Limit", applied.limit);
+  res.setHeader("RateLimit-Remaining", applied.remaining);
+  res.setHeader("RateLimit-Reset", Math.ceil(applied.resetIn / 1000));
+}
+
+function rejectRateLimited(res: Response, applied: AppliedLimit, message: string): void {
+  setRateLimitHeaders(res, { ...applied, remaining: 0 });
+  res.setHeader("Retry-After", Math.max(1, Math.ceil(applied.resetIn / 1000)));
+  res.status(429).json(createErrorResponse(message, "RATE_LIMITED"));
+}
+
+const WALLET_LIMITS: Record<"request" | "payment" | "execution", number> = {
+  request: X402_RATELIMIT_CONFIG.maxRequests,
+  payment: X402_RATELIMIT_CONFIG.maxPayments,
+  execution: X402_RATELIMIT_CONFIG.maxExecutions,
+};
+
+// Applies the per-IP limit to every API request and, when the caller can be
+// tied to a paying wallet, the per-wallet request/payment/execution buckets
+// from x402-ratelimit. Headers report whichever applied limit is tightest.
+async function apiRateLimit(req: Request, res: Response, next: NextFunction) {
+  if (isHealthProbe(req) || isAsyncRun(req)) return next();
+
+  const ipLimit = checkRateLimit(getClientId(req));
+  let tightest: AppliedLimit = { limit: MAX_REQUESTS_PER_WINDOW, ...ipLimit };
+  if (!ipLimit.allowed) {
+    return rejectRateLimited(res, tightest, "Too many requests from this IP address");
+  }
+
+  const wallet = await identifyPayingWallet(req);
+  if (!wallet) {
+    setRateLimitHeaders(res, tightest);
+    return next();
+  }
+
+  const agent = getAgentByResource(req.baseUrl + req.path);
+  const agentId = agent?.id || "api";
+  const isPaidAttempt = Boolean(req.headers["x-payment"] || req.headers["x-session-token"]);
+  const types: Array<"request" | "payment" | "execution"> = ["request"];
+  if (agent && isPaidAttempt) types.push("payment", "execution");
+
+  for (const type of types) {
+    const check = checkWalletRateLimit(wallet, type);
+    const applied = { limit: WALLET_LIMITS[type], remaining: check.remaining, resetIn: check.resetIn };
+    if (!check.allowed) {
+      recordUsage(wallet, agentId, type, undefined, false);
+      return rejectRateLimited(res, applied, isWalletBlocked(wallet)
+        ? "Wallet is temporarily blocked for exceeding rate limits"
+        : `Too many ${type}s for this wallet`);
+    }
+    if (applied.remaining < tightest.remaining) tightest = applied;
+  }
+
+  recordUsage(wallet, agentId, "request");
+  setRateLimitHeaders(res, tightest);
+
+  res.on("finish", () => {
+    const payment = req.x402Payment;
+    if (!payment || res.statusCode < 200 || res.statusCode >= 300) return;
+    recordUsage(wallet, agentId, "payment", payment.quote?.priceUSD);
+    recordUsage(wallet, agentId, "execution");
+  });
+
+  next();
+}
+
+// Guards operator endpoints with the X402_ADMIN_TOKEN bearer token.
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.X402_ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(503).json(createErrorResponse("Admin API is not configured", "ADMIN_DISABLED"));
+  }
+
+  const provided = (req.headers.authorization || "").replace(/^Bearer\s+/i, "");
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(provided);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return res.status(401).json(createErrorResponse("Invalid admin token", "UNAUTHORIZED"));
+  }
+  next();
+}
+
+// Proves the caller owns `wallet` for a private read: either a credit session
+// token issued to that wallet, or an X-Wallet-Timestamp / X-Wallet-Signature
+// pair signed for `action`.
+async function authenticateWalletOwner(req: Request, action: string, wallet: string): Promise<{ valid: boolean; error?: string }> {
+  const sessionToken = req.headers["x-session-token"];
+  if (typeof sessionToken === "string") {
+    const session = await authenticateCreditSession(sessionToken);
+    if (!session.walletAddress) return { valid: false, error: session.error };
+    return session.walletAddress === wallet
+      ? { valid: true }
+      : { valid: false, error: "Session token belongs to a different wallet" };
+  }
+  return verifyWalletAuth(action, {
+    wallet,
+    timestamp: Number(req.headers["x-wallet-timestamp"]),
+    signature: req.headers["x-wallet-signature"] as string | undefined
+  });
+}
+
 interface RequestLog {
   method: string;
   path: string;
@@ -84,6 +283,40 @@ export function getRecentRequests(limit: number = 100): RequestLog[] {
   return requestLogs.slice(-limit);
 }
 
+function parseWebhookInput(body: any, partial: boolean): { input?: { url?: string; events?: string[]; active?: boolean }; error?: string } {
+  const input: { url?: string; events?: string[]; active?: boolean } = {};
+
+  if (body?.url !== undefined || !partial) {
+    let url: URL;
+    try {
+      url = new URL(String(body?.url));
+    } catch {
+      return { error: "A valid webhook url is required" };
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return { error: "Webhook url must use http or https" };
+    }
+    input.url = url.toString();
+  }
+
+  if (body?.events !== undefined || !partial) {
+    const events = body?.events;
+    if (!Array.isArray(events) || events.length === 0 || !events.every((e: unknown) => typeof e === "string" && isWebhookEventType(e))) {
+      return { error: `events must be a non-empty array of: ${X402_WEBHOOK_CONFIG.events.join(", ")}` };
+    }
+    input.events = Array.from(new Set<string>(events));
+  }
+
+  if (body?.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return { error: "active must be a boolean" };
+    }
+    input.active = body.active;
+  }
+
+  return { input };
+}
+
 function validateSolanaAddress(address: string): boolean {
   return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
 }
@@ -108,6 +341,19 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  try {
+    await initializeRegistry();
+  } catch (error) {
+    console.error("Failed to load agent registry, serving built-in agents:", error);
+  }
+  startRegistrySync();
+  startHealthProber(httpServer);
+  startRefundWorker();
+  startBatchProcessor();
+  startPaymentSweeper();
+  startWebhookWorker();
+  const paymentRpc = createSolanaRpc();
+  app.use("/api", apiRateLimit);
 
   app.get("/api/tokens", async (req, res) => {
     try {
@@ -418,7 +664,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/wallet/kyc", async (req, res) => {
+  app.post("/api/wallet/kyc", trackAgentCall("x402-kyc", { paid: false }), async (req, res) => {
     try {
       const { address } = req.body;
       if (!address || typeof address !== 'string') {
@@ -589,7 +835,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/contract/audit", async (req, res) => {
+  app.post("/api/contract/audit", trackAgentCall("contract-audit", { paid: false }), async (req, res) => {
     try {
       const { address } = req.body;
       if (!address || typeof address !== 'string') {
@@ -667,7 +913,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/smart-entry/analyze", async (req, res) => {
+  app.post("/api/smart-entry/analyze", trackAgentCall("x402-entry", { paid: false }), async (req, res) => {
     try {
       const { tokenAddress } = req.body;
       if (!tokenAddress || typeof tokenAddress !== 'string') {
@@ -691,7 +937,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/liquidity/analyze", async (req, res) => {
+  app.post("/api/liquidity/analyze", trackAgentCall("x402-liquidity", { paid: false }), async (req, res) => {
     try {
       const { tokenAddress } = req.body;
       if (!tokenAddress || typeof tokenAddress !== 'string') {
@@ -715,7 +961,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/portfolio/analyze", async (req, res) => {
+  app.post("/api/portfolio/analyze", trackAgentCall("x402-portfolio", { paid: false }), async (req, res) => {
     try {
       const { address } = req.body;
       if (!address || typeof address !== 'string') {
@@ -938,12 +1184,50 @@ export async function registerRoutes(
 
   // ==================== x402 PROTOCOL ENDPOINTS ====================
 
+  app.get(X402_DISCOVERY_CONFIG.path, (req, res) => {
+    try {
+      const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
+      const baseUrl = `${protocol}://${req.get("host")}`;
+      const manifest = buildDiscoveryManifest(baseUrl);
+
+      res.setHeader("ETag", manifest.etag);
+      res.setHeader("Cache-Control", `public, max-age=${X402_DISCOVERY_CONFIG.maxAge}`);
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Expose-Headers", "ETag");
+      if (matchesETag(req.headers["if-none-match"], manifest.etag)) {
+        return res.status(304).end();
+      }
+      res.type("application/json").send(manifest.body);
+    } catch (error) {
+      console.error("Error building x402 discovery manifest:", error);
+      res.status(500).json({ error: "Failed to build discovery manifest" });
+    }
+  });
+
+  app.get(X402_OPENAPI_PATH, (req, res) => {
+    try {
+      const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
+      const baseUrl = `${protocol}://${req.get("host")}`;
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.json(buildOpenApiDocument(baseUrl));
+    } catch (error) {
+      console.error("Error building OpenAPI document:", error);
+      res.status(500).json({ error: "Failed to build OpenAPI document" });
+    }
+  });
+
   app.get("/api/x402/agents", async (req, res) => {
     try {
       const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
       const baseUrl = `${protocol}://${req.get("host")}`;
-      const agents = MODEXO_AGENTS.map(agent => ({
+      const agents = getListedAgents().map(({ config: agent, registration, metadata }) => ({
         ...agent,
+        status: registration.status,
+        version: registration.version,
+        category: metadata.category,
+        tags: metadata.tags,
+        documentation: metadata.documentation,
+        health: getAgentHealth(agent.id),
         fullUrl: `${baseUrl}${agent.resource}`,
         priceDisplay: `$${agent.priceUSD.toFixed(2)} USDC`
       }));
@@ -954,7 +1238,1064 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/x402/portfolio", x402Middleware("x402-portfolio"), async (req, res) => {
+  app.get("/api/x402/supported", async (_req, res) => {
+    try {
+      const facilitator = getFacilitator();
+      const supported = await facilitator.supported();
+      res.json({ facilitator: facilitator.kind, ...supported });
+    } catch (error) {
+      console.error("Error fetching supported payment kinds:", error);
+      res.status(502).json({ error: "Failed to fetch supported payment kinds" });
+    }
+  });
+
+  // Browser and SDK payers build the exact-scheme transaction themselves but
+  // may have no RPC of their own; this hands out the blockhash the verifier
+  // will check the payment against.
+  app.get("/api/x402/blockhash", async (_req, res) => {
+    try {
+      const blockhash = await paymentRpc.getLatestBlockhash();
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ blockhash, network: getX402Network() });
+    } catch (error) {
+      console.error("Error fetching latest blockhash:", error);
+      res.status(502).json({ error: "Failed to fetch latest blockhash" });
+    }
+  });
+
+  app.get("/api/x402/executions", requireAdmin, async (req, res) => {
+    try {
+      const wallet = sanitizeQueryParam(req.query.wallet);
+      const agent = sanitizeQueryParam(req.query.agent);
+      const status = sanitizeQueryParam(req.query.status);
+      const from = sanitizeQueryParam(req.query.from);
+      const to = sanitizeQueryParam(req.query.to);
+
+      if (wallet && !validateSolanaAddress(wallet)) {
+        return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json(createErrorResponse("Invalid date range, expected ISO 8601 dates", "INVALID_DATE"));
+      }
+
+      const executions = await storage.getAgentExecutions({
+        walletAddress: wallet || undefined,
+        agentId: agent || undefined,
+        status: status || undefined,
+        from: fromDate,
+        to: toDate,
+        limit: parseIntParam(req.query.limit, 100, 500)
+      });
+
+      const totalPaymentUSD = executions
+        .filter(e => e.x402Signature)
+        .reduce((sum, e) => sum + (e.paymentAmount || 0), 0);
+
+      res.json({ executions, count: executions.length, totalPaymentUSD });
+    } catch (error) {
+      console.error("Error fetching x402 executions:", error);
+      res.status(500).json({ error: "Failed to fetch executions" });
+    }
+  });
+
+  app.get("/api/x402/executions/:id", requireAdmin, async (req, res) => {
+    try {
+      const execution = await storage.getAgentExecution(req.params.id);
+      if (!execution) {
+        return res.status(404).json(createErrorResponse("Execution not found", "EXECUTION_NOT_FOUND"));
+      }
+      res.json(execution);
+    } catch (error) {
+      console.error("Error fetching x402 execution:", error);
+      res.status(500).json({ error: "Failed to fetch execution" });
+    }
+  });
+
+  // Only the wallet that paid for the call may collect its result.
+  app.get("/api/x402/executions/:id/result", async (req, res) => {
+    try {
+      const result = await getAsyncResult(req.params.id);
+      if (result.kind === "not_found") {
+        return res.status(404).json(createErrorResponse("Async execution not found", "EXECUTION_NOT_FOUND"));
+      }
+      const payer = result.execution.walletAddress;
+      const auth = payer ? await authenticateWalletOwner(req, "execution-result", payer) : { valid: false, error: "Execution has no paying wallet" };
+      if (!auth.valid) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+      }
+
+      res.setHeader("X-Execution-Id", result.execution.id);
+      switch (result.kind) {
+        case "pending":
+          res.setHeader("Retry-After", String(X402_ASYNC_CONFIG.pollInterval));
+          return res.status(202).json({ executionId: result.execution.id, status: result.status });
+        case "expired":
+          return res.status(410).json(createErrorResponse("Result is past its retention window", "RESULT_EXPIRED"));
+        case "failed":
+          return res.status(502).json({
+            ...createErrorResponse(result.execution.errorMessage || "Execution failed", "EXECUTION_FAILED"),
+            status: result.execution.status
+          });
+        case "completed":
+          return res.status(200).type("application/json").send(result.execution.outputData ?? "null");
+      }
+    } catch (error) {
+      console.error("Error fetching x402 execution result:", error);
+      res.status(500).json({ error: "Failed to fetch execution result" });
+    }
+  });
+
+  app.get("/api/x402/refunds", requireAdmin, async (req, res) => {
+    try {
+      const wallet = sanitizeQueryParam(req.query.wallet);
+      const agent = sanitizeQueryParam(req.query.agent);
+      const execution = sanitizeQueryParam(req.query.execution);
+      const status = sanitizeQueryParam(req.query.status);
+
+      if (wallet && !validateSolanaAddress(wallet)) {
+        return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+      }
+
+      const refunds = await storage.getRefunds({
+        walletAddress: wallet || undefined,
+        agentId: agent || undefined,
+        executionId: execution || undefined,
+        status: status || undefined,
+        limit: parseIntParam(req.query.limit, 100, 500)
+      });
+
+      res.json({ refunds, count: refunds.length });
+    } catch (error) {
+      console.error("Error fetching x402 refunds:", error);
+      res.status(500).json({ error: "Failed to fetch refunds" });
+    }
+  });
+
+  app.get("/api/x402/refunds/:id", requireAdmin, async (req, res) => {
+    try {
+      const refund = await storage.getRefund(req.params.id);
+      if (!refund) {
+        return res.status(404).json(createErrorResponse("Refund not found", "REFUND_NOT_FOUND"));
+      }
+      res.json(refund);
+    } catch (error) {
+      console.error("Error fetching x402 refund:", error);
+      res.status(500).json({ error: "Failed to fetch refund" });
+    }
+  });
+
+  app.get("/api/x402/payments", requireAdmin, async (req, res) => {
+    try {
+      const wallet = sanitizeQueryParam(req.query.wallet);
+      const agent = sanitizeQueryParam(req.query.agent);
+      const status = sanitizeQueryParam(req.query.status);
+
+      if (wallet && !validateSolanaAddress(wallet)) {
+        return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+      }
+
+      const payments = await storage.getX402Payments({
+        walletAddress: wallet || undefined,
+        agentId: agent || undefined,
+        status: status || undefined,
+        limit: parseIntParam(req.query.limit, 100, 500)
+      });
+
+      res.json({ payments, count: payments.length });
+    } catch (error) {
+      console.error("Error fetching x402 payments:", error);
+      res.status(500).json({ error: "Failed to fetch payments" });
+    }
+  });
+
+  app.get("/api/x402/payments/:id", requireAdmin, async (req, res) => {
+    try {
+      const payment = await storage.getX402Payment(req.params.id);
+      if (!payment) {
+        return res.status(404).json(createErrorResponse("Payment not found", "PAYMENT_NOT_FOUND"));
+      }
+      const events = await storage.getX402PaymentEvents(payment.id);
+      res.json({ ...payment, events });
+    } catch (error) {
+      console.error("Error fetching x402 payment:", error);
+      res.status(500).json({ error: "Failed to fetch payment" });
+    }
+  });
+
+  app.get("/api/admin/x402/ratelimit", requireAdmin, (_req, res) => {
+    res.json({
+      config: {
+        ...X402_RATELIMIT_CONFIG,
+        ipWindowSize: RATE_LIMIT_WINDOW_MS,
+        ipMaxRequests: MAX_REQUESTS_PER_WINDOW
+      },
+      metrics: getGlobalMetrics()
+    });
+  });
+
+  app.get("/api/admin/x402/ratelimit/top-users", requireAdmin, (req, res) => {
+    const limit = parseIntParam(req.query.limit, 10, 100);
+    res.json({ users: getTopUsers(limit) });
+  });
+
+  app.get("/api/admin/x402/ratelimit/wallets/:wallet", requireAdmin, (req, res) => {
+    const { wallet } = req.params;
+    if (!validateSolanaAddress(wallet)) {
+      return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+    }
+    res.json({
+      walletAddress: wallet,
+      blocked: isWalletBlocked(wallet),
+      stats: getWalletUsageStats(wallet)
+    });
+  });
+
+  app.post("/api/admin/x402/ratelimit/wallets/:wallet/unblock", requireAdmin, (req, res) => {
+    const { wallet } = req.params;
+    if (!validateSolanaAddress(wallet)) {
+      return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+    }
+    res.json({ walletAddress: wallet, unblocked: unblockWallet(wallet) });
+  });
+
+  function parseCallFilter(req: Request): { filter?: X402AgentCallFilter; error?: ReturnType<typeof createErrorResponse> } {
+    const wallet = sanitizeQueryParam(req.query.wallet);
+    const agent = sanitizeQueryParam(req.query.agent);
+    const paid = sanitizeQueryParam(req.query.paid);
+    const from = sanitizeQueryParam(req.query.from);
+    const to = sanitizeQueryParam(req.query.to);
+
+    if (wallet && !validateSolanaAddress(wallet)) {
+      return { error: createErrorResponse("Invalid wallet address", "INVALID_WALLET") };
+    }
+    if (paid && paid !== "true" && paid !== "false") {
+      return { error: createErrorResponse("paid must be true or false", "INVALID_FILTER") };
+    }
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return { error: createErrorResponse("Invalid date range, expected ISO 8601 dates", "INVALID_DATE") };
+    }
+
+    return {
+      filter: {
+        walletAddress: wallet || undefined,
+        agentId: agent || undefined,
+        paid: paid ? paid === "true" : undefined,
+        from: fromDate,
+        to: toDate,
+        limit: parseIntParam(req.query.limit, 1000, 10000)
+      }
+    };
+  }
+
+  function sendCsv(res: Response, name: string, csv: string) {
+    res.setHeader("Content-Disposition", `attachment; filename="${name}-${new Date().toISOString().split("T")[0]}.csv"`);
+    res.type("text/csv").send(csv);
+  }
+
+  app.get("/api/admin/x402/analytics/revenue", requireAdmin, async (req, res) => {
+    const groupBy = sanitizeQueryParam(req.query.groupBy) || "agent";
+    if (groupBy !== "agent" && groupBy !== "day" && groupBy !== "wallet") {
+      return res.status(400).json(createErrorResponse("groupBy must be agent, day or wallet", "INVALID_GROUPING"));
+    }
+    const { filter, error } = parseCallFilter(req);
+    if (!filter) {
+      return res.status(400).json(error);
+    }
+
+    try {
+      const rows = await getCallReport(groupBy, filter);
+      if (req.query.format === "csv") {
+        return sendCsv(res, `x402-revenue-by-${groupBy}`, toCsv(groupBy, rows));
+      }
+      const totalRevenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+      const totalCalls = rows.reduce((sum, row) => sum + row.calls, 0);
+      res.json({ groupBy, rows, totalRevenue, totalCalls });
+    } catch (error) {
+      console.error("Error building x402 revenue report:", error);
+      res.status(500).json({ error: "Failed to build revenue report" });
+    }
+  });
+
+  app.get("/api/admin/x402/analytics/agents", requireAdmin, async (req, res) => {
+    const { filter, error } = parseCallFilter(req);
+    if (!filter) {
+      return res.status(400).json(error);
+    }
+
+    try {
+      if (req.query.format === "csv") {
+        return sendCsv(res, "x402-agent-performance", toCsv("agent", await getCallReport("agent", filter)));
+      }
+      res.json({ agents: await getAllAgentStats(filter.from, filter.to) });
+    } catch (error) {
+      console.error("Error building x402 agent report:", error);
+      res.status(500).json({ error: "Failed to build agent report" });
+    }
+  });
+
+  app.get("/api/admin/x402/analytics/daily", requireAdmin, async (req, res) => {
+    const agent = sanitizeQueryParam(req.query.agent);
+    try {
+      const days = await getDailyMetrics(agent || undefined, parseIntParam(req.query.days, 30, 366));
+      res.json({ agentId: agent || null, days });
+    } catch (error) {
+      console.error("Error building x402 daily metrics:", error);
+      res.status(500).json({ error: "Failed to build daily metrics" });
+    }
+  });
+
+  app.get("/api/admin/x402/batches", requireAdmin, async (req, res) => {
+    try {
+      const batches = await storage.getPaymentBatches({
+        status: sanitizeQueryParam(req.query.status) || undefined,
+        limit: parseIntParam(req.query.limit, 50, 500)
+      });
+      res.json({
+        batches,
+        queue: { ...getQueueMetrics(), length: getQueueLength() },
+        backend: getTransferBackend().kind,
+        config: X402_BATCH_PROCESSOR_CONFIG
+      });
+    } catch (error) {
+      console.error("Error fetching payment batches:", error);
+      res.status(500).json({ error: "Failed to fetch payment batches" });
+    }
+  });
+
+  app.get("/api/admin/x402/batches/:id", requireAdmin, async (req, res) => {
+    try {
+      const batch = await storage.getPaymentBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json(createErrorResponse("Batch not found", "BATCH_NOT_FOUND"));
+      }
+      res.json({ batch, payments: await storage.getBatchPayments(batch.id) });
+    } catch (error) {
+      console.error("Error fetching payment batch:", error);
+      res.status(500).json({ error: "Failed to fetch payment batch" });
+    }
+  });
+
+  app.get("/api/admin/x402/agents", requireAdmin, (_req, res) => {
+    res.json({ agents: getAllAgents(), stats: getRegistryStats() });
+  });
+
+  app.post("/api/admin/x402/agents", requireAdmin, async (req, res) => {
+    const parseResult = x402AgentDefinitionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid agent definition", details: parseResult.error.errors });
+    }
+
+    try {
+      const { entry, error } = await createAgent(parseResult.data);
+      if (!entry) {
+        return res.status(409).json(createErrorResponse(error!, "AGENT_EXISTS"));
+      }
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error creating x402 agent:", error);
+      res.status(500).json({ error: "Failed to create agent" });
+    }
+  });
+
+  app.get("/api/admin/x402/agents/:id", requireAdmin, (req, res) => {
+    const entry = getAgent(req.params.id);
+    if (!entry) {
+      return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+    }
+    res.json(entry);
+  });
+
+  app.patch("/api/admin/x402/agents/:id", requireAdmin, async (req, res) => {
+    const parseResult = x402AgentUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid agent update", details: parseResult.error.errors });
+    }
+
+    const existing = getAgent(req.params.id);
+    if (!existing) {
+      return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+    }
+    if (isRetired(existing)) {
+      return res.status(409).json(createErrorResponse("Retired agents cannot be changed", "AGENT_RETIRED"));
+    }
+
+    try {
+      const entry = await updateAgent(req.params.id, parseResult.data);
+      if (!entry) {
+        return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error updating x402 agent:", error);
+      res.status(500).json({ error: "Failed to update agent" });
+    }
+  });
+
+  app.get("/api/admin/x402/agents/:id/versions", requireAdmin, async (req, res) => {
+    try {
+      if (!getAgent(req.params.id)) {
+        return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+      }
+      res.json({ versions: await getAgentVersions(req.params.id) });
+    } catch (error) {
+      console.error("Error fetching x402 agent versions:", error);
+      res.status(500).json({ error: "Failed to fetch agent versions" });
+    }
+  });
+
+  app.post("/api/admin/x402/agents/:id/versions", requireAdmin, async (req, res) => {
+    const parseResult = x402AgentVersionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid agent version", details: parseResult.error.errors });
+    }
+
+    const existing = getAgent(req.params.id);
+    if (!existing) {
+      return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+    }
+    if (isRetired(existing)) {
+      return res.status(409).json(createErrorResponse("Retired agents cannot be changed", "AGENT_RETIRED"));
+    }
+
+    try {
+      const { version, ...updates } = parseResult.data;
+      const { entry, error } = await publishAgentVersion(req.params.id, version, updates);
+      if (!entry) {
+        return res.status(409).json(createErrorResponse(error!, "VERSION_EXISTS"));
+      }
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error publishing x402 agent version:", error);
+      res.status(500).json({ error: "Failed to publish agent version" });
+    }
+  });
+
+  app.get("/api/admin/x402/agents/:id/health", requireAdmin, async (req, res) => {
+    try {
+      if (!getAgent(req.params.id)) {
+        return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+      }
+      const limit = parseIntParam(req.query.limit, 50, 500);
+      res.json({
+        agentId: req.params.id,
+        health: getAgentHealth(req.params.id),
+        config: X402_HEALTH_CONFIG,
+        checks: await storage.getAgentHealthChecks(req.params.id, limit)
+      });
+    } catch (error) {
+      console.error("Error fetching x402 agent health:", error);
+      res.status(500).json({ error: "Failed to fetch agent health" });
+    }
+  });
+
+  app.post("/api/admin/x402/agents/:id/retire", requireAdmin, async (req, res) => {
+    const existing = getAgent(req.params.id);
+    if (!existing) {
+      return res.status(404).json(createErrorResponse("Agent not found", "AGENT_NOT_FOUND"));
+    }
+    if (isRetired(existing)) {
+      return res.json(existing);
+    }
+
+    try {
+      res.json(await retireAgent(req.params.id));
+    } catch (error) {
+      console.error("Error retiring x402 agent:", error);
+      res.status(500).json({ error: "Failed to retire agent" });
+    }
+  });
+
+  // Passes and promo codes may only name agents the registry knows about.
+  function unknownAgentIds(agentIds: string[]): string[] {
+    return agentIds.filter(id => !getAgent(id));
+  }
+
+  app.get("/api/admin/x402/passes/plans", requireAdmin, async (_req, res) => {
+    try {
+      res.json({ plans: await getPassPlans(false) });
+    } catch (error) {
+      console.error("Error listing pass plans:", error);
+      res.status(500).json({ error: "Failed to list pass plans" });
+    }
+  });
+
+  app.post("/api/admin/x402/passes/plans", requireAdmin, async (req, res) => {
+    const parseResult = x402PassPlanDefinitionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid pass plan", details: parseResult.error.errors });
+    }
+    const unknown = unknownAgentIds(parseResult.data.agentIds);
+    if (unknown.length > 0) {
+      return res.status(400).json(createErrorResponse(`Unknown agents: ${unknown.join(", ")}`, "UNKNOWN_AGENT"));
+    }
+
+    try {
+      res.status(201).json(await createPassPlan(parseResult.data));
+    } catch (error) {
+      console.error("Error creating pass plan:", error);
+      res.status(500).json({ error: "Failed to create pass plan" });
+    }
+  });
+
+  // Takes the plan off sale; passes already sold keep working.
+  app.delete("/api/admin/x402/passes/plans/:id", requireAdmin, async (req, res) => {
+    try {
+      const plan = await retirePassPlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json(createErrorResponse("Pass plan not found", "PLAN_NOT_FOUND"));
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error("Error retiring pass plan:", error);
+      res.status(500).json({ error: "Failed to retire pass plan" });
+    }
+  });
+
+  app.get("/api/admin/x402/passes/stats", requireAdmin, async (_req, res) => {
+    try {
+      res.json({ plans: await getPassStats() });
+    } catch (error) {
+      console.error("Error fetching pass stats:", error);
+      res.status(500).json({ error: "Failed to fetch pass stats" });
+    }
+  });
+
+  app.get("/api/admin/x402/passes", requireAdmin, async (req, res) => {
+    const wallet = sanitizeQueryParam(req.query.wallet);
+    if (wallet && !validateSolanaAddress(wallet)) {
+      return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+    }
+
+    try {
+      const passes = await getPasses({
+        planId: sanitizeQueryParam(req.query.plan) || undefined,
+        walletAddress: wallet || undefined,
+        active: req.query.active === "true",
+        limit: parseIntParam(req.query.limit, 100, 500)
+      });
+      res.json({ passes, count: passes.length });
+    } catch (error) {
+      console.error("Error listing passes:", error);
+      res.status(500).json({ error: "Failed to list passes" });
+    }
+  });
+
+  // Grants a complimentary pass. The token is only returned here.
+  app.post("/api/admin/x402/passes", requireAdmin, async (req, res) => {
+    const parseResult = x402PassGrantSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid pass grant", details: parseResult.error.errors });
+    }
+    const unknown = unknownAgentIds(parseResult.data.agentIds);
+    if (unknown.length > 0) {
+      return res.status(400).json(createErrorResponse(`Unknown agents: ${unknown.join(", ")}`, "UNKNOWN_AGENT"));
+    }
+
+    try {
+      res.status(201).json(await grantPass(parseResult.data));
+    } catch (error) {
+      console.error("Error granting pass:", error);
+      res.status(500).json({ error: "Failed to grant pass" });
+    }
+  });
+
+  app.post("/api/admin/x402/passes/:id/revoke", requireAdmin, async (req, res) => {
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.slice(0, 200) : "Revoked by admin";
+
+    try {
+      const revoked = await revokePass(req.params.id, reason);
+      if (revoked) {
+        return res.json(revoked);
+      }
+      const pass = await getPass(req.params.id);
+      if (!pass) {
+        return res.status(404).json(createErrorResponse("Pass not found", "PASS_NOT_FOUND"));
+      }
+      res.json(pass);
+    } catch (error) {
+      console.error("Error revoking pass:", error);
+      res.status(500).json({ error: "Failed to revoke pass" });
+    }
+  });
+
+  app.get("/api/admin/x402/promo-codes", requireAdmin, async (_req, res) => {
+    try {
+      res.json({ promoCodes: await getPromoCodes() });
+    } catch (error) {
+      console.error("Error listing promo codes:", error);
+      res.status(500).json({ error: "Failed to list promo codes" });
+    }
+  });
+
+  app.post("/api/admin/x402/promo-codes", requireAdmin, async (req, res) => {
+    const parseResult = x402PromoCodeDefinitionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid promo code", details: parseResult.error.errors });
+    }
+    const unknown = unknownAgentIds(parseResult.data.agentIds || []);
+    if (unknown.length > 0) {
+      return res.status(400).json(createErrorResponse(`Unknown agents: ${unknown.join(", ")}`, "UNKNOWN_AGENT"));
+    }
+
+    try {
+      const promo = await createPromoCode(parseResult.data);
+      if (!promo) {
+        return res.status(409).json(createErrorResponse("Promo code already exists", "PROMO_CODE_EXISTS"));
+      }
+      res.status(201).json(promo);
+    } catch (error) {
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ error: "Failed to create promo code" });
+    }
+  });
+
+  app.get("/api/admin/x402/promo-codes/stats", requireAdmin, async (req, res) => {
+    try {
+      res.json({ promoCodes: await getPromoCodeStats(sanitizeQueryParam(req.query.code) || undefined) });
+    } catch (error) {
+      console.error("Error fetching promo code stats:", error);
+      res.status(500).json({ error: "Failed to fetch promo code stats" });
+    }
+  });
+
+  // Revoked codes stay listed so their redemptions remain reportable.
+  app.delete("/api/admin/x402/promo-codes/:code", requireAdmin, async (req, res) => {
+    try {
+      const promo = await revokePromoCode(req.params.code);
+      if (!promo) {
+        return res.status(404).json(createErrorResponse("Promo code not found", "PROMO_CODE_NOT_FOUND"));
+      }
+      res.json(promo);
+    } catch (error) {
+      console.error("Error revoking promo code:", error);
+      res.status(500).json({ error: "Failed to revoke promo code" });
+    }
+  });
+
+  app.get("/api/x402/webhooks", requireAdmin, async (_req, res) => {
+    try {
+      const [webhooks, stats] = await Promise.all([getAllWebhooks(), getWebhookStats()]);
+      res.json({ webhooks: webhooks.map(toPublicWebhook), stats });
+    } catch (error) {
+      console.error("Error listing webhooks:", error);
+      res.status(500).json({ error: "Failed to list webhooks" });
+    }
+  });
+
+  // The signing secret is only returned here, when the subscription is created.
+  app.post("/api/x402/webhooks", requireAdmin, async (req, res) => {
+    const { input, error } = parseWebhookInput(req.body, false);
+    if (!input) {
+      return res.status(400).json(createErrorResponse(error!, "INVALID_WEBHOOK"));
+    }
+
+    try {
+      const webhook = await registerWebhook(input.url!, input.events!);
+      const created = input.active === false ? await updateWebhook(webhook.id, { active: false }) : webhook;
+      res.status(201).json({ ...toPublicWebhook(created || webhook), secret: webhook.secret });
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  app.get("/api/x402/webhooks/:id", requireAdmin, async (req, res) => {
+    try {
+      const webhook = await getWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json(createErrorResponse("Webhook not found", "WEBHOOK_NOT_FOUND"));
+      }
+      res.json(toPublicWebhook(webhook));
+    } catch (error) {
+      console.error("Error fetching webhook:", error);
+      res.status(500).json({ error: "Failed to fetch webhook" });
+    }
+  });
+
+  app.patch("/api/x402/webhooks/:id", requireAdmin, async (req, res) => {
+    const { input, error } = parseWebhookInput(req.body, true);
+    if (!input) {
+      return res.status(400).json(createErrorResponse(error!, "INVALID_WEBHOOK"));
+    }
+
+    try {
+      const webhook = await updateWebhook(req.params.id, input);
+      if (!webhook) {
+        return res.status(404).json(createErrorResponse("Webhook not found", "WEBHOOK_NOT_FOUND"));
+      }
+      res.json(toPublicWebhook(webhook));
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/x402/webhooks/:id", requireAdmin, async (req, res) => {
+    try {
+      if (!await unregisterWebhook(req.params.id)) {
+        return res.status(404).json(createErrorResponse("Webhook not found", "WEBHOOK_NOT_FOUND"));
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  // Returns the new secret once. The previous secret keeps being signed
+  // alongside it for `overlapSeconds` (default 24h, max 7 days).
+  app.post("/api/x402/webhooks/:id/rotate-secret", requireAdmin, async (req, res) => {
+    const overlapSeconds = req.body?.overlapSeconds;
+    if (overlapSeconds !== undefined && (typeof overlapSeconds !== "number" || !Number.isFinite(overlapSeconds) || overlapSeconds < 0)) {
+      return res.status(400).json(createErrorResponse("overlapSeconds must be a non-negative number", "INVALID_OVERLAP"));
+    }
+
+    try {
+      const webhook = await rotateWebhookSecret(
+        req.params.id,
+        overlapSeconds === undefined ? X402_WEBHOOK_CONFIG.defaultRotationOverlap : overlapSeconds * 1000
+      );
+      if (!webhook) {
+        return res.status(404).json(createErrorResponse("Webhook not found", "WEBHOOK_NOT_FOUND"));
+      }
+      res.json({ ...toPublicWebhook(webhook), secret: webhook.secret });
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.get("/api/x402/webhooks/:id/deliveries", requireAdmin, async (req, res) => {
+    try {
+      const webhook = await getWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json(createErrorResponse("Webhook not found", "WEBHOOK_NOT_FOUND"));
+      }
+      const limit = parseIntParam(req.query.limit, 50, 200);
+      res.json({ deliveries: await getDeliveryLogs(webhook.id, limit) });
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post("/api/x402/webhooks/:id/events/:eventId/redeliver", requireAdmin, async (req, res) => {
+    try {
+      const delivery = await redeliverEvent(req.params.id, req.params.eventId);
+      if (!delivery) {
+        return res.status(404).json(createErrorResponse("No delivery of this event for the webhook", "DELIVERY_NOT_FOUND"));
+      }
+      res.status(202).json(delivery);
+    } catch (error) {
+      console.error("Error redelivering webhook event:", error);
+      res.status(500).json({ error: "Failed to redeliver webhook event" });
+    }
+  });
+
+  app.post("/api/x402/credits/topup", x402Middleware("x402-credits"), async (req, res) => {
+    try {
+      const payment = req.x402Payment!;
+      // Settling records the signature on the execution first, so if the
+      // credit cannot be written below the payment is refunded.
+      const settlement = await req.settlePayment!();
+      if (!settlement.success || !settlement.receipt) {
+        return res.status(402).json({
+          error: `Payment settlement failed: ${settlement.error}`,
+          ...(settlement.pending && { settlementPending: true, transaction: settlement.receipt?.transaction })
+        });
+      }
+
+      const wallet = payment.payer || settlement.receipt.payer;
+      if (!wallet) {
+        return res.status(400).json(createErrorResponse("Could not determine the paying wallet", "UNKNOWN_PAYER"));
+      }
+
+      const result = await topUpCredits(wallet, payment.quote.priceUSD, settlement.receipt.transaction, payment.executionId);
+      if (!result) {
+        return res.status(409).json(createErrorResponse("Payment was already credited", "ALREADY_CREDITED"));
+      }
+
+      const session = await openCreditSession(wallet, settlement.receipt.transaction);
+      res.json({
+        wallet,
+        amountUSD: payment.quote.priceUSD,
+        balanceUSD: result.account.balanceUSD,
+        topUpId: result.topUp.id,
+        sessionToken: session.token,
+        expiresAt: session.expiresAt.toISOString(),
+        transaction: settlement.receipt.transaction
+      });
+    } catch (error) {
+      console.error("x402 credit top-up error:", error);
+      res.status(500).json({ error: "Failed to top up credits" });
+    }
+  });
+
+  app.get("/api/x402/passes/plans", async (_req, res) => {
+    try {
+      const plans = await getPassPlans();
+      res.json({
+        plans: plans.map(plan => ({
+          id: plan.id,
+          name: plan.name,
+          agentIds: plan.agentIds,
+          durationDays: plan.durationDays,
+          priceUSD: plan.priceUsd
+        }))
+      });
+    } catch (error) {
+      console.error("Error listing pass plans:", error);
+      res.status(500).json({ error: "Failed to list pass plans" });
+    }
+  });
+
+  // The pass token is only returned in this response; it is stored hashed.
+  app.post("/api/x402/passes/purchase", x402Middleware("x402-passes"), async (req, res) => {
+    try {
+      const payment = req.x402Payment!;
+      // As with top-ups, a pass that cannot be issued after settling leaves a
+      // failed execution with the signature, which the refund worker pays back.
+      const settlement = await req.settlePayment!();
+      if (!settlement.success || !settlement.receipt) {
+        return res.status(402).json({
+          error: `Payment settlement failed: ${settlement.error}`,
+          ...(settlement.pending && { settlementPending: true, transaction: settlement.receipt?.transaction })
+        });
+      }
+
+      const wallet = payment.payer || settlement.receipt.payer;
+      if (!wallet) {
+        return res.status(400).json(createErrorResponse("Could not determine the paying wallet", "UNKNOWN_PAYER"));
+      }
+
+      const result = await purchasePass(String(req.query.plan), wallet, settlement.receipt.transaction, payment.quote.priceUSD);
+      if (!result.issued) {
+        return res.status(409).json(createErrorResponse(result.error!, "PASS_NOT_ISSUED"));
+      }
+
+      res.json({ ...result.issued, transaction: settlement.receipt.transaction });
+    } catch (error) {
+      console.error("x402 pass purchase error:", error);
+      res.status(500).json({ error: "Failed to issue pass" });
+    }
+  });
+
+  // Issues a fresh session token for an existing balance, e.g. after the
+  // previous token expired, without paying again.
+  app.post("/api/x402/credits/session", async (req, res) => {
+    try {
+      const { wallet, timestamp, signature } = req.body || {};
+      const auth = verifyWalletAuth("credits-session", { wallet, timestamp, signature });
+      if (!auth.valid) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+      }
+
+      const account = await getCreditAccount(wallet);
+      if (!account) {
+        return res.status(404).json(createErrorResponse("No credit balance for this wallet", "NO_CREDIT_ACCOUNT"));
+      }
+
+      const session = await openCreditSession(wallet);
+      res.json({
+        wallet,
+        balanceUSD: account.balanceUSD,
+        sessionToken: session.token,
+        expiresAt: session.expiresAt.toISOString()
+      });
+    } catch (error) {
+      console.error("x402 credit session error:", error);
+      res.status(500).json({ error: "Failed to open credit session" });
+    }
+  });
+
+  app.delete("/api/x402/credits/session", async (req, res) => {
+    try {
+      const token = req.headers["x-session-token"];
+      const auth = typeof token === "string" ? await authenticateCreditSession(token) : { error: "X-Session-Token header required" };
+      if (!auth.sessionId) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid session token", "INVALID_SESSION"));
+      }
+      await revokeCreditSession(auth.sessionId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("x402 credit session revocation error:", error);
+      res.status(500).json({ error: "Failed to revoke credit session" });
+    }
+  });
+
+  // Balances and their history are private to the wallet: callers present the
+  // wallet's session token or a signature for the "credits" action.
+  app.get("/api/x402/credits/:wallet", async (req, res) => {
+    try {
+      if (!validateSolanaAddress(req.params.wallet)) {
+        return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+      }
+      const auth = await authenticateWalletOwner(req, "credits", req.params.wallet);
+      if (!auth.valid) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+      }
+      const account = await getCreditAccount(req.params.wallet);
+      if (!account) {
+        return res.status(404).json(createErrorResponse("No credit balance for this wallet", "NO_CREDIT_ACCOUNT"));
+      }
+      res.json(account);
+    } catch (error) {
+      console.error("Error fetching credit balance:", error);
+      res.status(500).json({ error: "Failed to fetch credit balance" });
+    }
+  });
+
+  app.get("/api/x402/credits/:wallet/topups", async (req, res) => {
+    try {
+      if (!validateSolanaAddress(req.params.wallet)) {
+        return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+      }
+      const auth = await authenticateWalletOwner(req, "credits", req.params.wallet);
+      if (!auth.valid) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+      }
+      const topUps = await getCreditTopUps(req.params.wallet, parseIntParam(req.query.limit, 50, 500));
+      res.json({
+        topUps: topUps.map(topUp => ({ ...topUp, amountUSD: microUsdToUsd(topUp.amountMicroUsd) })),
+        count: topUps.length
+      });
+    } catch (error) {
+      console.error("Error fetching credit top-ups:", error);
+      res.status(500).json({ error: "Failed to fetch credit top-ups" });
+    }
+  });
+
+  app.get("/api/x402/credits/:wallet/debits", async (req, res) => {
+    try {
+      if (!validateSolanaAddress(req.params.wallet)) {
+        return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+      }
+      const auth = await authenticateWalletOwner(req, "credits", req.params.wallet);
+      if (!auth.valid) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+      }
+      const debits = await getCreditDebits(req.params.wallet, parseIntParam(req.query.limit, 50, 500));
+      res.json({
+        debits: debits.map(debit => ({ ...debit, amountUSD: microUsdToUsd(debit.amountMicroUsd) })),
+        count: debits.length
+      });
+    } catch (error) {
+      console.error("Error fetching credit debits:", error);
+      res.status(500).json({ error: "Failed to fetch credit debits" });
+    }
+  });
+
+  // Budgets are private to the wallet owner. Reads are signed with the
+  // "budget" action via X-Wallet-Timestamp / X-Wallet-Signature headers;
+  // updates carry timestamp and signature for "budget-update" in the body,
+  // signed together with a hash of the limits being set.
+  app.get("/api/x402/budgets/:wallet", async (req, res) => {
+    const wallet = req.params.wallet;
+    const auth = verifyWalletAuth("budget", {
+      wallet,
+      timestamp: Number(req.headers["x-wallet-timestamp"]),
+      signature: req.headers["x-wallet-signature"] as string | undefined
+    });
+    if (!auth.valid) {
+      return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+    }
+
+    try {
+      res.json(await getBudgetStatus(wallet));
+    } catch (error) {
+      console.error("Error fetching wallet budget:", error);
+      res.status(500).json({ error: "Failed to fetch wallet budget" });
+    }
+  });
+
+  app.put("/api/x402/budgets/:wallet", async (req, res) => {
+    const wallet = req.params.wallet;
+    const { timestamp, signature, ...update } = req.body || {};
+    const auth = verifyWalletAuth("budget-update", { wallet, timestamp, signature }, hashWalletAuthBody(update));
+    if (!auth.valid) {
+      return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+    }
+
+    const parseResult = x402WalletBudgetUpdateSchema.safeParse(update);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid budget", details: parseResult.error.errors });
+    }
+
+    try {
+      await updateWalletBudget(wallet, parseResult.data);
+      res.json(await getBudgetStatus(wallet));
+    } catch (error) {
+      console.error("Error updating wallet budget:", error);
+      res.status(500).json({ error: "Failed to update wallet budget" });
+    }
+  });
+
+  // Statements are private to the wallet owner, like budgets.
+  app.get("/api/x402/statements/:wallet", async (req, res) => {
+    const wallet = req.params.wallet;
+    if (!validateSolanaAddress(wallet)) {
+      return res.status(400).json(createErrorResponse("Invalid wallet address", "INVALID_WALLET"));
+    }
+    const auth = await authenticateWalletOwner(req, "statement", wallet);
+    if (!auth.valid) {
+      return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+    }
+    const period = sanitizeQueryParam(req.query.month) || currentStatementPeriod();
+    const format = sanitizeQueryParam(req.query.format) || "json";
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json(createErrorResponse("format must be json or csv", "INVALID_FORMAT"));
+    }
+
+    try {
+      const statement = await buildStatement(wallet, period);
+      if (!statement) {
+        return res.status(400).json(createErrorResponse("month must be YYYY-MM", "INVALID_PERIOD"));
+      }
+      res.setHeader("Content-Disposition", `attachment; filename="x402-statement-${wallet}-${period}.${format}"`);
+      if (format === "csv") {
+        return res.type("text/csv").send(statementToCsv(statement));
+      }
+      res.json(statement);
+    } catch (error) {
+      console.error("Error building x402 statement:", error);
+      res.status(500).json({ error: "Failed to build statement" });
+    }
+  });
+
+  app.get("/api/x402/receipts/public-key", (_req, res) => {
+    res.json({ publicKey: getReceiptPublicKey(), algorithm: "ed25519", encoding: "base58" });
+  });
+
+  // Receipts carry the payer's wallet and call history, so only the payer
+  // can fetch them.
+  app.get("/api/x402/receipts/:paymentId", async (req, res) => {
+    try {
+      const payment = await getReceiptPayment(req.params.paymentId);
+      if (!payment) {
+        return res.status(404).json(createErrorResponse("Payment not found", "PAYMENT_NOT_FOUND"));
+      }
+      const auth = await authenticateWalletOwner(req, "receipt", payment.walletAddress!);
+      if (!auth.valid) {
+        return res.status(401).json(createErrorResponse(auth.error || "Invalid wallet signature", "INVALID_SIGNATURE"));
+      }
+
+      const result = issueReceipt(payment);
+      if (!result.receipt) {
+        return res.status(result.status!).json(createErrorResponse(result.error!, "PAYMENT_NOT_SETTLED"));
+      }
+      res.json(result.receipt);
+    } catch (error) {
+      console.error("Error issuing x402 receipt:", error);
+      res.status(500).json({ error: "Failed to issue receipt" });
+    }
+  });
+
+  app.get("/api/x402/portfolio", trackAgentCall("x402-portfolio", { paid: true }), x402Middleware("x402-portfolio"), async (req, res) => {
     try {
       const wallet = sanitizeQueryParam(req.query.wallet);
       
@@ -1010,7 +2351,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/x402/entry", x402Middleware("x402-entry"), async (req, res) => {
+  app.get("/api/x402/entry", trackAgentCall("x402-entry", { paid: true }), x402Middleware("x402-entry"), async (req, res) => {
     try {
       const token = sanitizeQueryParam(req.query.token);
       
@@ -1025,13 +2366,8 @@ export async function registerRoutes(
       }
 
       res.json({
+        ...analysis,
         token: analysis.symbol,
-        tokenAddress: analysis.tokenAddress,
-        currentPrice: analysis.currentPrice,
-        entryZones: analysis.entryZones,
-        signals: analysis.signals,
-        volumeAnalysis: analysis.volumeAnalysis,
-        recommendation: analysis.recommendation,
         generatedAt: new Date().toISOString(),
         poweredBy: "MODEXO x402"
       });
@@ -1041,7 +2377,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/x402/liquidity", x402Middleware("x402-liquidity"), async (req, res) => {
+  app.get("/api/x402/liquidity", trackAgentCall("x402-liquidity", { paid: true }), x402Middleware("x402-liquidity"), async (req, res) => {
     try {
       const token = sanitizeQueryParam(req.query.token);
       
@@ -1056,14 +2392,9 @@ export async function registerRoutes(
       }
 
       res.json({
+        ...analysis,
         token: analysis.symbol,
-        tokenAddress: analysis.tokenAddress,
         liquidityUSD: analysis.liquidity.totalUsd,
-        liquidity: analysis.liquidity,
-        concentration: analysis.concentration,
-        slippage: analysis.slippage,
-        dexDistribution: analysis.dexDistribution,
-        recommendation: analysis.recommendation,
         generatedAt: new Date().toISOString(),
         poweredBy: "MODEXO x402"
       });
@@ -1073,15 +2404,17 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/x402/whaletracker", x402Middleware("x402-whaletracker"), async (req, res) => {
+  app.get("/api/x402/whaletracker", trackAgentCall("x402-whaletracker", { paid: true }), x402Middleware("x402-whaletracker"), async (req, res) => {
     try {
-      const token = sanitizeQueryParam(req.query.token);
+      const tokens = parseBatch(req.query.token).map(sanitizeQueryParam);
       
-      if (!token) {
+      if (tokens.length === 0) {
         return res.status(400).json({ error: "Token address required" });
       }
 
-      const whaleTrades = await getRecentWhaleTrades([token]);
+      const depth = sanitizeQueryParam(req.query.depth) || "standard";
+      const tradeLimit = WHALE_TRADES_BY_DEPTH[depth] ?? WHALE_TRADES_BY_DEPTH.standard;
+      const whaleTrades = await getRecentWhaleTrades(tokens);
       
       let buyVolume = 0;
       let sellVolume = 0;
@@ -1098,8 +2431,10 @@ export async function registerRoutes(
       const netFlowLabel = netFlow > 0 ? 'bullish' : netFlow < 0 ? 'bearish' : 'neutral';
 
       res.json({
-        token,
-        recentWhaleTrades: whaleTrades.slice(0, 10).map(t => ({
+        token: tokens.join(","),
+        tokens,
+        depth,
+        recentWhaleTrades: whaleTrades.slice(0, tradeLimit).map(t => ({
           wallet: t.walletAddress,
           type: t.side,
           amountUsd: t.sizeUsd,
@@ -1122,7 +2457,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/x402/kyc", x402Middleware("x402-kyc"), async (req, res) => {
+  app.get("/api/x402/kyc", trackAgentCall("x402-kyc", { paid: true }), x402Middleware("x402-kyc"), async (req, res) => {
     try {
       const wallet = sanitizeQueryParam(req.query.wallet);
       
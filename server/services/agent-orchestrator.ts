@@ -4,6 +4,8 @@ interface AgentTask {
   type: string;
   priority: number;
   payload: Record<string, any>;
+  // Overrides config.taskTimeout for jobs known to run long.
+  timeoutMs?: number;
   status: "queued" | "running" | "completed" | "failed";
   createdAt: Date;
   startedAt?: Date;
@@ -72,7 +74,8 @@ export function submitTask(
   agentId: string,
   type: string,
   payload: Record<string, any>,
-  priority: number = 5
+  priority: number = 5,
+  timeoutMs?: number
 ): AgentTask {
   const task: AgentTask = {
     id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -80,6 +83,7 @@ export function submitTask(
     type,
     priority: Math.min(Math.max(priority, 1), config.priorityLevels),
     payload,
+    timeoutMs,
     status: "queued",
     createdAt: new Date()
   };
@@ -134,10 +138,11 @@ async function executeTask(task: AgentTask, agent: AgentInstance): Promise<void>
   activeTasks.set(task.id, task);
   
   const handler = taskHandlers.get(task.type);
+  let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
   
   try {
     const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error("Task timeout")), config.taskTimeout);
+      timeoutTimer = setTimeout(() => reject(new Error("Task timeout")), task.timeoutMs ?? config.taskTimeout);
     });
     
     const result = handler 
@@ -154,6 +159,7 @@ async function executeTask(task: AgentTask, agent: AgentInstance): Promise<void>
     agent.failedTasks++;
     
   } finally {
+    clearTimeout(timeoutTimer);
     task.completedAt = new Date();
     agent.status = "idle";
     agent.currentTask = undefined;
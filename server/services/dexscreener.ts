@@ -1,3 +1,5 @@
+import type { SmartEntryAnalysis, LiquidityAnalysis } from "@shared/schema";
+
 const DEXSCREENER_SERVICE_VERSION = "1.2.0";
 const DEXSCREENER_API_BASE = "https://api.dexscreener.com";
 const RATE_LIMIT_REQUESTS = 30;
@@ -410,43 +412,6 @@ export function pairToTokenSnapshot(pair: DexPair) {
   };
 }
 
-export interface SmartEntryAnalysis {
-  tokenAddress: string;
-  symbol: string;
-  name: string;
-  currentPrice: number;
-  imageUrl: string | null;
-  entryZones: {
-    optimal: number;
-    aggressive: number;
-    conservative: number;
-  };
-  signals: {
-    type: 'bullish' | 'bearish' | 'neutral';
-    strength: number;
-    reasons: string[];
-  };
-  volumeAnalysis: {
-    h1Volume: number;
-    h24Volume: number;
-    volumeTrend: 'increasing' | 'decreasing' | 'stable';
-    buyPressure: number;
-  };
-  momentum: {
-    score: number;
-    trend: 'up' | 'down' | 'sideways';
-    strength: 'strong' | 'moderate' | 'weak';
-  };
-  support: {
-    level1: number;
-    level2: number;
-  };
-  recommendation: 'strong_buy' | 'buy' | 'wait' | 'avoid';
-  confidence: number;
-  liquidityUsd: number;
-  marketCap: number;
-}
-
 export async function analyzeSmartEntry(tokenAddress: string): Promise<SmartEntryAnalysis | null> {
   const pairs = await getTokenPairs(tokenAddress);
   if (!pairs.length) return null;
@@ -590,42 +555,6 @@ export async function analyzeSmartEntry(tokenAddress: string): Promise<SmartEntr
   };
 }
 
-export interface LiquidityAnalysis {
-  tokenAddress: string;
-  symbol: string;
-  name: string;
-  imageUrl: string | null;
-  currentPrice: number;
-  liquidity: {
-    totalUsd: number;
-    baseAmount: number;
-    quoteAmount: number;
-    depth: 'deep' | 'moderate' | 'shallow' | 'critical';
-  };
-  concentration: {
-    riskLevel: 'low' | 'medium' | 'high' | 'extreme';
-    topPoolShare: number;
-    poolCount: number;
-  };
-  slippage: {
-    estimated1k: number;
-    estimated10k: number;
-    estimated50k: number;
-  };
-  metrics: {
-    liquidityToMcap: number;
-    volumeToLiquidity: number;
-    healthScore: number;
-  };
-  dexDistribution: Array<{
-    name: string;
-    liquidity: number;
-    share: number;
-  }>;
-  warnings: string[];
-  recommendation: 'safe' | 'moderate' | 'caution' | 'avoid';
-}
-
 export async function analyzeLiquidity(tokenAddress: string): Promise<LiquidityAnalysis | null> {
   const pairs = await getTokenPairs(tokenAddress);
   if (!pairs.length) return null;
@@ -222,20 +222,30 @@ const KNOWN_STABLECOINS: Record<string, { symbol: string; decimals: number; pric
 };
 
 let solPrice = 200;
+let solPriceUpdatedAt = 0;
 
 async function fetchSolPrice(): Promise<number> {
   try {
     const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
     const data = await response.json();
-    solPrice = data.solana?.usd || 200;
+    if (data.solana?.usd) {
+      solPrice = data.solana.usd;
+      solPriceUpdatedAt = Date.now();
+    }
     return solPrice;
   } catch {
     return solPrice;
   }
 }
 
+// updatedAt is 0 until a live price has been fetched; callers that charge in
+// SOL should not rely on the 200 fallback.
+export function getSolPriceQuote(): { price: number; updatedAt: number } {
+  return { price: solPrice, updatedAt: solPriceUpdatedAt };
+}
+
 fetchSolPrice();
-setInterval(fetchSolPrice, 60000);
+setInterval(fetchSolPrice, 60000).unref();
 
 export async function getRecentWhaleTrades(tokenAddresses: string[]): Promise<WhaleTrade[]> {
   const apiKey = getHeliusApiKey();
@@ -1,164 +1,226 @@
-import { db } from "../db";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import {
+  X402_CALL_PAYMENT_METHOD,
+  type X402AgentCallFilter,
+  type X402CallGrouping,
+  type X402CallSummary
+} from "@shared/schema";
+import { isHealthProbe } from "./x402-health";
 
-interface AgentCallMetric {
+const DEFAULT_DAYS = 30;
+const MAX_ERROR_LENGTH = 500;
+
+type PaymentMethod = typeof X402_CALL_PAYMENT_METHOD[keyof typeof X402_CALL_PAYMENT_METHOD];
+
+export interface AgentCallMetric {
   agentId: string;
-  walletAddress: string;
-  timestamp: Date;
+  walletAddress?: string;
+  paymentMethod: PaymentMethod;
+  paymentAmount: number;
+  executionId?: string;
+  statusCode: number;
   responseTimeMs: number;
   success: boolean;
-  paymentAmount: number;
   errorMessage?: string;
 }
 
-interface AgentStats {
+export interface AgentStats {
   agentId: string;
   totalCalls: number;
+  paidCalls: number;
   successfulCalls: number;
   failedCalls: number;
+  successRate: number;
   totalRevenue: number;
   averageResponseTime: number;
+  p50ResponseTime: number;
+  p95ResponseTime: number;
   uniqueUsers: number;
 }
 
-interface DailyMetrics {
+export interface DailyMetrics {
   date: string;
   callCount: number;
   revenue: number;
   uniqueWallets: number;
 }
 
-const metricsStore: Map<string, AgentCallMetric[]> = new Map();
-const dailyCache: Map<string, DailyMetrics> = new Map();
+export async function recordAgentCall(metric: AgentCallMetric): Promise<void> {
+  await storage.recordX402AgentCall({
+    agentId: metric.agentId,
+    walletAddress: metric.walletAddress || null,
+    paymentMethod: metric.paymentMethod,
+    paymentAmount: metric.paymentAmount,
+    executionId: metric.executionId || null,
+    statusCode: metric.statusCode,
+    success: metric.success,
+    responseTimeMs: metric.responseTimeMs,
+    errorMessage: metric.errorMessage?.slice(0, MAX_ERROR_LENGTH) || null
+  });
+}
 
-export function recordAgentCall(metric: AgentCallMetric): void {
-  const key = metric.agentId;
-  if (!metricsStore.has(key)) {
-    metricsStore.set(key, []);
-  }
-  metricsStore.get(key)!.push(metric);
-  
-  const dateKey = `${metric.agentId}-${metric.timestamp.toISOString().split('T')[0]}`;
-  const existing = dailyCache.get(dateKey) || {
-    date: metric.timestamp.toISOString().split('T')[0],
-    callCount: 0,
-    revenue: 0,
-    uniqueWallets: 0
+// Records the call once the response is sent. Paid routes only count calls
+// that got past x402Middleware; 402 challenges and rejected input are not
+// calls. Revenue is only booked for successful calls, matching settlement.
+export function trackAgentCall(agentId: string, options: { paid: boolean }) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (isHealthProbe(req)) return next();
+
+    const started = Date.now();
+    let errorMessage: string | undefined;
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      if (res.statusCode >= 400 && body && typeof body.error === "string") {
+        errorMessage = body.error;
+      }
+      return originalJson(body);
+    };
+
+    res.on("finish", () => {
+      const payment = req.x402Payment;
+      if ((options.paid && !payment) || res.statusCode === 400) return;
+
+      const success = res.statusCode < 400;
+      const paymentMethod: PaymentMethod = !payment
+        ? X402_CALL_PAYMENT_METHOD.FREE
+        : payment.passId ? X402_CALL_PAYMENT_METHOD.PASS
+        : payment.promoCode ? X402_CALL_PAYMENT_METHOD.PROMO
+        : payment.creditDebitId ? X402_CALL_PAYMENT_METHOD.CREDITS : X402_CALL_PAYMENT_METHOD.X402;
+
+      recordAgentCall({
+        agentId,
+        walletAddress: payment?.payer,
+        paymentMethod,
+        paymentAmount: success ? payment?.quote?.priceUSD ?? 0 : 0,
+        executionId: payment?.executionId,
+        statusCode: res.statusCode,
+        responseTimeMs: Date.now() - started,
+        success,
+        errorMessage
+      }).catch(e => console.error(`Failed to record call to ${agentId}:`, e));
+    });
+
+    next();
   };
-  existing.callCount++;
-  existing.revenue += metric.paymentAmount;
-  dailyCache.set(dateKey, existing);
 }
 
-export function getAgentStats(agentId: string): AgentStats {
-  const metrics = metricsStore.get(agentId) || [];
-  const uniqueWallets = new Set(metrics.map(m => m.walletAddress));
-  const successfulCalls = metrics.filter(m => m.success);
-  const totalResponseTime = successfulCalls.reduce((sum, m) => sum + m.responseTimeMs, 0);
-  
+export function getCallReport(groupBy: X402CallGrouping, filter: X402AgentCallFilter = {}): Promise<X402CallSummary[]> {
+  return storage.summarizeX402AgentCalls(groupBy, filter);
+}
+
+export function successRate(summary: X402CallSummary): number {
+  return summary.calls > 0 ? (summary.successfulCalls / summary.calls) * 100 : 100;
+}
+
+function toAgentStats(agentId: string, summary?: X402CallSummary): AgentStats {
   return {
     agentId,
-    totalCalls: metrics.length,
-    successfulCalls: successfulCalls.length,
-    failedCalls: metrics.length - successfulCalls.length,
-    totalRevenue: metrics.reduce((sum, m) => sum + m.paymentAmount, 0),
-    averageResponseTime: successfulCalls.length > 0 ? totalResponseTime / successfulCalls.length : 0,
-    uniqueUsers: uniqueWallets.size
+    totalCalls: summary?.calls ?? 0,
+    paidCalls: summary?.paidCalls ?? 0,
+    successfulCalls: summary?.successfulCalls ?? 0,
+    failedCalls: summary?.failedCalls ?? 0,
+    successRate: summary ? successRate(summary) : 100,
+    totalRevenue: summary?.revenue ?? 0,
+    averageResponseTime: summary?.avgResponseTimeMs ?? 0,
+    p50ResponseTime: summary?.p50ResponseTimeMs ?? 0,
+    p95ResponseTime: summary?.p95ResponseTimeMs ?? 0,
+    uniqueUsers: summary?.uniqueWallets ?? 0
   };
 }
 
-export function getAllAgentStats(): AgentStats[] {
-  const agentIds = Array.from(metricsStore.keys());
-  return agentIds.map(id => getAgentStats(id));
+export async function getAgentStats(agentId: string, from?: Date, to?: Date): Promise<AgentStats> {
+  const [summary] = await getCallReport("agent", { agentId, from, to });
+  return toAgentStats(agentId, summary);
+}
+
+export async function getAllAgentStats(from?: Date, to?: Date): Promise<AgentStats[]> {
+  const summaries = await getCallReport("agent", { from, to });
+  return summaries.map(summary => toAgentStats(summary.key, summary));
 }
 
-export function getDailyMetrics(agentId: string, days: number = 30): DailyMetrics[] {
+// One entry per UTC day, oldest first, with empty days filled in.
+export async function getDailyMetrics(agentId?: string, days: number = DEFAULT_DAYS): Promise<DailyMetrics[]> {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+
+  const summaries = await getCallReport("day", { agentId, from: start });
+  const byDate = new Map(summaries.map(summary => [summary.key, summary]));
+
   const results: DailyMetrics[] = [];
-  const now = new Date();
-  
   for (let i = 0; i < days; i++) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + i);
     const dateStr = date.toISOString().split('T')[0];
-    const key = `${agentId}-${dateStr}`;
-    
-    results.push(dailyCache.get(key) || {
+    const summary = byDate.get(dateStr);
+    results.push({
       date: dateStr,
-      callCount: 0,
-      revenue: 0,
-      uniqueWallets: 0
+      callCount: summary?.calls ?? 0,
+      revenue: summary?.revenue ?? 0,
+      uniqueWallets: summary?.uniqueWallets ?? 0
     });
   }
-  
-  return results.reverse();
-}
-
-export function getTopUsers(agentId: string, limit: number = 10): Array<{wallet: string; calls: number; spent: number}> {
-  const metrics = metricsStore.get(agentId) || [];
-  const userStats = new Map<string, {calls: number; spent: number}>();
-  
-  for (const metric of metrics) {
-    const existing = userStats.get(metric.walletAddress) || {calls: 0, spent: 0};
-    existing.calls++;
-    existing.spent += metric.paymentAmount;
-    userStats.set(metric.walletAddress, existing);
-  }
-  
-  return Array.from(userStats.entries())
-    .map(([wallet, stats]) => ({wallet, ...stats}))
-    .sort((a, b) => b.spent - a.spent)
-    .slice(0, limit);
+  return results;
 }
 
-export function getRevenueByPeriod(startDate: Date, endDate: Date): {total: number; byAgent: Record<string, number>} {
+export async function getTopUsers(agentId?: string, limit: number = 10): Promise<Array<{wallet: string; calls: number; spent: number}>> {
+  const summaries = await getCallReport("wallet", { agentId, limit });
+  return summaries.map(summary => ({ wallet: summary.key, calls: summary.calls, spent: summary.revenue }));
+}
+
+export async function getRevenueByPeriod(startDate: Date, endDate: Date): Promise<{total: number; byAgent: Record<string, number>}> {
+  const summaries = await getCallReport("agent", { from: startDate, to: endDate });
   const byAgent: Record<string, number> = {};
   let total = 0;
-  
-  for (const [agentId, metrics] of metricsStore.entries()) {
-    const filtered = metrics.filter(m => 
-      m.timestamp >= startDate && m.timestamp <= endDate
-    );
-    const revenue = filtered.reduce((sum, m) => sum + m.paymentAmount, 0);
-    byAgent[agentId] = revenue;
-    total += revenue;
+  for (const summary of summaries) {
+    byAgent[summary.key] = summary.revenue;
+    total += summary.revenue;
   }
-  
   return {total, byAgent};
 }
 
-export function getSuccessRate(agentId: string): number {
-  const metrics = metricsStore.get(agentId) || [];
-  if (metrics.length === 0) return 100;
-  const successful = metrics.filter(m => m.success).length;
-  return (successful / metrics.length) * 100;
+export async function getSuccessRate(agentId: string): Promise<number> {
+  return (await getAgentStats(agentId)).successRate;
 }
 
-export function getAverageResponseTime(agentId: string): number {
-  const metrics = metricsStore.get(agentId) || [];
-  const successful = metrics.filter(m => m.success);
-  if (successful.length === 0) return 0;
-  const total = successful.reduce((sum, m) => sum + m.responseTimeMs, 0);
-  return total / successful.length;
+export async function getAverageResponseTime(agentId: string): Promise<number> {
+  return (await getAgentStats(agentId)).averageResponseTime;
 }
 
-export function clearMetrics(agentId?: string): void {
-  if (agentId) {
-    metricsStore.delete(agentId);
-    for (const key of dailyCache.keys()) {
-      if (key.startsWith(agentId)) {
-        dailyCache.delete(key);
-      }
-    }
-  } else {
-    metricsStore.clear();
-    dailyCache.clear();
-  }
+const CSV_COLUMNS: Array<keyof X402CallSummary> = [
+  "key",
+  "calls",
+  "paidCalls",
+  "successfulCalls",
+  "failedCalls",
+  "revenue",
+  "uniqueWallets",
+  "avgResponseTimeMs",
+  "p50ResponseTimeMs",
+  "p95ResponseTimeMs"
+];
+
+export function csvCell(value: unknown): string {
+  const text = typeof value === "number" ? String(Math.round(value * 1_000_000) / 1_000_000) : String(value ?? "");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
-export function exportMetrics(agentId: string): string {
-  const stats = getAgentStats(agentId);
-  const daily = getDailyMetrics(agentId, 30);
-  const topUsers = getTopUsers(agentId, 10);
-  
+export function toCsv(groupBy: X402CallGrouping, summaries: X402CallSummary[]): string {
+  const header = [groupBy, ...CSV_COLUMNS.slice(1), "successRate"].join(",");
+  const lines = summaries.map(summary =>
+    [...CSV_COLUMNS.map(column => summary[column]), successRate(summary)].map(csvCell).join(",")
+  );
+  return [header, ...lines].join("\n") + "\n";
+}
+
+export async function exportMetrics(agentId: string): Promise<string> {
+  const [stats, daily, topUsers] = await Promise.all([
+    getAgentStats(agentId),
+    getDailyMetrics(agentId, DEFAULT_DAYS),
+    getTopUsers(agentId, 10)
+  ]);
+
   return JSON.stringify({
     stats,
     dailyMetrics: daily,
@@ -0,0 +1,143 @@
+import {
+  X402_ASSETS,
+  X402_NETWORK_IDS,
+  type X402Cluster,
+  type X402AssetInfo
+} from "@shared/x402";
+import { getSolPriceQuote } from "./helius";
+
+const DEFAULT_ASSETS = "USDC,USDT,SOL";
+const SOL_RATE_MAX_AGE_MS = 5 * 60 * 1000;
+// A SOL/USD rate is pinned for a minute so repeated 402s quote the same amount,
+// and stays acceptable for three so a payer who signed against it can still pay.
+const SOL_RATE_PIN_MS = 60 * 1000;
+const SOL_RATE_TTL_MS = 3 * 60 * 1000;
+
+export interface SolUsdRate {
+  rate: number;
+  source: "configured" | "live";
+  issuedAt: number;
+}
+
+export interface AssetQuote {
+  asset: X402AssetInfo;
+  amount: string;
+  solUsdRate?: SolUsdRate;
+}
+
+function resolveCluster(): X402Cluster {
+  const configured = (process.env.X402_NETWORK || "mainnet-beta").toLowerCase();
+  if (configured === "devnet" || configured === "solana-devnet") return "devnet";
+  if (configured !== "mainnet-beta" && configured !== "mainnet" && configured !== "solana") {
+    console.warn(`Unknown X402_NETWORK "${configured}", falling back to mainnet-beta`);
+  }
+  return "mainnet-beta";
+}
+
+const cluster = resolveCluster();
+
+export function getX402Cluster(): X402Cluster {
+  return cluster;
+}
+
+export function getX402Network(): string {
+  return X402_NETWORK_IDS[cluster];
+}
+
+export function getPaymentAssets(): X402AssetInfo[] {
+  const enabled = (process.env.X402_ASSETS || DEFAULT_ASSETS)
+    .split(",")
+    .map(symbol => symbol.trim().toUpperCase());
+  return X402_ASSETS[cluster].filter(asset => enabled.includes(asset.symbol));
+}
+
+export function getAsset(symbol: X402AssetInfo["symbol"]): X402AssetInfo | undefined {
+  return X402_ASSETS[cluster].find(asset => asset.symbol === symbol);
+}
+
+export function getAssetByAddress(address: string): X402AssetInfo | undefined {
+  return X402_ASSETS[cluster].find(asset => asset.address === address);
+}
+
+const solRates: SolUsdRate[] = [];
+
+function pruneSolRates(now: number): void {
+  while (solRates.length > 0 && now - solRates[solRates.length - 1].issuedAt > SOL_RATE_TTL_MS) {
+    solRates.pop();
+  }
+}
+
+function fetchSolUsdRate(now: number): SolUsdRate | null {
+  const configured = Number(process.env.X402_SOL_USD_RATE);
+  if (Number.isFinite(configured) && configured > 0) {
+    return { rate: configured, source: "configured", issuedAt: now };
+  }
+
+  const { price, updatedAt } = getSolPriceQuote();
+  if (updatedAt > 0 && now - updatedAt <= SOL_RATE_MAX_AGE_MS && price > 0) {
+    return { rate: price, source: "live", issuedAt: now };
+  }
+  return null;
+}
+
+// Returns the pinned SOL/USD rate, taking a fresh one when the pin has lapsed.
+// Null means no configured or recent live rate exists, so SOL is not offered.
+export function getSolUsdRate(): SolUsdRate | null {
+  const now = Date.now();
+  pruneSolRates(now);
+
+  const latest = solRates[0];
+  if (latest && now - latest.issuedAt < SOL_RATE_PIN_MS) return latest;
+
+  const next = fetchSolUsdRate(now);
+  if (!next) return null;
+  solRates.unshift(next);
+  return next;
+}
+
+function toAtomicAmount(asset: X402AssetInfo, usd: number, solUsdRate?: SolUsdRate): string {
+  if (asset.native) {
+    return Math.ceil((usd / solUsdRate!.rate) * Math.pow(10, asset.decimals)).toString();
+  }
+  return Math.round(usd * Math.pow(10, asset.decimals)).toString();
+}
+
+// Prices to advertise in a 402 challenge, one per enabled asset.
+export function quotePrice(priceUSD: number): AssetQuote[] {
+  const quotes: AssetQuote[] = [];
+  for (const asset of getPaymentAssets()) {
+    if (!asset.native) {
+      quotes.push({ asset, amount: toAtomicAmount(asset, priceUSD) });
+      continue;
+    }
+    const solUsdRate = getSolUsdRate();
+    if (solUsdRate) {
+      quotes.push({ asset, amount: toAtomicAmount(asset, priceUSD, solUsdRate), solUsdRate });
+    }
+  }
+  return quotes;
+}
+
+// Prices a payment may have been signed against: the current quotes plus SOL
+// amounts from every rate that is still inside its acceptance window.
+export function quoteAcceptedPrices(priceUSD: number): AssetQuote[] {
+  const quotes = quotePrice(priceUSD);
+  const sol = getPaymentAssets().find(asset => asset.native);
+  if (!sol) return quotes;
+
+  const advertised = new Set(quotes.map(quote => `${quote.asset.address}:${quote.amount}`));
+  for (const solUsdRate of solRates) {
+    const amount = toAtomicAmount(sol, priceUSD, solUsdRate);
+    if (advertised.has(`${sol.address}:${amount}`)) continue;
+    advertised.add(`${sol.address}:${amount}`);
+    quotes.push({ asset: sol, amount, solUsdRate });
+  }
+  return quotes;
+}
+
+export const X402_ASSET_CONFIG = {
+  cluster,
+  network: X402_NETWORK_IDS[cluster],
+  solRatePin: SOL_RATE_PIN_MS,
+  solRateTtl: SOL_RATE_TTL_MS,
+};
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import { storage } from "../storage";
+import { AGENT_EXECUTION_STATUS, type AgentExecution } from "@shared/schema";
+import { submitTask, registerTaskHandler, registerAgent, getAgent, getTask } from "./agent-orchestrator";
+import { X402_LEDGER_CONFIG } from "./x402-ledger";
+
+const ASYNC_RUN_HEADER = "x-x402-async-run";
+const ASYNC_TASK_TYPE = "x402_async_job";
+const ASYNC_TASK_PRIORITY = 5;
+const ASYNC_EXECUTION_TIMEOUT_MS = 10 * 60 * 1000;
+const RESULT_RETENTION_MS = Number(process.env.X402_ASYNC_RETENTION_MS) || 24 * 60 * 60 * 1000;
+const POLL_INTERVAL_SECONDS = 5;
+
+// A paid call accepted with 202. The job replays the original request against
+// this server once the orchestrator schedules it; the callbacks settle the
+// payment and ledger the same way a synchronous response would.
+export interface AsyncJob {
+  executionId: string;
+  agentId: string;
+  agentName: string;
+  url: string;
+  method: string;
+  body?: unknown;
+  onCompleted(output: string): Promise<void>;
+  onFailed(reason: string, output?: string): Promise<void>;
+}
+
+export type AsyncResult =
+  | { kind: "not_found" }
+  | { kind: "pending"; execution: AgentExecution; status: string }
+  | { kind: "completed"; execution: AgentExecution }
+  | { kind: "failed"; execution: AgentExecution }
+  | { kind: "expired"; execution: AgentExecution };
+
+// Job runs carry a per-process secret so only this server can replay a paid
+// request without presenting the payment again.
+const runToken = crypto.randomBytes(32).toString("hex");
+const jobs = new Map<string, AsyncJob>();
+const taskIds = new Map<string, string>();
+
+export function isAsyncRun(req: Request): boolean {
+  const header = req.headers[ASYNC_RUN_HEADER];
+  if (typeof header !== "string") return false;
+  const provided = Buffer.from(header);
+  const expected = Buffer.from(runToken);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+// Async mode is requested per call with `Prefer: respond-async` (RFC 7240).
+export function wantsAsyncResponse(req: Request): boolean {
+  const prefer = req.headers.prefer;
+  if (!prefer) return false;
+  return (Array.isArray(prefer) ? prefer.join(",") : prefer)
+    .split(",")
+    .some(preference => preference.split(";")[0].trim().toLowerCase() === "respond-async");
+}
+
+export function asyncResultPath(executionId: string): string {
+  return `/api/x402/executions/${executionId}/result`;
+}
+
+// Answers the paid request with 202 and where to collect the result. Returns
+// the body so it can be stored for idempotent replays.
+export function sendAccepted(res: Response, baseUrl: string, executionId: string): string {
+  const resultUrl = `${baseUrl}${asyncResultPath(executionId)}`;
+  const body = JSON.stringify({
+    executionId,
+    status: "queued",
+    resultUrl,
+    retentionSeconds: Math.floor(RESULT_RETENTION_MS / 1000)
+  });
+  res.setHeader("Preference-Applied", "respond-async");
+  res.setHeader("Location", resultUrl);
+  res.setHeader("Retry-After", String(POLL_INTERVAL_SECONDS));
+  res.status(202).type("application/json").send(body);
+  return body;
+}
+
+// Where the job replays the request: this server over loopback, on the port
+// the paid request arrived on.
+export function asyncJobTarget(req: Request): Pick<AsyncJob, "url" | "method" | "body"> {
+  return {
+    url: `http://127.0.0.1:${req.socket.localPort}${req.originalUrl}`,
+    method: req.method,
+    body: req.method === "GET" ? undefined : req.body
+  };
+}
+
+async function runJob(task: { payload: Record<string, any> }): Promise<{ statusCode?: number }> {
+  const executionId = task.payload.executionId as string;
+  const job = jobs.get(executionId);
+  if (!job) throw new Error(`No async job for execution ${executionId}`);
+
+  let statusCode: number | undefined;
+  let output: string | undefined;
+  let error: string | undefined;
+  try {
+    const response = await fetch(job.url, {
+      method: job.method,
+      headers: {
+        [ASYNC_RUN_HEADER]: runToken,
+        ...(job.body !== undefined && { "Content-Type": "application/json" })
+      },
+      body: job.body !== undefined && job.method !== "GET" ? JSON.stringify(job.body) : undefined,
+      signal: AbortSignal.timeout(ASYNC_EXECUTION_TIMEOUT_MS)
+    });
+    statusCode = response.status;
+    output = await response.text();
+    if (!response.ok) error = `Handler responded with ${response.status}`;
+  } catch (e: any) {
+    error = e.message || "Async job failed";
+  } finally {
+    jobs.delete(executionId);
+    taskIds.delete(executionId);
+  }
+
+  try {
+    if (error) await job.onFailed(error, output);
+    else await job.onCompleted(output ?? "");
+  } catch (e) {
+    console.error(`Failed to record async execution ${executionId}:`, e);
+  }
+
+  if (error) throw new Error(error);
+  return { statusCode };
+}
+
+registerTaskHandler(ASYNC_TASK_TYPE, runJob);
+
+// Queues the job on the agent orchestrator, so paid async calls share its
+// concurrency limits. Each paid agent runs as one orchestrator agent.
+export function enqueueAsyncJob(job: AsyncJob): void {
+  if (!getAgent(job.agentId)) {
+    registerAgent(job.agentId, job.agentName, "x402");
+  }
+  jobs.set(job.executionId, job);
+  const task = submitTask(job.agentId, ASYNC_TASK_TYPE, { executionId: job.executionId }, ASYNC_TASK_PRIORITY, ASYNC_EXECUTION_TIMEOUT_MS);
+  if (jobs.has(job.executionId)) taskIds.set(job.executionId, task.id);
+}
+
+// Looks up an async call's outcome. Results stay available for the retention
+// window after the job finishes; the payment covers every retrieval in it.
+export async function getAsyncResult(executionId: string, now: number = Date.now()): Promise<AsyncResult> {
+  const execution = await storage.getAgentExecution(executionId);
+  if (!execution || execution.taskType !== X402_LEDGER_CONFIG.asyncTaskType) {
+    return { kind: "not_found" };
+  }
+
+  if (execution.status === AGENT_EXECUTION_STATUS.PENDING || execution.status === AGENT_EXECUTION_STATUS.RUNNING) {
+    const taskId = taskIds.get(executionId);
+    const task = taskId ? getTask(taskId) : undefined;
+    return { kind: "pending", execution, status: task?.status === "running" ? "running" : "queued" };
+  }
+
+  const finishedAt = execution.completedAt ?? execution.createdAt;
+  if (finishedAt && now - finishedAt.getTime() > RESULT_RETENTION_MS) {
+    return { kind: "expired", execution };
+  }
+  return execution.status === AGENT_EXECUTION_STATUS.COMPLETED
+    ? { kind: "completed", execution }
+    : { kind: "failed", execution };
+}
+
+export const X402_ASYNC_CONFIG = {
+  executionTimeout: ASYNC_EXECUTION_TIMEOUT_MS,
+  resultRetention: RESULT_RETENTION_MS,
+  pollInterval: POLL_INTERVAL_SECONDS,
+  taskType: ASYNC_TASK_TYPE,
+};
@@ -0,0 +1,193 @@
+import { storage } from "../storage";
+import { X402_BATCH_STATUS, X402_BATCH_PAYMENT_STATUS, type X402PaymentBatch } from "@shared/schema";
+import {
+  createBatch,
+  getBatch,
+  getPaymentStatus,
+  markPaymentCompleted,
+  markPaymentFailed,
+  clearCompletedPayments,
+  X402_QUEUE_CONFIG,
+  type PaymentBatch,
+  type PaymentKind,
+  type QueuedPayment
+} from "./x402-queue";
+import { createTransferBackend, defaultTransferAsset, UnconfirmedTransferError, type TransferBackend } from "./x402-transfer";
+
+// Hooks for the subsystem that owns a kind of outbound payment. prepare runs
+// before each attempt and returns false to drop a payment that should no
+// longer be sent; the other hooks mirror the outcome back onto its records.
+// onFailed sees payment.pendingTransaction set when the funds may have moved.
+export interface OutboundPaymentHandler {
+  prepare?(payment: QueuedPayment, attempt: number): Promise<boolean>;
+  onCompleted(payment: QueuedPayment, transaction: string): Promise<void>;
+  onFailed(payment: QueuedPayment, errorMessage: string, exhausted: boolean): Promise<void>;
+}
+
+const handlers = new Map<PaymentKind, OutboundPaymentHandler>();
+let backend: TransferBackend = createTransferBackend();
+
+export function registerPaymentHandler(kind: PaymentKind, handler: OutboundPaymentHandler): void {
+  handlers.set(kind, handler);
+}
+
+export function setTransferBackend(next: TransferBackend): void {
+  backend = next;
+}
+
+export function getTransferBackend(): TransferBackend {
+  return backend;
+}
+
+async function runHook(payment: QueuedPayment, hook: string, run: () => Promise<void>): Promise<void> {
+  try {
+    await run();
+  } catch (e) {
+    console.error(`Payment ${payment.id} ${hook} hook failed:`, e);
+  }
+}
+
+async function executePayment(batchId: string, payment: QueuedPayment): Promise<void> {
+  const handler = handlers.get(payment.kind);
+  const attempt = payment.retryCount + 1;
+  const asset = payment.asset || defaultTransferAsset();
+  const record = {
+    batchId,
+    paymentId: payment.id,
+    kind: payment.kind,
+    referenceId: payment.referenceId || null,
+    walletAddress: payment.walletAddress,
+    agentId: payment.agentId,
+    amount: payment.amount,
+    asset,
+    attempt
+  };
+
+  let transaction: string | undefined;
+  try {
+    if (handler?.prepare && !(await handler.prepare(payment, attempt))) {
+      markPaymentFailed(payment.id, "Payment is no longer valid", false);
+      await runHook(payment, "record", async () => {
+        await storage.recordBatchPayment({ ...record, status: X402_BATCH_PAYMENT_STATUS.FAILED, errorMessage: "Payment is no longer valid" });
+      });
+      return;
+    }
+
+    // An earlier attempt that timed out may still land, so it is only sent
+    // again once the cluster has rejected it.
+    if (payment.pendingTransaction) {
+      const state = await backend.checkTransfer(payment.pendingTransaction);
+      if (state === "confirmed") {
+        transaction = payment.pendingTransaction;
+      } else if (state === "unknown") {
+        throw new UnconfirmedTransferError(payment.pendingTransaction);
+      } else {
+        payment.pendingTransaction = undefined;
+      }
+    }
+
+    transaction ??= await backend.transfer({
+      paymentId: payment.id,
+      walletAddress: payment.walletAddress,
+      amount: payment.amount,
+      asset
+    });
+  } catch (e: any) {
+    if (e instanceof UnconfirmedTransferError) {
+      payment.pendingTransaction = e.signature;
+    }
+    const errorMessage = e.message || "Transfer failed";
+    markPaymentFailed(payment.id, errorMessage);
+    const exhausted = getPaymentStatus(payment.id)?.status === "failed";
+    const failedStatus = payment.pendingTransaction ? X402_BATCH_PAYMENT_STATUS.UNCONFIRMED : X402_BATCH_PAYMENT_STATUS.FAILED;
+
+    await runHook(payment, "record", async () => {
+      await storage.recordBatchPayment({
+        ...record,
+        status: exhausted ? failedStatus : X402_BATCH_PAYMENT_STATUS.RETRYING,
+        transaction: payment.pendingTransaction || null,
+        errorMessage
+      });
+    });
+    console.error(`Payment ${payment.id} attempt ${attempt} failed:`, errorMessage);
+    if (handler) await runHook(payment, "onFailed", () => handler.onFailed(payment, errorMessage, exhausted));
+    return;
+  }
+
+  // The funds have moved, so nothing below may put the payment back on the queue.
+  markPaymentCompleted(payment.id);
+  await runHook(payment, "record", async () => {
+    await storage.recordBatchPayment({ ...record, status: X402_BATCH_PAYMENT_STATUS.COMPLETED, transaction });
+  });
+  if (handler) await runHook(payment, "onCompleted", () => handler.onCompleted(payment, transaction));
+}
+
+function toBatchRecord(batch: PaymentBatch): Partial<X402PaymentBatch> {
+  return {
+    status: batch.processedAt ? batch.status : X402_BATCH_STATUS.PROCESSING,
+    successCount: batch.successCount,
+    failureCount: batch.failureCount,
+    retryCount: batch.retryCount,
+    processedAt: batch.processedAt ? new Date(batch.processedAt) : null
+  };
+}
+
+// Drains up to one batch from the queue and sends its payments one by one.
+export async function processNextBatch(): Promise<X402PaymentBatch | undefined> {
+  const batch = createBatch();
+  if (!batch) return undefined;
+
+  try {
+    await storage.createPaymentBatch({
+      id: batch.id,
+      status: X402_BATCH_STATUS.PROCESSING,
+      backend: backend.kind,
+      paymentCount: batch.payments.length,
+      totalAmount: batch.totalAmount
+    });
+  } catch (e) {
+    // Nothing was sent, so hand the payments back for a later batch.
+    for (const paymentId of batch.payments) markPaymentFailed(paymentId, "Failed to persist payment batch");
+    throw e;
+  }
+
+  for (const paymentId of batch.payments) {
+    const payment = getPaymentStatus(paymentId);
+    if (payment) await executePayment(batch.id, payment);
+  }
+
+  const finished = getBatch(batch.id) || batch;
+  const persisted = await storage.updatePaymentBatch(batch.id, toBatchRecord(finished));
+  clearCompletedPayments();
+  console.log(`Payment batch ${batch.id} ${finished.status}: ${finished.successCount} sent, ${finished.retryCount} retrying, ${finished.failureCount} failed`);
+  return persisted;
+}
+
+let processorStarted = false;
+
+export function startBatchProcessor(): void {
+  if (processorStarted) return;
+  processorStarted = true;
+
+  // Batches left mid-flight by a restart cannot be resumed safely, since a
+  // transfer may already have landed; flag them for manual review.
+  storage.markInterruptedPaymentBatches()
+    .then(count => { if (count > 0) console.warn(`Marked ${count} payment batches as interrupted`); })
+    .catch(e => console.error("Failed to mark interrupted payment batches:", e));
+
+  let processing = false;
+  setInterval(() => {
+    if (processing) return;
+    processing = true;
+    processNextBatch()
+      .catch(e => console.error("Payment batch processing failed:", e))
+      .finally(() => { processing = false; });
+  }, X402_QUEUE_CONFIG.batchInterval);
+}
+
+export const X402_BATCH_PROCESSOR_CONFIG = {
+  interval: X402_QUEUE_CONFIG.batchInterval,
+  batchSize: X402_QUEUE_CONFIG.batchSize,
+  maxRetries: X402_QUEUE_CONFIG.maxRetries,
+  retryDelay: X402_QUEUE_CONFIG.retryDelay,
+};
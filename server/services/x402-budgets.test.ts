@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import type { X402WalletSpend } from "@shared/schema";
+import { checkBudget, getBudgetStatus } from "./x402-budgets";
+
+const wallet = "9THBvaG9FVaZKSMyiyxjfA2gC3EAstH2ibJsqpTANqEW";
+
+function stubBudget(limits: { daily?: number; monthly?: number; perCall?: number; agents?: Record<string, number> } | undefined, spend: X402WalletSpend[] = []) {
+  Object.assign(storage, {
+    getWalletBudget: async () => limits && {
+      walletAddress: wallet,
+      dailyLimitUsd: limits.daily ?? null,
+      monthlyLimitUsd: limits.monthly ?? null,
+      perCallLimitUsd: limits.perCall ?? null,
+      agentLimits: limits.agents ? JSON.stringify(limits.agents) : null,
+      updatedAt: null
+    },
+    getX402WalletSpend: async () => spend
+  });
+}
+
+test("wallets without a budget are never limited", async () => {
+  stubBudget(undefined);
+  assert.deepEqual(await checkBudget(wallet, "x402-liquidity", 1000), { allowed: true });
+});
+
+test("a call above the per-call limit is refused", async () => {
+  stubBudget({ perCall: 0.5 });
+  const check = await checkBudget(wallet, "x402-liquidity", 0.51);
+  assert.equal(check.allowed, false);
+  assert.equal(check.limit, "per_call");
+});
+
+test("the daily limit counts today's spend and reports what is left", async () => {
+  stubBudget({ daily: 1 }, [{ agentId: "x402-liquidity", spentUsd: 0.7 }, { agentId: "x402-entry", spentUsd: 0.2 }]);
+  assert.equal((await checkBudget(wallet, "x402-liquidity", 0.1)).allowed, true);
+
+  const check = await checkBudget(wallet, "x402-liquidity", 0.11);
+  assert.equal(check.allowed, false);
+  assert.equal(check.limit, "daily");
+  assert.equal(check.remainingUSD, 0.1);
+});
+
+test("an agent limit only counts spend on that agent", async () => {
+  stubBudget({ agents: { "x402-liquidity": 0.5 } }, [{ agentId: "x402-liquidity", spentUsd: 0.4 }, { agentId: "x402-entry", spentUsd: 5 }]);
+  assert.equal((await checkBudget(wallet, "x402-entry", 1)).allowed, true);
+  assert.equal((await checkBudget(wallet, "x402-liquidity", 0.2)).limit, "agent");
+});
+
+test("credit top-ups are not spend, so credit-paid calls are counted once", async () => {
+  stubBudget({ daily: 1 }, [{ agentId: "x402-credits", spentUsd: 10 }, { agentId: "x402-liquidity", spentUsd: 0.5 }]);
+  assert.equal((await checkBudget(wallet, "x402-liquidity", 0.5)).allowed, true);
+  assert.equal((await checkBudget(wallet, "x402-credits", 10)).allowed, true);
+
+  const status = await getBudgetStatus(wallet);
+  assert.equal(status.spent.todayUSD, 0.5);
+  assert.deepEqual(status.spent.agentsTodayUSD, { "x402-liquidity": 0.5 });
+});
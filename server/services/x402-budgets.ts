@@ -0,0 +1,223 @@
+import { storage } from "../storage";
+import { X402_PAYMENT_STATUS } from "@shared/x402";
+import type { X402WalletBudget, X402WalletBudgetUpdate, X402WalletSpend } from "@shared/schema";
+import { usdToMicroUsd, microUsdToUsd, CREDITS_AGENT_ID } from "./x402-credits";
+import { getWalletUsageStats, type WalletUsageStats } from "./x402-ratelimit";
+
+// Payments that have left (or are about to leave) the wallet. Failed, expired
+// and refunded payments give their budget back.
+const SPENT_STATUSES: string[] = [
+  X402_PAYMENT_STATUS.VERIFIED,
+  X402_PAYMENT_STATUS.SETTLING,
+  X402_PAYMENT_STATUS.SETTLED,
+  X402_PAYMENT_STATUS.CONSUMED
+];
+
+export type BudgetLimit = "per_call" | "daily" | "monthly" | "agent";
+
+export interface WalletBudget {
+  walletAddress: string;
+  dailyLimitUSD: number | null;
+  monthlyLimitUSD: number | null;
+  perCallLimitUSD: number | null;
+  // Daily cap per agent id.
+  agentLimits: Record<string, number>;
+  updatedAt: Date | null;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  error?: string;
+  limit?: BudgetLimit;
+  limitUSD?: number;
+  remainingUSD?: number;
+}
+
+export interface BudgetStatus {
+  walletAddress: string;
+  budget: WalletBudget | null;
+  spent: {
+    todayUSD: number;
+    monthUSD: number;
+    agentsTodayUSD: Record<string, number>;
+  };
+  remaining: {
+    dailyUSD: number | null;
+    monthlyUSD: number | null;
+    agentsUSD: Record<string, number>;
+  };
+  resetsAt: {
+    daily: string;
+    monthly: string;
+  };
+  usage: WalletUsageStats | null;
+}
+
+// Budgets run on UTC calendar days and months.
+function budgetWindows(now: number): { dayStart: Date; monthStart: Date; dayEnd: Date; monthEnd: Date } {
+  const date = new Date(now);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  return {
+    dayStart: new Date(Date.UTC(year, month, day)),
+    dayEnd: new Date(Date.UTC(year, month, day + 1)),
+    monthStart: new Date(Date.UTC(year, month, 1)),
+    monthEnd: new Date(Date.UTC(year, month + 1, 1))
+  };
+}
+
+function parseAgentLimits(json: string | null): Record<string, number> {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+function toBudget(row: X402WalletBudget): WalletBudget {
+  return {
+    walletAddress: row.walletAddress,
+    dailyLimitUSD: row.dailyLimitUsd,
+    monthlyLimitUSD: row.monthlyLimitUsd,
+    perCallLimitUSD: row.perCallLimitUsd,
+    agentLimits: parseAgentLimits(row.agentLimits),
+    updatedAt: row.updatedAt
+  };
+}
+
+// A credit top-up only moves money into the wallet's prepaid balance; the
+// calls paid from that balance are what count as spend, so nothing is
+// counted twice.
+function countsAsSpend(row: X402WalletSpend): boolean {
+  return row.agentId !== CREDITS_AGENT_ID;
+}
+
+// Sums in micro-USD so many small payments add up exactly.
+function sumSpend(rows: X402WalletSpend[], agentId?: string): number {
+  const micro = rows
+    .filter(row => countsAsSpend(row) && (agentId === undefined || row.agentId === agentId))
+    .reduce((total, row) => total + usdToMicroUsd(row.spentUsd), 0);
+  return microUsdToUsd(micro);
+}
+
+function remaining(limitUSD: number, spentUSD: number): number {
+  return Math.max(0, microUsdToUsd(usdToMicroUsd(limitUSD) - usdToMicroUsd(spentUSD)));
+}
+
+function exceeds(spentUSD: number, priceUSD: number, limitUSD: number): boolean {
+  return usdToMicroUsd(spentUSD) + usdToMicroUsd(priceUSD) > usdToMicroUsd(limitUSD);
+}
+
+export async function getWalletBudget(walletAddress: string): Promise<WalletBudget | null> {
+  const row = await storage.getWalletBudget(walletAddress);
+  return row ? toBudget(row) : null;
+}
+
+// Checks a payment against the payer's budget before it is verified. Wallets
+// without a budget are never limited, and neither are top-ups, which are not
+// spend until the credits are used.
+export async function checkBudget(
+  walletAddress: string,
+  agentId: string,
+  priceUSD: number,
+  now: number = Date.now()
+): Promise<BudgetCheck> {
+  if (agentId === CREDITS_AGENT_ID) return { allowed: true };
+  const budget = await getWalletBudget(walletAddress);
+  if (!budget) return { allowed: true };
+
+  if (budget.perCallLimitUSD !== null && exceeds(0, priceUSD, budget.perCallLimitUSD)) {
+    return {
+      allowed: false,
+      error: `Payment of $${priceUSD} exceeds the per-call budget of $${budget.perCallLimitUSD}`,
+      limit: "per_call",
+      limitUSD: budget.perCallLimitUSD,
+      remainingUSD: budget.perCallLimitUSD
+    };
+  }
+
+  const agentLimit = budget.agentLimits[agentId];
+  if (budget.dailyLimitUSD === null && budget.monthlyLimitUSD === null && agentLimit === undefined) {
+    return { allowed: true };
+  }
+
+  const { dayStart, monthStart } = budgetWindows(now);
+  const [today, month] = await Promise.all([
+    storage.getX402WalletSpend(walletAddress, SPENT_STATUSES, dayStart),
+    budget.monthlyLimitUSD !== null ? storage.getX402WalletSpend(walletAddress, SPENT_STATUSES, monthStart) : Promise.resolve([])
+  ]);
+
+  const checks: { limit: BudgetLimit; label: string; limitUSD: number | null | undefined; spentUSD: number }[] = [
+    { limit: "agent", label: `daily budget for ${agentId}`, limitUSD: agentLimit, spentUSD: sumSpend(today, agentId) },
+    { limit: "daily", label: "daily budget", limitUSD: budget.dailyLimitUSD, spentUSD: sumSpend(today) },
+    { limit: "monthly", label: "monthly budget", limitUSD: budget.monthlyLimitUSD, spentUSD: sumSpend(month) }
+  ];
+  for (const { limit, label, limitUSD, spentUSD } of checks) {
+    if (limitUSD === null || limitUSD === undefined || !exceeds(spentUSD, priceUSD, limitUSD)) continue;
+    const left = remaining(limitUSD, spentUSD);
+    return {
+      allowed: false,
+      error: `Payment of $${priceUSD} would exceed the ${label} of $${limitUSD} ($${left} left)`,
+      limit,
+      limitUSD,
+      remainingUSD: left
+    };
+  }
+  return { allowed: true };
+}
+
+export async function getBudgetStatus(walletAddress: string, now: number = Date.now()): Promise<BudgetStatus> {
+  const { dayStart, monthStart, dayEnd, monthEnd } = budgetWindows(now);
+  const [budget, today, month] = await Promise.all([
+    getWalletBudget(walletAddress),
+    storage.getX402WalletSpend(walletAddress, SPENT_STATUSES, dayStart),
+    storage.getX402WalletSpend(walletAddress, SPENT_STATUSES, monthStart)
+  ]);
+
+  const todayUSD = sumSpend(today);
+  const monthUSD = sumSpend(month);
+  const agentsTodayUSD: Record<string, number> = {};
+  for (const row of today.filter(countsAsSpend)) {
+    agentsTodayUSD[row.agentId] = sumSpend([row]);
+  }
+  const agentsUSD: Record<string, number> = {};
+  for (const [agentId, limitUSD] of Object.entries(budget?.agentLimits || {})) {
+    agentsUSD[agentId] = remaining(limitUSD, agentsTodayUSD[agentId] ?? 0);
+  }
+
+  return {
+    walletAddress,
+    budget,
+    spent: { todayUSD, monthUSD, agentsTodayUSD },
+    remaining: {
+      dailyUSD: budget?.dailyLimitUSD != null ? remaining(budget.dailyLimitUSD, todayUSD) : null,
+      monthlyUSD: budget?.monthlyLimitUSD != null ? remaining(budget.monthlyLimitUSD, monthUSD) : null,
+      agentsUSD
+    },
+    resetsAt: { daily: dayEnd.toISOString(), monthly: monthEnd.toISOString() },
+    usage: getWalletUsageStats(walletAddress)
+  };
+}
+
+// Applies a partial update. Omitted fields keep their value, null clears a
+// limit, and a null agent limit removes that agent's cap.
+export async function updateWalletBudget(walletAddress: string, update: X402WalletBudgetUpdate): Promise<WalletBudget> {
+  const current = await getWalletBudget(walletAddress);
+
+  const agentLimits = { ...current?.agentLimits };
+  for (const [agentId, limitUSD] of Object.entries(update.agentLimits || {})) {
+    if (limitUSD === null) delete agentLimits[agentId];
+    else agentLimits[agentId] = limitUSD;
+  }
+
+  const saved = await storage.saveWalletBudget({
+    walletAddress,
+    dailyLimitUsd: update.dailyLimitUSD !== undefined ? update.dailyLimitUSD : current?.dailyLimitUSD ?? null,
+    monthlyLimitUsd: update.monthlyLimitUSD !== undefined ? update.monthlyLimitUSD : current?.monthlyLimitUSD ?? null,
+    perCallLimitUsd: update.perCallLimitUSD !== undefined ? update.perCallLimitUSD : current?.perCallLimitUSD ?? null,
+    agentLimits: Object.keys(agentLimits).length > 0 ? JSON.stringify(agentLimits) : null
+  });
+  return toBudget(saved);
+}
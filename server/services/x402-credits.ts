@@ -0,0 +1,182 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import type { X402CreditBalance, X402CreditDebit, X402CreditTopUp } from "@shared/schema";
+import { createSession, revokeSession, validateSession } from "./x402-session";
+
+// Top-ups are recorded as payments to this agent.
+export const CREDITS_AGENT_ID = "x402-credits";
+const SESSION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const TOKEN_VERSION = "v1";
+
+export interface CreditSessionToken {
+  token: string;
+  sessionId: string;
+  walletAddress: string;
+  expiresAt: Date;
+}
+
+export interface CreditAccount {
+  walletAddress: string;
+  balanceUSD: number;
+  totalToppedUpUSD: number;
+  totalSpentUSD: number;
+  updatedAt: Date | null;
+}
+
+interface TokenClaims {
+  sid: string;
+  wallet: string;
+  exp: number;
+}
+
+function resolveSessionSecret(): string {
+  if (process.env.X402_SESSION_SECRET) return process.env.X402_SESSION_SECRET;
+  console.warn("X402_SESSION_SECRET is not set; credit session tokens will not survive a restart");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+const sessionSecret = resolveSessionSecret();
+
+export function usdToMicroUsd(usd: number): number {
+  return Math.round(usd * 1_000_000);
+}
+
+export function microUsdToUsd(microUsd: number): number {
+  return microUsd / 1_000_000;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac("sha256", sessionSecret).update(payload).digest("base64url");
+}
+
+// Tokens are `v1.<base64url claims>.<base64url hmac>`. The claims name a
+// persisted x402-session, so a token stops working as soon as its session does.
+export async function openCreditSession(walletAddress: string, transactionSignature?: string): Promise<CreditSessionToken> {
+  const expiresAt = new Date(Date.now() + SESSION_TOKEN_TTL_MS);
+  const session = await createSession({
+    walletAddress,
+    agentId: CREDITS_AGENT_ID,
+    resource: "/api/x402/credits",
+    transactionSignature,
+    expiresAt
+  });
+
+  const claims: TokenClaims = { sid: session.id, wallet: walletAddress, exp: expiresAt.getTime() };
+  const payload = `${TOKEN_VERSION}.${Buffer.from(JSON.stringify(claims)).toString("base64url")}`;
+
+  return {
+    token: `${payload}.${sign(payload)}`,
+    sessionId: session.id,
+    walletAddress,
+    expiresAt
+  };
+}
+
+export async function authenticateCreditSession(token: string): Promise<{ walletAddress?: string; sessionId?: string; error?: string }> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) {
+    return { error: "Malformed session token" };
+  }
+
+  const payload = `${parts[0]}.${parts[1]}`;
+  const expected = Buffer.from(sign(payload));
+  const provided = Buffer.from(parts[2]);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return { error: "Invalid session token signature" };
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+  } catch {
+    return { error: "Malformed session token" };
+  }
+
+  if (Date.now() > claims.exp) {
+    return { error: "Session token expired" };
+  }
+
+  const validation = await validateSession(claims.sid);
+  if (!validation.valid || validation.session?.walletAddress !== claims.wallet) {
+    return { error: validation.reason || "Session is no longer valid" };
+  }
+
+  return { walletAddress: claims.wallet, sessionId: claims.sid };
+}
+
+export function revokeCreditSession(sessionId: string): Promise<boolean> {
+  return revokeSession(sessionId);
+}
+
+function toAccount(balance: X402CreditBalance): CreditAccount {
+  return {
+    walletAddress: balance.walletAddress,
+    balanceUSD: microUsdToUsd(balance.balanceMicroUsd),
+    totalToppedUpUSD: microUsdToUsd(balance.totalToppedUpMicroUsd),
+    totalSpentUSD: microUsdToUsd(balance.totalSpentMicroUsd),
+    updatedAt: balance.updatedAt
+  };
+}
+
+export async function getCreditAccount(walletAddress: string): Promise<CreditAccount | undefined> {
+  const balance = await storage.getCreditBalance(walletAddress);
+  return balance ? toAccount(balance) : undefined;
+}
+
+// Credits a settled top-up payment. Returns undefined when the transaction was
+// already credited, so a replayed settlement cannot top up twice.
+export async function topUpCredits(
+  walletAddress: string,
+  amountUSD: number,
+  transactionSignature: string,
+  executionId?: string
+): Promise<{ topUp: X402CreditTopUp; account: CreditAccount } | undefined> {
+  const result = await storage.recordCreditTopUp({
+    walletAddress,
+    amountMicroUsd: usdToMicroUsd(amountUSD),
+    transactionSignature,
+    executionId: executionId || null
+  });
+  if (!result) return undefined;
+  return { topUp: result.topUp, account: toAccount(result.balance) };
+}
+
+// Holds the call price against the balance before the agent runs. Returns
+// undefined when the balance cannot cover it.
+export async function reserveCredits(
+  walletAddress: string,
+  agentId: string,
+  amountUSD: number,
+  quoteId?: string
+): Promise<{ debit: X402CreditDebit; account: CreditAccount } | undefined> {
+  const result = await storage.reserveCreditDebit({
+    walletAddress,
+    agentId,
+    amountMicroUsd: usdToMicroUsd(amountUSD),
+    quoteId: quoteId || null,
+    status: "reserved"
+  });
+  if (!result) return undefined;
+  return { debit: result.debit, account: toAccount(result.balance) };
+}
+
+export async function settleCredits(debit: X402CreditDebit, executionId?: string): Promise<void> {
+  await storage.settleCreditDebit(debit.id, executionId);
+}
+
+export async function releaseCredits(debit: X402CreditDebit, reason: string): Promise<void> {
+  await storage.reverseCreditDebit(debit.id, reason);
+}
+
+export async function getCreditTopUps(walletAddress: string, limit?: number): Promise<X402CreditTopUp[]> {
+  return storage.getCreditTopUps(walletAddress, limit);
+}
+
+export async function getCreditDebits(walletAddress: string, limit?: number): Promise<X402CreditDebit[]> {
+  return storage.getCreditDebits(walletAddress, limit);
+}
+
+export const X402_CREDITS_CONFIG = {
+  agentId: CREDITS_AGENT_ID,
+  sessionTokenTtl: SESSION_TOKEN_TTL_MS,
+};
@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import { X402_AGENT_STATUS } from "@shared/schema";
+import { PAYMENT_RECEIVER } from "./x402";
+import { getListedAgents, type RegistryEntry } from "./x402-registry";
+import { getAgentHealth } from "./x402-health";
+import { quotePrice, getX402Network } from "./x402-assets";
+
+const X402_VERSION = 1;
+export const X402_DISCOVERY_PATH = "/.well-known/x402";
+const MANIFEST_MAX_AGE_SECONDS = 60;
+
+export interface DiscoveryManifest {
+  body: string;
+  etag: string;
+}
+
+function describeAgent(entry: RegistryEntry, baseUrl: string): object {
+  const { config, registration, metadata } = entry;
+  const health = getAgentHealth(config.id);
+
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.description,
+    version: registration.version,
+    resource: `${baseUrl}${config.resource}`,
+    method: config.method,
+    priceUSD: config.priceUSD,
+    ...(config.pricing && { pricing: config.pricing }),
+    accepts: quotePrice(config.priceUSD).map(quote => ({
+      scheme: "exact",
+      network: getX402Network(),
+      asset: quote.asset.address,
+      symbol: quote.asset.symbol,
+      decimals: quote.asset.decimals,
+      maxAmountRequired: quote.amount,
+      payTo: PAYMENT_RECEIVER
+    })),
+    inputSchema: config.inputSchema ?? null,
+    outputSchema: config.outputSchema ?? null,
+    category: metadata.category,
+    tags: metadata.tags,
+    documentation: metadata.documentation ?? null,
+    health: {
+      healthy: health.healthy,
+      successRate: health.successRate,
+      avgLatencyMs: health.avgLatencyMs,
+      lastCheck: health.lastCheck
+    }
+  };
+}
+
+// The document served at /.well-known/x402. It carries no generation time, so
+// the ETag only changes when an agent, its price or its health changes.
+export function buildDiscoveryManifest(baseUrl: string): DiscoveryManifest {
+  const agents = getListedAgents()
+    .filter(entry => entry.registration.status === X402_AGENT_STATUS.ACTIVE)
+    .map(entry => describeAgent(entry, baseUrl));
+
+  const body = JSON.stringify({
+    x402Version: X402_VERSION,
+    platform: "MODEXO",
+    network: getX402Network(),
+    payTo: PAYMENT_RECEIVER,
+    endpoints: {
+      agents: `${baseUrl}/api/x402/agents`,
+      supported: `${baseUrl}/api/x402/supported`,
+      credits: `${baseUrl}/api/x402/credits/topup`
+    },
+    agents
+  });
+
+  const etag = `"${crypto.createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+  return { body, etag };
+}
+
+// Whether an If-None-Match header matches the current ETag. Weak comparison
+// applies, as RFC 9110 requires for If-None-Match.
+export function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const current = etag.replace(/^W\//, "");
+  return ifNoneMatch.split(",").some(candidate => {
+    const tag = candidate.trim();
+    return tag === "*" || tag.replace(/^W\//, "") === current;
+  });
+}
+
+export const X402_DISCOVERY_CONFIG = {
+  path: X402_DISCOVERY_PATH,
+  maxAge: MANIFEST_MAX_AGE_SECONDS,
+};
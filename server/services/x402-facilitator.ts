@@ -0,0 +1,291 @@
+import crypto from "crypto";
+import type { X402PaymentRequirements, X402SettlementReceipt } from "@shared/x402";
+import { SelfHostedFacilitator } from "./x402-svm-facilitator";
+
+const DEFAULT_FACILITATOR_URL = "https://facilitator.payai.network";
+const X402_VERSION = 1;
+const MAX_LEDGER_SIZE = 10000;
+
+export type FacilitatorKind = "remote" | "local" | "self-hosted";
+
+export type PaymentRequirements = X402PaymentRequirements;
+
+export interface VerifyResult {
+  valid: boolean;
+  payer?: string;
+  error?: string;
+}
+
+export type SettlementReceipt = X402SettlementReceipt;
+
+// A pending result means the transaction was sent but not seen to land in
+// time; receipt.transaction names it so checkSettlement can follow it up.
+export interface SettleResult {
+  success: boolean;
+  pending?: boolean;
+  receipt?: SettlementReceipt;
+  error?: string;
+}
+
+export type SettlementState = "settled" | "failed" | "pending";
+
+export interface SupportedKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  extra?: Record<string, any>;
+}
+
+export interface Facilitator {
+  readonly kind: FacilitatorKind;
+  verify(paymentPayload: any, requirements: PaymentRequirements): Promise<VerifyResult>;
+  settle(paymentPayload: any, requirements: PaymentRequirements): Promise<SettleResult>;
+  supported(): Promise<{ kinds: SupportedKind[] }>;
+  checkSettlement?(transaction: string): Promise<SettlementState>;
+}
+
+export class RemoteFacilitator implements Facilitator {
+  readonly kind = "remote" as const;
+  private url: string;
+
+  constructor(url: string = DEFAULT_FACILITATOR_URL) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  private async post(path: string, paymentPayload: any, requirements: PaymentRequirements): Promise<{ ok: boolean; status: number; result?: any; error?: string }> {
+    const response = await fetch(`${this.url}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paymentPayload, paymentRequirements: requirements })
+    });
+
+    const responseText = await response.text();
+
+    try {
+      return { ok: response.ok, status: response.status, result: JSON.parse(responseText) };
+    } catch {
+      return { ok: false, status: response.status, error: `Invalid facilitator response: ${responseText.substring(0, 200)}` };
+    }
+  }
+
+  async verify(paymentPayload: any, requirements: PaymentRequirements): Promise<VerifyResult> {
+    try {
+      const { ok, status, result, error } = await this.post("/verify", paymentPayload, requirements);
+      if (error) return { valid: false, error };
+
+      if (!ok) {
+        return { valid: false, error: result.error || result.message || `HTTP ${status}` };
+      }
+
+      if (result.isValid === false || result.valid === false || result.verified === false) {
+        return { valid: false, error: result.invalidReason || result.reason || result.message || "Payment verification failed" };
+      }
+
+      return { valid: true, payer: result.payer };
+    } catch (e: any) {
+      console.error("Facilitator verify error:", e);
+      return { valid: false, error: `Facilitator error: ${e.message}` };
+    }
+  }
+
+  async settle(paymentPayload: any, requirements: PaymentRequirements): Promise<SettleResult> {
+    try {
+      const { ok, status, result, error } = await this.post("/settle", paymentPayload, requirements);
+      if (error) return { success: false, error };
+
+      if (!ok) {
+        return { success: false, error: result.error || result.message || `HTTP ${status}` };
+      }
+
+      if (result.success === false) {
+        return { success: false, receipt: result, error: result.errorReason || result.error || "Payment settlement failed" };
+      }
+
+      return { success: true, receipt: result };
+    } catch (e: any) {
+      console.error("Facilitator settle error:", e);
+      return { success: false, error: `Settlement error: ${e.message}` };
+    }
+  }
+
+  async supported(): Promise<{ kinds: SupportedKind[] }> {
+    const response = await fetch(`${this.url}/supported`);
+    if (!response.ok) {
+      throw new Error(`Facilitator supported error: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+interface LedgerEntry {
+  id: string;
+  payer: string;
+  payTo: string;
+  asset: string;
+  network: string;
+  amount: string;
+  resource: string;
+  status: "verified" | "settled";
+  verifiedAt: Date;
+  settledAt?: Date;
+  transaction?: string;
+}
+
+// In-process facilitator for development and automated tests. It never touches
+// the network: payloads are checked against deterministic rules and every
+// verification/settlement is recorded in a local ledger keyed by transaction hash.
+//
+// Local payloads use the standard exact-scheme envelope. `payload.transaction`
+// must be non-empty base64; the optional `payer`, `amount`, `payTo` and `asset`
+// fields inside `payload` are checked against the requirements when present.
+export class LocalFacilitator implements Facilitator {
+  readonly kind = "local" as const;
+  private ledger = new Map<string, LedgerEntry>();
+  private networks: string[];
+
+  constructor(networks: string[] = ["solana", "solana-devnet"]) {
+    this.networks = networks;
+  }
+
+  private check(paymentPayload: any, requirements: PaymentRequirements): { error?: string; id?: string; payer?: string } {
+    if (!paymentPayload || typeof paymentPayload !== "object") {
+      return { error: "Payment payload must be an object" };
+    }
+    if (paymentPayload.x402Version !== X402_VERSION) {
+      return { error: `Unsupported x402Version: ${paymentPayload.x402Version}` };
+    }
+    if (paymentPayload.scheme !== requirements.scheme) {
+      return { error: `Scheme mismatch: expected ${requirements.scheme}` };
+    }
+    if (paymentPayload.network !== requirements.network || !this.networks.includes(paymentPayload.network)) {
+      return { error: `Network mismatch: expected ${requirements.network}` };
+    }
+
+    const inner = paymentPayload.payload || {};
+    const transaction = inner.transaction;
+    if (typeof transaction !== "string" || !/^[A-Za-z0-9+/]+={0,2}$/.test(transaction)) {
+      return { error: "Payload transaction must be a non-empty base64 string" };
+    }
+
+    if (inner.amount !== undefined) {
+      let amount: bigint;
+      try {
+        amount = BigInt(inner.amount);
+      } catch {
+        return { error: "Invalid payload amount" };
+      }
+      if (amount < BigInt(requirements.maxAmountRequired)) {
+        return { error: `Insufficient amount: required ${requirements.maxAmountRequired}, got ${inner.amount}` };
+      }
+    }
+    if (inner.payTo !== undefined && inner.payTo !== requirements.payTo) {
+      return { error: `Recipient mismatch: expected ${requirements.payTo}` };
+    }
+    if (inner.asset !== undefined && inner.asset !== requirements.asset) {
+      return { error: `Asset mismatch: expected ${requirements.asset}` };
+    }
+
+    const id = crypto.createHash("sha256").update(transaction).digest("hex");
+    if (this.ledger.get(id)?.status === "settled") {
+      return { error: "Transaction already settled" };
+    }
+
+    const payer = typeof inner.payer === "string" && inner.payer ? inner.payer : `local-${id.slice(0, 16)}`;
+    return { id, payer };
+  }
+
+  async verify(paymentPayload: any, requirements: PaymentRequirements): Promise<VerifyResult> {
+    const { error, id, payer } = this.check(paymentPayload, requirements);
+    if (error || !id || !payer) {
+      return { valid: false, error };
+    }
+
+    this.ledger.set(id, {
+      id,
+      payer,
+      payTo: requirements.payTo,
+      asset: requirements.asset,
+      network: requirements.network,
+      amount: requirements.maxAmountRequired,
+      resource: requirements.resource,
+      status: "verified",
+      verifiedAt: new Date()
+    });
+    this.trimLedger();
+
+    return { valid: true, payer };
+  }
+
+  async settle(paymentPayload: any, requirements: PaymentRequirements): Promise<SettleResult> {
+    const verification = await this.verify(paymentPayload, requirements);
+    if (!verification.valid) {
+      return { success: false, error: verification.error };
+    }
+
+    const id = crypto.createHash("sha256").update(paymentPayload.payload.transaction).digest("hex");
+    const entry = this.ledger.get(id)!;
+    entry.status = "settled";
+    entry.settledAt = new Date();
+    entry.transaction = `local_${id}`;
+
+    return {
+      success: true,
+      receipt: {
+        success: true,
+        transaction: entry.transaction,
+        network: entry.network,
+        payer: entry.payer
+      }
+    };
+  }
+
+  async supported(): Promise<{ kinds: SupportedKind[] }> {
+    return {
+      kinds: this.networks.map(network => ({ x402Version: X402_VERSION, scheme: "exact", network }))
+    };
+  }
+
+  getLedger(): LedgerEntry[] {
+    return Array.from(this.ledger.values());
+  }
+
+  clearLedger(): void {
+    this.ledger.clear();
+  }
+
+  private trimLedger(): void {
+    if (this.ledger.size <= MAX_LEDGER_SIZE) return;
+    const oldest = this.ledger.keys().next().value;
+    if (oldest !== undefined) this.ledger.delete(oldest);
+  }
+}
+
+export function createFacilitator(kind: FacilitatorKind, url?: string): Facilitator {
+  switch (kind) {
+    case "local": return new LocalFacilitator();
+    case "remote": return new RemoteFacilitator(url);
+    case "self-hosted": return new SelfHostedFacilitator();
+  }
+}
+
+function resolveFacilitatorKind(): FacilitatorKind {
+  const configured = (process.env.X402_FACILITATOR || "remote").toLowerCase();
+  if (configured !== "remote" && configured !== "local" && configured !== "self-hosted") {
+    console.warn(`Unknown X402_FACILITATOR "${configured}", falling back to remote`);
+    return "remote";
+  }
+  return configured;
+}
+
+let activeFacilitator: Facilitator = createFacilitator(
+  resolveFacilitatorKind(),
+  process.env.X402_FACILITATOR_URL || DEFAULT_FACILITATOR_URL
+);
+
+export function getFacilitator(): Facilitator {
+  return activeFacilitator;
+}
+
+export function setFacilitator(facilitator: Facilitator): void {
+  activeFacilitator = facilitator;
+}
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { storage } from "../storage";
+import { X402_AGENT_STATUS } from "@shared/schema";
+import { MODEXO_AGENTS } from "./x402";
+import { getListedAgents, getAgent, updateAgentStatus, updateHealthCheck, type RegistryEntry } from "./x402-registry";
+
+const PROBE_INTERVAL_MS = Number(process.env.X402_HEALTH_INTERVAL_MS) || 60000;
+const PROBE_TIMEOUT_MS = 15000;
+const FAILURE_THRESHOLD = 3;
+const RECOVERY_THRESHOLD = 2;
+const HISTORY_WINDOW = 20;
+const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PROBE_HEADER = "x-health-probe";
+
+export interface AgentHealth {
+  healthy: boolean | null;
+  lastCheck: Date | null;
+  latencyMs: number | null;
+  avgLatencyMs: number | null;
+  successRate: number | null;
+  consecutiveFailures: number;
+  autoMaintenance: boolean;
+}
+
+interface ProbeState {
+  recent: Array<{ success: boolean; latencyMs: number }>;
+  lastCheck?: Date;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  // Set when the prober (not an admin) moved the agent into maintenance, so
+  // only those agents are brought back automatically once they recover.
+  autoMaintenance: boolean;
+}
+
+// Probes carry a per-process secret so only this server can skip payment.
+const probeToken = crypto.randomBytes(32).toString("hex");
+const probeStates = new Map<string, ProbeState>();
+
+export function isHealthProbe(req: Request): boolean {
+  const header = req.headers[PROBE_HEADER];
+  if (typeof header !== "string") return false;
+  const provided = Buffer.from(header);
+  const expected = Buffer.from(probeToken);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+function getState(agentId: string): ProbeState {
+  let state = probeStates.get(agentId);
+  if (!state) {
+    state = { recent: [], consecutiveFailures: 0, consecutiveSuccesses: 0, autoMaintenance: false };
+    probeStates.set(agentId, state);
+  }
+  return state;
+}
+
+function probeInputFor(entry: RegistryEntry) {
+  return entry.config.probe ?? MODEXO_AGENTS.find(agent => agent.id === entry.config.id)?.probe;
+}
+
+async function sendProbe(entry: RegistryEntry, baseUrl: string): Promise<{ success: boolean; statusCode?: number; latencyMs: number; error?: string }> {
+  const input = probeInputFor(entry)!;
+  const url = new URL(entry.config.resource, baseUrl);
+  for (const [key, value] of Object.entries(input.query || {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      method: entry.config.method,
+      headers: {
+        [PROBE_HEADER]: probeToken,
+        ...(input.body && { "Content-Type": "application/json" })
+      },
+      body: input.body && entry.config.method === "POST" ? JSON.stringify(input.body) : undefined,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+    });
+    await response.arrayBuffer();
+    const latencyMs = Date.now() - started;
+    return response.ok
+      ? { success: true, statusCode: response.status, latencyMs }
+      : { success: false, statusCode: response.status, latencyMs, error: `Handler responded with ${response.status}` };
+  } catch (error: any) {
+    return { success: false, latencyMs: Date.now() - started, error: error.message || "Probe failed" };
+  }
+}
+
+async function applyResult(agentId: string, success: boolean): Promise<void> {
+  const state = getState(agentId);
+  const status = getAgent(agentId)?.registration.status;
+
+  if (success) {
+    state.consecutiveFailures = 0;
+    state.consecutiveSuccesses++;
+    if (state.autoMaintenance && state.consecutiveSuccesses >= RECOVERY_THRESHOLD) {
+      state.autoMaintenance = false;
+      if (status === X402_AGENT_STATUS.MAINTENANCE) {
+        console.log(`Agent ${agentId} recovered, leaving maintenance`);
+        await updateAgentStatus(agentId, X402_AGENT_STATUS.ACTIVE);
+      }
+    }
+    return;
+  }
+
+  state.consecutiveSuccesses = 0;
+  state.consecutiveFailures++;
+  if (state.consecutiveFailures >= FAILURE_THRESHOLD && status === X402_AGENT_STATUS.ACTIVE) {
+    console.warn(`Agent ${agentId} failed ${state.consecutiveFailures} health checks, entering maintenance`);
+    state.autoMaintenance = true;
+    await updateAgentStatus(agentId, X402_AGENT_STATUS.MAINTENANCE);
+  }
+}
+
+export async function probeAgent(entry: RegistryEntry, baseUrl: string): Promise<boolean> {
+  const result = await sendProbe(entry, baseUrl);
+  const state = getState(entry.config.id);
+  state.lastCheck = new Date();
+  state.recent.push({ success: result.success, latencyMs: result.latencyMs });
+  if (state.recent.length > HISTORY_WINDOW) state.recent.shift();
+
+  updateHealthCheck(entry.config.id, result.success, result.latencyMs);
+  await storage.recordAgentHealthCheck({
+    agentId: entry.config.id,
+    success: result.success,
+    statusCode: result.statusCode ?? null,
+    latencyMs: result.latencyMs,
+    errorMessage: result.error ?? null
+  });
+  await applyResult(entry.config.id, result.success);
+  return result.success;
+}
+
+// Probes every listed agent that has a canned input, except ones an admin has
+// switched off. Agents in maintenance are still probed so they can recover.
+export async function runHealthChecks(baseUrl: string): Promise<number> {
+  const agents = getListedAgents().filter(entry =>
+    entry.registration.status !== X402_AGENT_STATUS.INACTIVE && probeInputFor(entry)
+  );
+  for (const entry of agents) {
+    await probeAgent(entry, baseUrl).catch(e => console.error(`Health check for ${entry.config.id} failed:`, e));
+  }
+  return agents.length;
+}
+
+export function getAgentHealth(agentId: string): AgentHealth {
+  const state = probeStates.get(agentId);
+  if (!state || state.recent.length === 0) {
+    return {
+      healthy: null,
+      lastCheck: null,
+      latencyMs: null,
+      avgLatencyMs: null,
+      successRate: null,
+      consecutiveFailures: 0,
+      autoMaintenance: false
+    };
+  }
+
+  const latest = state.recent[state.recent.length - 1];
+  const successes = state.recent.filter(check => check.success).length;
+  const totalLatency = state.recent.reduce((sum, check) => sum + check.latencyMs, 0);
+  return {
+    healthy: latest.success,
+    lastCheck: state.lastCheck || null,
+    latencyMs: latest.latencyMs,
+    avgLatencyMs: Math.round(totalLatency / state.recent.length),
+    successRate: (successes / state.recent.length) * 100,
+    consecutiveFailures: state.consecutiveFailures,
+    autoMaintenance: state.autoMaintenance
+  };
+}
+
+let proberStarted = false;
+
+export function startHealthProber(server: Server): void {
+  if (proberStarted) return;
+  proberStarted = true;
+
+  let running = false;
+  setInterval(() => {
+    const address = server.address() as AddressInfo | null;
+    if (running || !address || typeof address !== "object") return;
+    running = true;
+    runHealthChecks(`http://127.0.0.1:${address.port}`)
+      .then(() => storage.pruneAgentHealthChecks(new Date(Date.now() - HISTORY_RETENTION_MS)))
+      .catch(e => console.error("Agent health checks failed:", e))
+      .finally(() => { running = false; });
+  }, PROBE_INTERVAL_MS);
+}
+
+export const X402_HEALTH_CONFIG = {
+  interval: PROBE_INTERVAL_MS,
+  timeout: PROBE_TIMEOUT_MS,
+  failureThreshold: FAILURE_THRESHOLD,
+  recoveryThreshold: RECOVERY_THRESHOLD,
+  historyWindow: HISTORY_WINDOW,
+};
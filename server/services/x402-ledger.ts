@@ -0,0 +1,153 @@
+import { storage } from "../storage";
+import { AGENT_EXECUTION_STATUS, type AgentExecution } from "@shared/schema";
+import { markPaymentFailed } from "./x402-payments";
+
+const EXECUTION_TIMEOUT_MS = 30000;
+const X402_TASK_TYPE = "x402_paid_call";
+const X402_ASYNC_TASK_TYPE = "x402_async_call";
+const X402_PAYMENT_TYPE = "proof_of_payment";
+const PROCESS_STARTED_AT = new Date();
+
+type ExecutionStatus = typeof AGENT_EXECUTION_STATUS[keyof typeof AGENT_EXECUTION_STATUS];
+
+const allowedTransitions: Record<ExecutionStatus, ExecutionStatus[]> = {
+  pending: ["running", "failed", "cancelled"],
+  running: ["completed", "failed", "timeout"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+  timeout: ["completed"],
+};
+
+export interface ExecutionHandle {
+  id: string;
+  agentId: string;
+  status: ExecutionStatus;
+  startedAt: number;
+  timeoutTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface ExecutionInput {
+  agentId: string;
+  resource: string;
+  walletAddress?: string;
+  paymentAmount: number;
+  paymentType?: string;
+  async?: boolean;
+  input: Record<string, unknown>;
+}
+
+function canTransition(from: ExecutionStatus, to: ExecutionStatus): boolean {
+  return allowedTransitions[from].includes(to);
+}
+
+async function transition(
+  handle: ExecutionHandle,
+  to: ExecutionStatus,
+  updates: Partial<AgentExecution> = {}
+): Promise<AgentExecution | undefined> {
+  if (!canTransition(handle.status, to)) {
+    console.warn(`Ignoring execution ${handle.id} transition ${handle.status} -> ${to}`);
+    return undefined;
+  }
+  handle.status = to;
+  return storage.updateAgentExecution(handle.id, { status: to, ...updates });
+}
+
+export async function startExecution(input: ExecutionInput): Promise<ExecutionHandle> {
+  const execution = await storage.createAgentExecution({
+    agentId: input.agentId,
+    taskType: input.async ? X402_ASYNC_TASK_TYPE : X402_TASK_TYPE,
+    status: AGENT_EXECUTION_STATUS.PENDING,
+    walletAddress: input.walletAddress || null,
+    resource: input.resource,
+    inputData: JSON.stringify(input.input),
+    paymentType: input.paymentType || X402_PAYMENT_TYPE,
+    paymentAmount: input.paymentAmount,
+  });
+
+  return {
+    id: execution.id,
+    agentId: input.agentId,
+    status: AGENT_EXECUTION_STATUS.PENDING,
+    startedAt: Date.now(),
+  };
+}
+
+export async function markExecutionRunning(handle: ExecutionHandle, timeoutMs: number = EXECUTION_TIMEOUT_MS): Promise<void> {
+  await transition(handle, AGENT_EXECUTION_STATUS.RUNNING);
+
+  handle.timeoutTimer = setTimeout(() => {
+    transition(handle, AGENT_EXECUTION_STATUS.TIMEOUT, {
+      errorMessage: `Execution exceeded ${timeoutMs}ms`,
+      executionTimeMs: Date.now() - handle.startedAt,
+    }).catch(e => console.error(`Failed to mark execution ${handle.id} as timed out:`, e));
+  }, timeoutMs);
+}
+
+// Async calls settle when they are accepted, before the job has produced any
+// output; recording the signature now lets a failed job be refunded.
+export async function recordExecutionSettlement(handle: ExecutionHandle, x402Signature: string): Promise<void> {
+  await storage.updateAgentExecution(handle.id, { x402Signature });
+}
+
+function clearExecutionTimer(handle: ExecutionHandle): void {
+  if (handle.timeoutTimer) {
+    clearTimeout(handle.timeoutTimer);
+    handle.timeoutTimer = undefined;
+  }
+}
+
+// A call that outlived its deadline but still delivered its output moves on
+// to completed, so it is no longer picked up for a refund.
+export async function completeExecution(handle: ExecutionHandle, output: string, x402Signature?: string): Promise<void> {
+  clearExecutionTimer(handle);
+  await transition(handle, AGENT_EXECUTION_STATUS.COMPLETED, {
+    outputData: output,
+    x402Signature: x402Signature || null,
+    executionTimeMs: Date.now() - handle.startedAt,
+    completedAt: new Date(),
+  });
+}
+
+// A call that timed out and then failed keeps its timeout status; the error
+// is still recorded for reconciliation.
+export async function failExecution(handle: ExecutionHandle, errorMessage: string, output?: string): Promise<void> {
+  clearExecutionTimer(handle);
+  const updates: Partial<AgentExecution> = {
+    outputData: output ?? null,
+    errorMessage,
+    executionTimeMs: Date.now() - handle.startedAt,
+    completedAt: new Date(),
+  };
+
+  if (handle.status === AGENT_EXECUTION_STATUS.TIMEOUT) {
+    await storage.updateAgentExecution(handle.id, updates);
+    return;
+  }
+  await transition(handle, AGENT_EXECUTION_STATUS.FAILED, updates);
+}
+
+// Execution timers and async jobs only live in the process that started them,
+// so anything a previous process left running will never finish. Those
+// executions are timed out on startup: the refund worker pays back the ones
+// that settled on-chain, and credit-funded ones give back their reserved credits.
+export async function recoverInterruptedExecutions(startedBefore: Date = PROCESS_STARTED_AT): Promise<number> {
+  const reason = "Server restarted before the execution finished";
+  const interrupted = await storage.timeOutRunningExecutions([X402_TASK_TYPE, X402_ASYNC_TASK_TYPE], startedBefore, reason);
+
+  for (const execution of interrupted) {
+    const payment = await storage.getX402PaymentByExecution(execution.id);
+    if (payment?.creditDebitId && await storage.reverseCreditDebit(payment.creditDebitId, reason)) {
+      await markPaymentFailed(payment.id, reason);
+    }
+  }
+  return interrupted.length;
+}
+
+export const X402_LEDGER_CONFIG = {
+  executionTimeout: EXECUTION_TIMEOUT_MS,
+  taskType: X402_TASK_TYPE,
+  asyncTaskType: X402_ASYNC_TASK_TYPE,
+  paymentType: X402_PAYMENT_TYPE,
+};
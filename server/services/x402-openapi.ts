@@ -0,0 +1,561 @@
+import type { Request } from "express";
+import { validateSolanaAddress } from "@shared/x402";
+import { CREDIT_TOPUP_AGENT, PASS_PURCHASE_AGENT, isServiceAgent, type X402AgentConfig, type X402FieldDef } from "./x402";
+import { getListedAgents } from "./x402-registry";
+import { parseBatch } from "./x402-pricing";
+import { X402_DISCOVERY_PATH } from "./x402-discovery";
+
+const OPENAPI_VERSION = "3.1.0";
+const API_VERSION = "1.0.0";
+export const X402_OPENAPI_PATH = "/api/openapi.json";
+
+type JsonSchema = Record<string, any>;
+
+const SOLANA_ADDRESS_PATTERN = "^[1-9A-HJ-NP-Za-km-z]{32,44}$";
+
+// ==================== Request validation ====================
+
+function describeType(field: X402FieldDef): string {
+  return field.type || "string";
+}
+
+function checkValue(name: string, field: X402FieldDef, raw: unknown, isBatch: boolean): string | undefined {
+  const type = describeType(field);
+
+  if (type === "number" || type === "integer") {
+    const value = typeof raw === "number" ? raw : Number(raw);
+    if (typeof raw === "string" && raw.trim() === "" || !Number.isFinite(value)) {
+      return `${name} must be a number`;
+    }
+    if (type === "integer" && !Number.isInteger(value)) return `${name} must be an integer`;
+    if (field.minimum !== undefined && value < field.minimum) return `${name} must be at least ${field.minimum}`;
+    if (field.maximum !== undefined && value > field.maximum) return `${name} must be at most ${field.maximum}`;
+    return undefined;
+  }
+
+  if (type === "boolean") {
+    if (typeof raw === "boolean" || raw === "true" || raw === "false") return undefined;
+    return `${name} must be true or false`;
+  }
+
+  if (typeof raw !== "string") return `${name} must be a string`;
+  if (field.maxLength !== undefined && raw.length > field.maxLength) {
+    return `${name} must be at most ${field.maxLength} characters`;
+  }
+
+  const values = isBatch ? parseBatch(raw) : [raw];
+  for (const value of values) {
+    if (field.enum && !field.enum.includes(value.toLowerCase())) {
+      return `${name} must be one of: ${field.enum.join(", ")}`;
+    }
+    if (field.format === "solana-address" && !validateSolanaAddress(value)) {
+      return isBatch ? `${name} must contain only Solana addresses` : `${name} must be a Solana address`;
+    }
+  }
+  return undefined;
+}
+
+function checkFields(
+  fields: Record<string, X402FieldDef> | undefined,
+  source: Record<string, unknown>,
+  agent: X402AgentConfig,
+  location: "query" | "body"
+): string[] {
+  const errors: string[] = [];
+  for (const [name, field] of Object.entries(fields || {})) {
+    const raw = source[name];
+    if (raw === undefined || raw === null || raw === "") {
+      if (field.required) errors.push(`${name} is required`);
+      continue;
+    }
+    if (location === "query" && Array.isArray(raw)) {
+      errors.push(`${name} must be given once`);
+      continue;
+    }
+    const error = checkValue(name, field, raw, location === "query" && agent.pricing?.batchParam === name);
+    if (error) errors.push(error);
+  }
+  return errors;
+}
+
+// Checks a paid request against the agent's inputSchema. The middleware runs
+// this before quoting, so a malformed request is rejected without a charge.
+export function validateAgentRequest(agent: X402AgentConfig, req: Request): string[] {
+  return [
+    ...checkFields(agent.inputSchema?.queryParams, req.query as Record<string, unknown>, agent, "query"),
+    ...checkFields(agent.inputSchema?.bodyFields, (req.body && typeof req.body === "object" ? req.body : {}), agent, "body")
+  ];
+}
+
+// ==================== OpenAPI document ====================
+
+function fieldSchema(field: X402FieldDef, isBatch: boolean): JsonSchema {
+  const schema: JsonSchema = { type: describeType(field) };
+  if (field.description) schema.description = field.description;
+  if (field.enum) schema.enum = field.enum;
+  if (field.maxLength !== undefined) schema.maxLength = field.maxLength;
+  if (field.minimum !== undefined) schema.minimum = field.minimum;
+  if (field.maximum !== undefined) schema.maximum = field.maximum;
+  if (field.format === "solana-address") {
+    schema.pattern = isBatch
+      ? `^[1-9A-HJ-NP-Za-km-z]{32,44}(,[1-9A-HJ-NP-Za-km-z]{32,44})*$`
+      : SOLANA_ADDRESS_PATTERN;
+  }
+  return schema;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: JsonSchema, description: string) => ({
+  description,
+  content: { "application/json": { schema } }
+});
+const errorResponse = (description: string) => json(ref("Error"), description);
+
+function pathParam(name: string, description: string, schema: JsonSchema = { type: "string" }): JsonSchema {
+  return { name, in: "path", required: true, description, schema };
+}
+
+function queryParam(name: string, description: string, schema: JsonSchema = { type: "string" }, required = false): JsonSchema {
+  return { name, in: "query", required, description, schema };
+}
+
+const walletPath = pathParam("wallet", "Solana wallet address", { type: "string", pattern: SOLANA_ADDRESS_PATTERN });
+// Private wallet reads: a credit session token for the wallet, or these two
+// headers signed for `action`.
+function walletAuthHeaders(action: string): JsonSchema[] {
+  return [
+    { $ref: "#/components/parameters/XSessionToken" },
+    { name: "X-Wallet-Timestamp", in: "header", required: false, schema: { type: "integer" }, description: "Milliseconds since epoch, within 5 minutes of now" },
+    { name: "X-Wallet-Signature", in: "header", required: false, schema: { type: "string" }, description: `Base58 signature of the wallet auth message for the "${action}" action` }
+  ];
+}
+const limitQuery = (max: number) => queryParam("limit", `Maximum number of results (1-${max})`, { type: "integer", minimum: 1, maximum: max });
+
+function agentOperation(agent: X402AgentConfig): JsonSchema {
+  const batchParam = agent.pricing?.batchParam;
+  const parameters: JsonSchema[] = Object.entries(agent.inputSchema?.queryParams || {}).map(([name, field]) => ({
+    name,
+    in: "query",
+    required: Boolean(field.required),
+    ...(field.description && { description: field.description }),
+    schema: fieldSchema(field, name === batchParam)
+  }));
+  parameters.push(
+    { $ref: "#/components/parameters/XPayment" },
+    { $ref: "#/components/parameters/XSessionToken" },
+    { $ref: "#/components/parameters/IdempotencyKey" },
+    { $ref: "#/components/parameters/XPriority" },
+    { $ref: "#/components/parameters/XQuoteId" }
+  );
+  const asyncCapable = !isServiceAgent(agent.id);
+  if (asyncCapable) {
+    parameters.push(
+      { $ref: "#/components/parameters/Prefer" },
+      { $ref: "#/components/parameters/XPassToken" },
+      { $ref: "#/components/parameters/XPromoCode" }
+    );
+  }
+
+  const bodyFields = agent.inputSchema?.bodyFields;
+  const requestBody = bodyFields && {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(Object.entries(bodyFields).map(([name, field]) => [name, fieldSchema(field, false)])),
+          required: Object.entries(bodyFields).filter(([, field]) => field.required).map(([name]) => name)
+        }
+      }
+    }
+  };
+
+  return {
+    operationId: agent.id,
+    summary: agent.name,
+    description: `${agent.description}\n\nBase price: $${agent.priceUSD} USD, settled on Solana via x402.`,
+    tags: ["Paid agents"],
+    security: [{ x402Payment: [] }, { creditSession: [] }, {}],
+    parameters,
+    ...(requestBody && { requestBody }),
+    "x-x402": {
+      agentId: agent.id,
+      priceUSD: agent.priceUSD,
+      ...(agent.pricing && { pricing: agent.pricing })
+    },
+    responses: {
+      "200": {
+        ...json(agent.outputSchema || { type: "object" }, "Agent result; the payment has been settled"),
+        headers: {
+          "X-PAYMENT-RESPONSE": { description: "Base64 JSON settlement receipt", schema: { type: "string" } },
+          "X-Execution-Id": { description: "Execution record for this call", schema: { type: "string" } },
+          "X-Quote-Id": { description: "Quote the payment was bound to", schema: { type: "string" } }
+        }
+      },
+      ...(asyncCapable && {
+        "202": {
+          ...json(ref("AsyncAccepted"), "Accepted for async execution (Prefer: respond-async); poll resultUrl"),
+          headers: {
+            "Location": { description: "Result URL", schema: { type: "string" } },
+            "Retry-After": { description: "Seconds to wait before polling", schema: { type: "integer" } }
+          }
+        }
+      }),
+      "400": errorResponse("Request failed input validation; no payment was taken"),
+      "401": errorResponse("Invalid X-Session-Token"),
+      "402": json(ref("PaymentRequired"), "Payment required, or the supplied payment was rejected"),
+      "409": errorResponse("Idempotency-Key conflict"),
+      "410": errorResponse("Agent has been retired"),
+      "429": errorResponse("Rate limit exceeded"),
+      "502": errorResponse("Payment facilitator could not be reached; no payment was taken"),
+      "503": errorResponse("Agent is under maintenance or inactive")
+    }
+  };
+}
+
+// Free routes, described by hand. Paid agent routes are generated from the
+// registry so the spec always matches what the middleware enforces.
+const PUBLIC_PATHS: Record<string, Record<string, JsonSchema>> = {
+  [X402_DISCOVERY_PATH]: {
+    get: { summary: "x402 discovery manifest", tags: ["Discovery"], responses: { "200": json({ type: "object" }, "Manifest of active paid agents"), "304": { description: "Not modified (If-None-Match)" } } }
+  },
+  [X402_OPENAPI_PATH]: {
+    get: { summary: "This OpenAPI document", tags: ["Discovery"], responses: { "200": json({ type: "object" }, "OpenAPI 3.1 document") } }
+  },
+  "/api/x402/agents": {
+    get: { summary: "List paid agents with status and health", tags: ["Discovery"], responses: { "200": json({ type: "object" }, "Agent listing") } }
+  },
+  "/api/x402/supported": {
+    get: { summary: "Payment kinds supported by the facilitator", tags: ["Discovery"], responses: { "200": json({ type: "object" }, "Supported kinds"), "502": errorResponse("Facilitator unavailable") } }
+  },
+  "/api/x402/blockhash": {
+    get: { summary: "Recent blockhash for building a payment transaction", tags: ["Payments"], responses: { "200": json({ type: "object", properties: { blockhash: { type: "string" }, network: { type: "string" } } }, "Latest confirmed blockhash"), "502": errorResponse("RPC unavailable") } }
+  },
+  "/api/x402/executions/{id}/result": {
+    get: {
+      summary: "Collect the result of an async call, as the paying wallet",
+      tags: ["Payments"],
+      parameters: [pathParam("id", "Execution id from the 202 response"), ...walletAuthHeaders("execution-result")],
+      responses: {
+        "200": json({ type: "object" }, "Agent result, as the synchronous call would have returned it"),
+        "202": json({ type: "object" }, "Still queued or running; retry after Retry-After seconds"),
+        "401": errorResponse("Caller is not the paying wallet"),
+        "404": errorResponse("No async execution with this id"),
+        "410": errorResponse("Result is past its retention window"),
+        "502": errorResponse("The job failed; on-chain payments are refunded")
+      }
+    }
+  },
+  "/api/x402/credits/session": {
+    post: {
+      summary: "Open a credit session with a wallet signature",
+      tags: ["Credits"],
+      requestBody: { required: true, content: { "application/json": { schema: ref("WalletAuth") } } },
+      responses: { "200": json({ type: "object" }, "Session token"), "401": errorResponse("Signature rejected"), "404": errorResponse("No credit balance") }
+    },
+    delete: {
+      summary: "Revoke the current credit session",
+      tags: ["Credits"],
+      parameters: [{ $ref: "#/components/parameters/XSessionToken" }],
+      responses: { "200": json({ type: "object" }, "Revoked"), "401": errorResponse("Invalid session token") }
+    }
+  },
+  "/api/x402/credits/{wallet}": {
+    get: { summary: "Credit balance", tags: ["Credits"], parameters: [walletPath, ...walletAuthHeaders("credits")], responses: { "200": json({ type: "object" }, "Balance"), "400": errorResponse("Invalid wallet"), "401": errorResponse("Caller does not own the wallet"), "404": errorResponse("No credit balance") } }
+  },
+  "/api/x402/credits/{wallet}/topups": {
+    get: { summary: "Credit top-up history", tags: ["Credits"], parameters: [walletPath, limitQuery(500), ...walletAuthHeaders("credits")], responses: { "200": json({ type: "object" }, "Top-ups"), "400": errorResponse("Invalid wallet"), "401": errorResponse("Caller does not own the wallet") } }
+  },
+  "/api/x402/credits/{wallet}/debits": {
+    get: { summary: "Credit debit history", tags: ["Credits"], parameters: [walletPath, limitQuery(500), ...walletAuthHeaders("credits")], responses: { "200": json({ type: "object" }, "Debits"), "400": errorResponse("Invalid wallet"), "401": errorResponse("Caller does not own the wallet") } }
+  },
+  "/api/x402/budgets/{wallet}": {
+    get: {
+      summary: "Wallet budget with today's and this month's spend",
+      tags: ["Budgets"],
+      parameters: [
+        walletPath,
+        { name: "X-Wallet-Timestamp", in: "header", required: true, schema: { type: "integer" }, description: "Milliseconds since epoch, within 5 minutes of now" },
+        { name: "X-Wallet-Signature", in: "header", required: true, schema: { type: "string" }, description: "Base58 signature of the wallet auth message for the \"budget\" action" }
+      ],
+      responses: { "200": json({ type: "object" }, "Budget status"), "401": errorResponse("Signature rejected") }
+    },
+    put: {
+      summary: "Set or clear budget limits, signed for the \"budget-update\" action",
+      tags: ["Budgets"],
+      parameters: [walletPath],
+      requestBody: { required: true, content: { "application/json": { schema: ref("BudgetUpdate") } } },
+      responses: { "200": json({ type: "object" }, "Budget status"), "400": errorResponse("Invalid budget"), "401": errorResponse("Signature rejected") }
+    }
+  },
+  "/api/x402/statements/{wallet}": {
+    get: {
+      summary: "Monthly statement of a wallet's paid calls",
+      tags: ["Payments"],
+      parameters: [
+        walletPath,
+        queryParam("month", "UTC month as YYYY-MM, defaults to the current month", { type: "string", pattern: "^\\d{4}-\\d{2}$" }),
+        queryParam("format", "Download format", { type: "string", enum: ["json", "csv"] }),
+        ...walletAuthHeaders("statement")
+      ],
+      responses: {
+        "200": { description: "Statement itemised by agent, resource, amount, asset and transaction", content: { "application/json": { schema: { type: "object" } }, "text/csv": { schema: { type: "string" } } } },
+        "400": errorResponse("Invalid wallet, month or format"),
+        "401": errorResponse("Caller does not own the wallet")
+      }
+    }
+  },
+  "/api/x402/receipts/public-key": {
+    get: { summary: "Ed25519 key that signs call receipts", tags: ["Payments"], responses: { "200": json({ type: "object", properties: { publicKey: { type: "string" }, algorithm: { type: "string" }, encoding: { type: "string" } } }, "Receipt signing key") } }
+  },
+  "/api/x402/receipts/{paymentId}": {
+    get: {
+      summary: "Signed receipt for one paid call, for the wallet that paid",
+      tags: ["Payments"],
+      parameters: [pathParam("paymentId", "Payment id from the X-Payment-Id header"), ...walletAuthHeaders("receipt")],
+      responses: {
+        "200": json({ type: "object", properties: { receipt: { type: "object" }, signature: { type: "string" } } }, "Receipt and its base58 signature over the receipt as key-sorted JSON"),
+        "401": errorResponse("Caller is not the paying wallet"),
+        "404": errorResponse("Payment not found"),
+        "409": errorResponse("Payment has not settled")
+      }
+    }
+  },
+  "/api/x402/passes/plans": {
+    get: { summary: "Subscription pass plans on sale", tags: ["Passes"], responses: { "200": json({ type: "object", properties: { plans: { type: "array" } } }, "Plans; buy one at /api/x402/passes/purchase") } }
+  },
+  "/api/tokens": {
+    get: { summary: "Search Solana token pairs", tags: ["Market data"], parameters: [queryParam("search", "Search term"), limitQuery(100)], responses: { "200": json({ type: "array" }, "Token snapshots") } }
+  },
+  "/api/tokens/trending": {
+    get: { summary: "Trending Solana tokens", tags: ["Market data"], responses: { "200": json({ type: "array" }, "Token snapshots") } }
+  },
+  "/api/tokens/{tokenAddress}": {
+    get: { summary: "Token details", tags: ["Market data"], parameters: [pathParam("tokenAddress", "Token mint address")], responses: { "200": json({ type: "object" }, "Token"), "404": errorResponse("Not found") } }
+  },
+  "/api/tokens/{tokenAddress}/safety": {
+    get: { summary: "Token safety score", tags: ["Market data"], parameters: [pathParam("tokenAddress", "Token mint address")], responses: { "200": json({ type: "object" }, "Safety score"), "404": errorResponse("Not found") } }
+  },
+  "/api/polymarket/positions": {
+    get: { summary: "Top Polymarket trader positions", tags: ["Predictions"], responses: { "200": json({ type: "array" }, "Positions") } }
+  },
+  "/api/prediction/mode": {
+    get: { summary: "Current prediction mode", tags: ["Predictions"], responses: { "200": json({ type: "object" }, "Mode") } },
+    post: {
+      summary: "Set prediction mode",
+      tags: ["Predictions"],
+      requestBody: { required: true, content: { "application/json": { schema: { type: "object", properties: { mode: { type: "string" } }, required: ["mode"] } } } },
+      responses: { "200": json({ type: "object" }, "Mode"), "400": errorResponse("Invalid mode") }
+    }
+  },
+  "/api/prediction/entries": {
+    get: { summary: "Prediction entries", tags: ["Predictions"], responses: { "200": json({ type: "array" }, "Entries") } }
+  },
+  "/api/wallets": {
+    get: { summary: "Tracked wallets", tags: ["Wallets"], responses: { "200": json({ type: "array" }, "Wallets") } },
+    post: {
+      summary: "Track a wallet",
+      tags: ["Wallets"],
+      requestBody: { required: true, content: { "application/json": { schema: { type: "object", properties: { address: { type: "string", pattern: SOLANA_ADDRESS_PATTERN }, label: { type: "string" } }, required: ["address"] } } } },
+      responses: { "201": json({ type: "object" }, "Tracked wallet"), "400": errorResponse("Invalid wallet data"), "409": errorResponse("Already tracked") }
+    }
+  },
+  "/api/wallets/{id}": {
+    delete: { summary: "Stop tracking a wallet", tags: ["Wallets"], parameters: [pathParam("id", "Tracked wallet id")], responses: { "204": { description: "Deleted" } } }
+  },
+  "/api/wallets/{address}/activity": {
+    get: { summary: "Wallet activity", tags: ["Wallets"], parameters: [pathParam("address", "Wallet address"), limitQuery(100)], responses: { "200": json({ type: "array" }, "Activity") } }
+  },
+  "/api/whales": {
+    get: { summary: "Recent whale trades", tags: ["Wallets"], parameters: [limitQuery(100)], responses: { "200": json({ type: "array" }, "Whale trades") } }
+  },
+  "/api/watchlist": {
+    get: { summary: "Watchlist", tags: ["Watchlist"], responses: { "200": json({ type: "array" }, "Watchlist") } },
+    post: {
+      summary: "Add a token to the watchlist",
+      tags: ["Watchlist"],
+      requestBody: { required: true, content: { "application/json": { schema: { type: "object", properties: { tokenAddress: { type: "string" } }, required: ["tokenAddress"] } } } },
+      responses: { "201": json({ type: "object" }, "Watchlist entry"), "400": errorResponse("Invalid watchlist data") }
+    }
+  },
+  "/api/watchlist/{tokenAddress}": {
+    delete: { summary: "Remove a token from the watchlist", tags: ["Watchlist"], parameters: [pathParam("tokenAddress", "Token mint address")], responses: { "204": { description: "Deleted" } } }
+  },
+  "/api/insiders": {
+    get: { summary: "Insider relations", tags: ["Wallets"], responses: { "200": json({ type: "array" }, "Insider relations") } }
+  },
+  "/api/github/check-x402": {
+    post: {
+      summary: "Check a GitHub repository for x402 support",
+      tags: ["Tools"],
+      requestBody: { required: true, content: { "application/json": { schema: { type: "object", properties: { url: { type: "string", format: "uri" } }, required: ["url"] } } } },
+      responses: { "200": json({ type: "object" }, "Check result"), "400": errorResponse("Invalid url") }
+    }
+  },
+  "/api/wallet/kyc": {
+    post: { summary: "Free wallet KYC preview", tags: ["Tools"], requestBody: addressBody("address"), responses: { "200": json({ type: "object" }, "KYC result"), "400": errorResponse("Invalid address") } }
+  },
+  "/api/contract/audit": {
+    post: { summary: "Contract audit", tags: ["Tools"], requestBody: addressBody("address"), responses: { "200": json({ type: "object" }, "Audit"), "400": errorResponse("Invalid address") } }
+  },
+  "/api/smart-entry/analyze": {
+    post: { summary: "Smart entry analysis", tags: ["Tools"], requestBody: addressBody("tokenAddress"), responses: { "200": json({ type: "object" }, "Analysis"), "400": errorResponse("Invalid token") } }
+  },
+  "/api/liquidity/analyze": {
+    post: { summary: "Liquidity analysis", tags: ["Tools"], requestBody: addressBody("tokenAddress"), responses: { "200": json({ type: "object" }, "Analysis"), "400": errorResponse("Invalid token") } }
+  },
+  "/api/portfolio/analyze": {
+    post: { summary: "Portfolio analysis", tags: ["Tools"], requestBody: addressBody("address"), responses: { "200": json({ type: "object" }, "Analysis"), "400": errorResponse("Invalid address") } }
+  },
+  "/api/portfolio/{address}/history": {
+    get: { summary: "Portfolio value history", tags: ["Wallets"], parameters: [pathParam("address", "Wallet address", { type: "string", pattern: SOLANA_ADDRESS_PATTERN })], responses: { "200": json({ type: "array" }, "History"), "400": errorResponse("Invalid address") } }
+  },
+  "/api/portfolio/{address}/transactions": {
+    get: { summary: "Recent wallet swaps", tags: ["Wallets"], parameters: [pathParam("address", "Wallet address", { type: "string", pattern: SOLANA_ADDRESS_PATTERN })], responses: { "200": json({ type: "array" }, "Transactions"), "400": errorResponse("Invalid address") } }
+  }
+};
+
+function addressBody(field: string): JsonSchema {
+  return {
+    required: true,
+    content: { "application/json": { schema: { type: "object", properties: { [field]: { type: "string" } }, required: [field] } } }
+  };
+}
+
+const COMPONENTS: JsonSchema = {
+  schemas: {
+    Error: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        code: { type: "string" },
+        details: {}
+      },
+      required: ["error"]
+    },
+    PaymentRequirements: {
+      type: "object",
+      properties: {
+        scheme: { type: "string", const: "exact" },
+        network: { type: "string", examples: ["solana", "solana-devnet"] },
+        maxAmountRequired: { type: "string", description: "Amount in the asset's atomic units" },
+        resource: { type: "string", format: "uri" },
+        description: { type: "string" },
+        mimeType: { type: "string" },
+        payTo: { type: "string" },
+        maxTimeoutSeconds: { type: "integer" },
+        asset: { type: "string", description: "SPL mint address, or the native SOL mint" },
+        outputSchema: { type: "object" },
+        extra: {
+          type: "object",
+          description: "Asset metadata, the bound quote and the fee payer",
+          properties: {
+            agentId: { type: "string" },
+            symbol: { type: "string" },
+            decimals: { type: "integer" },
+            feePayer: { type: "string" },
+            quote: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                priceUSD: { type: "number" },
+                basePriceUSD: { type: "number" },
+                complexity: { type: "number" }
+              }
+            }
+          }
+        }
+      },
+      required: ["scheme", "network", "maxAmountRequired", "resource", "payTo", "asset"]
+    },
+    PaymentRequired: {
+      type: "object",
+      properties: {
+        x402Version: { type: "integer", const: 1 },
+        error: { type: "string" },
+        settlementPending: { type: "boolean", description: "The payment transaction was sent but not confirmed in time; it is refunded if it lands" },
+        transaction: { type: "string", description: "Signature of the pending settlement transaction" },
+        accepts: { type: "array", items: ref("PaymentRequirements") }
+      },
+      required: ["x402Version", "accepts"]
+    },
+    WalletAuth: {
+      type: "object",
+      properties: {
+        wallet: { type: "string", pattern: SOLANA_ADDRESS_PATTERN },
+        timestamp: { type: "integer", description: "Milliseconds since epoch, within 5 minutes of now" },
+        signature: { type: "string", description: "Base58 ed25519 signature of the wallet auth message" }
+      },
+      required: ["wallet", "timestamp", "signature"]
+    },
+    BudgetUpdate: {
+      type: "object",
+      description: "Omitted limits are unchanged; null removes a limit",
+      properties: {
+        timestamp: { type: "integer", description: "Milliseconds since epoch, within 5 minutes of now" },
+        signature: { type: "string", description: "Base58 ed25519 signature of the wallet auth message, with a final \"Body: <hex sha256>\" line hashing the other fields as key-sorted JSON" },
+        dailyLimitUSD: { type: ["number", "null"], exclusiveMinimum: 0 },
+        monthlyLimitUSD: { type: ["number", "null"], exclusiveMinimum: 0 },
+        perCallLimitUSD: { type: ["number", "null"], exclusiveMinimum: 0 },
+        agentLimits: { type: "object", additionalProperties: { type: ["number", "null"], exclusiveMinimum: 0 }, description: "Daily cap per agent id" }
+      },
+      required: ["timestamp", "signature"]
+    },
+    AsyncAccepted: {
+      type: "object",
+      properties: {
+        executionId: { type: "string" },
+        status: { type: "string", enum: ["queued"] },
+        resultUrl: { type: "string", format: "uri" },
+        retentionSeconds: { type: "integer", description: "How long the result stays retrievable after the job finishes" }
+      },
+      required: ["executionId", "status", "resultUrl", "retentionSeconds"]
+    }
+  },
+  parameters: {
+    XPayment: { name: "X-Payment", in: "header", required: false, description: "Base64 x402 payment payload", schema: { type: "string" } },
+    XSessionToken: { name: "X-Session-Token", in: "header", required: false, description: "Prepaid credit session token", schema: { type: "string" } },
+    IdempotencyKey: { name: "Idempotency-Key", in: "header", required: false, description: "Replays the stored response when the request is repeated with the same payment or credit session", schema: { type: "string", maxLength: 255 } },
+    XPriority: { name: "X-Priority", in: "header", required: false, description: "Execution priority; affects price", schema: { type: "string", enum: ["low", "normal", "high"] } },
+    XQuoteId: { name: "X-Quote-Id", in: "header", required: false, description: "Quote id from the 402 response the payment was built for", schema: { type: "string" } },
+    Prefer: { name: "Prefer", in: "header", required: false, description: "respond-async runs the call in the background and answers 202", schema: { type: "string", enum: ["respond-async"] } },
+    XPassToken: { name: "X-Pass-Token", in: "header", required: false, description: "Subscription pass token; covered calls are free while the pass is active", schema: { type: "string" } },
+    XPromoCode: { name: "X-Promo-Code", in: "header", required: false, description: "Promo code that discounts or waives the price", schema: { type: "string" } }
+  },
+  securitySchemes: {
+    x402Payment: { type: "apiKey", in: "header", name: "X-Payment" },
+    creditSession: { type: "apiKey", in: "header", name: "X-Session-Token" }
+  }
+};
+
+export function buildOpenApiDocument(baseUrl: string): JsonSchema {
+  const paidPaths: Record<string, Record<string, JsonSchema>> = {};
+  for (const agent of [...getListedAgents().map(entry => entry.config), CREDIT_TOPUP_AGENT, PASS_PURCHASE_AGENT]) {
+    paidPaths[agent.resource] = { [agent.method.toLowerCase()]: agentOperation(agent) };
+  }
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: "MODEXO API",
+      version: API_VERSION,
+      description: "Solana market intelligence and x402 pay-per-call AI agents."
+    },
+    servers: [{ url: baseUrl }],
+    tags: [
+      { name: "Paid agents", description: "Pay per call with an x402 payment or prepaid credits" },
+      { name: "Discovery" },
+      { name: "Payments" },
+      { name: "Credits" },
+      { name: "Budgets", description: "Spending limits set by the paying wallet" },
+      { name: "Passes", description: "Time-boxed passes that cover calls to selected agents" },
+      { name: "Market data" },
+      { name: "Predictions" },
+      { name: "Wallets" },
+      { name: "Watchlist" },
+      { name: "Tools" }
+    ],
+    paths: { ...paidPaths, ...PUBLIC_PATHS },
+    components: COMPONENTS
+  };
+}
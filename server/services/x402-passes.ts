@@ -0,0 +1,225 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import { storage } from "../storage";
+import type {
+  X402Pass,
+  X402PassPlan,
+  X402PassPlanDefinition,
+  X402PassGrant,
+  X402PassSummary
+} from "@shared/schema";
+import type { X402AgentConfig } from "@shared/x402";
+import { quoteFixedPrice, type PriceQuote } from "./x402-pricing";
+
+const PASS_TOKEN_PREFIX = "pass_";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PassView {
+  id: string;
+  planId: string | null;
+  walletAddress: string;
+  agentIds: string[];
+  priceUSD: number;
+  startsAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  uses: number;
+  lastUsedAt: Date | null;
+  transactionSignature: string | null;
+}
+
+// A pass together with its bearer token, which is only ever shown here.
+export interface IssuedPass {
+  pass: PassView;
+  token: string;
+}
+
+export interface PlanStats {
+  plan: X402PassPlan | null;
+  passes: number;
+  active: number;
+  revoked: number;
+  uses: number;
+  revenueUSD: number;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function newToken(): string {
+  return `${PASS_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+export function toPassView(pass: X402Pass): PassView {
+  return {
+    id: pass.id,
+    planId: pass.planId,
+    walletAddress: pass.walletAddress,
+    agentIds: pass.agentIds,
+    priceUSD: pass.priceUsd,
+    startsAt: pass.startsAt,
+    expiresAt: pass.expiresAt,
+    revokedAt: pass.revokedAt,
+    revokedReason: pass.revokedReason,
+    uses: pass.uses,
+    lastUsedAt: pass.lastUsedAt,
+    transactionSignature: pass.transactionSignature
+  };
+}
+
+async function issuePass(
+  input: { planId: string | null; walletAddress: string; agentIds: string[]; durationDays: number; priceUSD: number; transactionSignature: string | null },
+  now: number
+): Promise<IssuedPass | undefined> {
+  const token = newToken();
+  const pass = await storage.createPass({
+    planId: input.planId,
+    walletAddress: input.walletAddress,
+    agentIds: input.agentIds,
+    tokenHash: hashToken(token),
+    transactionSignature: input.transactionSignature,
+    priceUsd: input.priceUSD,
+    startsAt: new Date(now),
+    expiresAt: new Date(now + input.durationDays * DAY_MS)
+  });
+  return pass ? { pass: toPassView(pass), token } : undefined;
+}
+
+// Prices a pass purchase at the plan's price. Only plans on sale can be bought.
+export async function pricePassPurchase(agent: X402AgentConfig, req: Request): Promise<{ quote?: PriceQuote; error?: string }> {
+  const planId = typeof req.query.plan === "string" ? req.query.plan : "";
+  const plan = planId ? await storage.getPassPlan(planId) : undefined;
+  if (!plan || !plan.active) {
+    return { error: "plan must name a pass plan that is on sale" };
+  }
+  return { quote: quoteFixedPrice(agent, plan.priceUsd, plan.id) };
+}
+
+// Issues the pass a settled purchase paid for. Returns an error when the plan
+// went off sale in the meantime or the transaction already bought a pass.
+export async function purchasePass(
+  planId: string,
+  walletAddress: string,
+  transactionSignature: string,
+  priceUSD: number,
+  now: number = Date.now()
+): Promise<{ issued?: IssuedPass; error?: string }> {
+  const plan = await storage.getPassPlan(planId);
+  if (!plan) return { error: "Pass plan not found" };
+
+  const issued = await issuePass({
+    planId: plan.id,
+    walletAddress,
+    agentIds: plan.agentIds,
+    durationDays: plan.durationDays,
+    priceUSD,
+    transactionSignature
+  }, now);
+  return issued ? { issued } : { error: "This payment already bought a pass" };
+}
+
+// Complimentary pass issued by an admin, outside any plan.
+export async function grantPass(grant: X402PassGrant, now: number = Date.now()): Promise<IssuedPass> {
+  const issued = await issuePass({
+    planId: null,
+    walletAddress: grant.walletAddress,
+    agentIds: grant.agentIds,
+    durationDays: grant.durationDays,
+    priceUSD: 0,
+    transactionSignature: null
+  }, now);
+  return issued!;
+}
+
+// Resolves an X-Pass-Token for a call to agentId. Unknown tokens are
+// unauthorized; known passes that do not cover the call say why, so the caller
+// can fall back to paying.
+export async function authenticatePass(
+  token: string,
+  agentId: string,
+  now: number = Date.now()
+): Promise<{ pass?: X402Pass; error?: string; status?: number }> {
+  const pass = token.startsWith(PASS_TOKEN_PREFIX) ? await storage.getPassByTokenHash(hashToken(token)) : undefined;
+  if (!pass) return { error: "Unknown pass token", status: 401 };
+  if (pass.revokedAt) return { error: "Pass has been revoked", status: 402 };
+  if (pass.startsAt.getTime() > now || pass.expiresAt.getTime() <= now) return { error: "Pass has expired", status: 402 };
+  if (!pass.agentIds.includes(agentId)) return { error: `Pass does not cover ${agentId}`, status: 402 };
+  return { pass };
+}
+
+export function recordPassUse(passId: string): Promise<void> {
+  return storage.recordPassUse(passId);
+}
+
+export async function getPass(id: string): Promise<PassView | undefined> {
+  const pass = await storage.getPass(id);
+  return pass ? toPassView(pass) : undefined;
+}
+
+export async function getPasses(filter: { planId?: string; walletAddress?: string; active?: boolean; limit?: number }): Promise<PassView[]> {
+  const passes = await storage.getPasses({
+    planId: filter.planId,
+    walletAddress: filter.walletAddress,
+    activeAt: filter.active ? new Date() : undefined,
+    limit: filter.limit
+  });
+  return passes.map(toPassView);
+}
+
+export async function revokePass(id: string, reason: string): Promise<PassView | undefined> {
+  const pass = await storage.revokePass(id, reason);
+  return pass ? toPassView(pass) : undefined;
+}
+
+export function getPassPlans(activeOnly: boolean = true): Promise<X402PassPlan[]> {
+  return storage.getPassPlans(activeOnly);
+}
+
+export function createPassPlan(definition: X402PassPlanDefinition): Promise<X402PassPlan> {
+  return storage.createPassPlan({
+    name: definition.name,
+    agentIds: definition.agentIds,
+    durationDays: definition.durationDays,
+    priceUsd: definition.priceUSD,
+    active: true
+  });
+}
+
+// Takes a plan off sale. Passes already bought stay valid until they expire
+// or are revoked one by one.
+export function retirePassPlan(id: string): Promise<X402PassPlan | undefined> {
+  return storage.updatePassPlan(id, { active: false });
+}
+
+export async function getPassStats(now: Date = new Date()): Promise<PlanStats[]> {
+  const [plans, summaries] = await Promise.all([storage.getPassPlans(false), storage.summarizePasses(now)]);
+  const byPlan = new Map<string | null, X402PassSummary>(summaries.map(summary => [summary.planId, summary]));
+
+  const stats: PlanStats[] = plans.map(plan => {
+    const summary = byPlan.get(plan.id);
+    return {
+      plan,
+      passes: summary?.passes ?? 0,
+      active: summary?.active ?? 0,
+      revoked: summary?.revoked ?? 0,
+      uses: summary?.uses ?? 0,
+      revenueUSD: summary?.revenueUsd ?? 0
+    };
+  });
+
+  // Granted passes have no plan.
+  const granted = byPlan.get(null);
+  if (granted) {
+    stats.push({
+      plan: null,
+      passes: granted.passes,
+      active: granted.active,
+      revoked: granted.revoked,
+      uses: granted.uses,
+      revenueUSD: granted.revenueUsd
+    });
+  }
+  return stats;
+}
@@ -0,0 +1,213 @@
+import { storage } from "../storage";
+import {
+  X402_PAYMENT_STATUS,
+  TRANSACTION_EXPIRY_MS,
+  paymentSourceStates,
+  type X402PaymentStatus
+} from "@shared/x402";
+import { X402_PAYMENT_METHOD, type X402Payment, type X402PaymentEvent } from "@shared/schema";
+import type { PriceQuote } from "./x402-pricing";
+import { getFacilitator } from "./x402-facilitator";
+
+// Verified payments wait on the handler and settlement, so they are given
+// longer than an unpaid quote before the sweeper gives up on them.
+const VERIFIED_EXPIRY_MS = 15 * 60 * 1000;
+// Settling payments are rechecked once their transaction has had time to land.
+const SETTLING_RECHECK_MS = 30000;
+const SWEEP_INTERVAL_MS = 60000;
+const SWEEP_BATCH_SIZE = 100;
+
+type PaymentMethod = typeof X402_PAYMENT_METHOD[keyof typeof X402_PAYMENT_METHOD];
+
+export interface OpenPaymentInput {
+  quote: PriceQuote;
+  agentId: string;
+  resource: string;
+  method: PaymentMethod;
+  walletAddress?: string;
+}
+
+function describe(details: Record<string, unknown> | undefined): string | undefined {
+  return details && Object.keys(details).length > 0 ? JSON.stringify(details) : undefined;
+}
+
+// Opens a payment bound to the quote the request was priced at.
+export async function openPayment(input: OpenPaymentInput): Promise<X402Payment> {
+  return storage.createX402Payment({
+    quoteId: input.quote.id,
+    agentId: input.agentId,
+    resource: input.resource,
+    method: input.method,
+    status: X402_PAYMENT_STATUS.QUOTED,
+    walletAddress: input.walletAddress || null,
+    amountUsd: input.quote.priceUSD
+  }, describe({ priceUSD: input.quote.priceUSD, basePriceUSD: input.quote.basePriceUSD }));
+}
+
+// Applies a transition allowed by the shared state machine. Returns undefined
+// when the payment is not in a state that can move to `to`, e.g. because a
+// concurrent request already moved it.
+export async function transitionPayment(
+  paymentId: string,
+  to: X402PaymentStatus,
+  updates: Partial<X402Payment> = {},
+  details?: Record<string, unknown>
+): Promise<X402Payment | undefined> {
+  const updated = await storage.transitionX402Payment(paymentId, paymentSourceStates(to), to, updates, describe(details));
+  if (!updated) {
+    console.warn(`Ignoring payment ${paymentId} transition to ${to}`);
+  }
+  return updated;
+}
+
+export function markPaymentSubmitted(
+  paymentId: string,
+  submission: { network?: string; asset?: string; amount?: string; payloadHash?: string; creditDebitId?: string }
+): Promise<X402Payment | undefined> {
+  return transitionPayment(paymentId, X402_PAYMENT_STATUS.SUBMITTED, {
+    network: submission.network ?? null,
+    asset: submission.asset ?? null,
+    amount: submission.amount ?? null,
+    payloadHash: submission.payloadHash ?? null,
+    creditDebitId: submission.creditDebitId ?? null
+  });
+}
+
+export function markPaymentVerified(paymentId: string, walletAddress?: string, executionId?: string): Promise<X402Payment | undefined> {
+  return transitionPayment(paymentId, X402_PAYMENT_STATUS.VERIFIED, {
+    ...(walletAddress && { walletAddress }),
+    ...(executionId && { executionId })
+  });
+}
+
+export function markPaymentSettled(paymentId: string, transactionSignature: string, executionId?: string): Promise<X402Payment | undefined> {
+  return transitionPayment(paymentId, X402_PAYMENT_STATUS.SETTLED, {
+    transactionSignature,
+    ...(executionId && { executionId })
+  });
+}
+
+// The transaction was sent but not seen to land before the request gave up on
+// it. The sweeper settles or fails the payment once the outcome is known.
+export function markPaymentSettling(paymentId: string, transactionSignature: string, executionId?: string): Promise<X402Payment | undefined> {
+  return transitionPayment(paymentId, X402_PAYMENT_STATUS.SETTLING, {
+    transactionSignature,
+    ...(executionId && { executionId })
+  });
+}
+
+export function markPaymentConsumed(paymentId: string, executionId: string): Promise<X402Payment | undefined> {
+  return transitionPayment(paymentId, X402_PAYMENT_STATUS.CONSUMED, { executionId });
+}
+
+export function markPaymentFailed(paymentId: string, reason: string): Promise<X402Payment | undefined> {
+  return transitionPayment(paymentId, X402_PAYMENT_STATUS.FAILED, { errorMessage: reason }, { reason });
+}
+
+// Refunds are keyed by execution, which is how the refund worker finds them.
+export async function markPaymentRefunded(executionId: string, refundId: string, refundTransaction: string): Promise<X402Payment | undefined> {
+  const payment = await storage.getX402PaymentByExecution(executionId);
+  if (!payment) return undefined;
+  return transitionPayment(payment.id, X402_PAYMENT_STATUS.REFUNDED, { refundId }, { refundTransaction });
+}
+
+// Logs something that happened to a payment without moving it, such as a
+// refund being requested for the execution it paid for.
+export async function recordPaymentEvent(
+  executionId: string,
+  type: string,
+  details: Record<string, unknown>
+): Promise<X402PaymentEvent | undefined> {
+  const payment = await storage.getX402PaymentByExecution(executionId);
+  if (!payment) return undefined;
+  return storage.recordX402PaymentEvent({
+    paymentId: payment.id,
+    type,
+    fromStatus: null,
+    toStatus: null,
+    details: describe(details) ?? null
+  });
+}
+
+// Expires payments abandoned before settlement, e.g. by a client that never
+// paid after a quote or a process that died mid-request.
+export async function expireStalePayments(now: number = Date.now()): Promise<number> {
+  const unpaid = await storage.getStaleX402Payments(
+    [X402_PAYMENT_STATUS.QUOTED, X402_PAYMENT_STATUS.SUBMITTED],
+    new Date(now - TRANSACTION_EXPIRY_MS),
+    SWEEP_BATCH_SIZE
+  );
+  const verified = await storage.getStaleX402Payments(
+    [X402_PAYMENT_STATUS.VERIFIED],
+    new Date(now - VERIFIED_EXPIRY_MS),
+    SWEEP_BATCH_SIZE
+  );
+
+  let expired = 0;
+  for (const payment of [...unpaid, ...verified]) {
+    const updated = await storage.transitionX402Payment(
+      payment.id,
+      [payment.status],
+      X402_PAYMENT_STATUS.EXPIRED,
+      {},
+      JSON.stringify({ reason: "Payment was not completed in time" })
+    );
+    if (updated) expired++;
+  }
+  return expired;
+}
+
+// Resolves settling payments by looking up their transaction. A payment that
+// landed records its signature on the execution, which already failed, so the
+// refund worker pays it back; one that never landed frees its claim so the
+// payer can present it again.
+export async function reconcileSettlingPayments(now: number = Date.now()): Promise<number> {
+  const facilitator = getFacilitator();
+  if (!facilitator.checkSettlement) return 0;
+
+  const settling = await storage.getStaleX402Payments(
+    [X402_PAYMENT_STATUS.SETTLING],
+    new Date(now - SETTLING_RECHECK_MS),
+    SWEEP_BATCH_SIZE
+  );
+
+  let resolved = 0;
+  for (const payment of settling) {
+    if (!payment.transactionSignature) continue;
+    const state = await facilitator.checkSettlement(payment.transactionSignature);
+    if (state === "pending") continue;
+
+    if (state === "settled") {
+      if (payment.payloadHash) await storage.markPaymentSettled(payment.payloadHash, payment.transactionSignature);
+      if (payment.executionId) await storage.updateAgentExecution(payment.executionId, { x402Signature: payment.transactionSignature });
+      if (await markPaymentSettled(payment.id, payment.transactionSignature)) resolved++;
+    } else {
+      if (payment.payloadHash) await storage.releasePayment(payment.payloadHash);
+      if (await markPaymentFailed(payment.id, "Settlement transaction did not land")) resolved++;
+    }
+  }
+  return resolved;
+}
+
+let sweeperStarted = false;
+
+export function startPaymentSweeper(): void {
+  if (sweeperStarted) return;
+  sweeperStarted = true;
+
+  setInterval(() => {
+    expireStalePayments()
+      .then(count => { if (count > 0) console.log(`Expired ${count} stale payments`); })
+      .catch(e => console.error("Payment expiry sweep failed:", e));
+    reconcileSettlingPayments()
+      .then(count => { if (count > 0) console.log(`Reconciled ${count} settling payments`); })
+      .catch(e => console.error("Settling payment reconciliation failed:", e));
+  }, SWEEP_INTERVAL_MS);
+}
+
+export const X402_PAYMENTS_CONFIG = {
+  quoteExpiry: TRANSACTION_EXPIRY_MS,
+  verifiedExpiry: VERIFIED_EXPIRY_MS,
+  settlingRecheck: SETTLING_RECHECK_MS,
+  sweepInterval: SWEEP_INTERVAL_MS,
+};
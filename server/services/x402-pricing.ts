@@ -0,0 +1,157 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import {
+  calculateAgentFee,
+  type AnalysisDepth,
+  type RequestPriority,
+  type X402AgentConfig,
+  type X402PricingConfig
+} from "@shared/x402";
+
+export type { AnalysisDepth, RequestPriority, X402PricingConfig };
+
+const DEFAULT_DEPTH: AnalysisDepth = "standard";
+const DEFAULT_PRIORITY: RequestPriority = "normal";
+const PRIORITIES: RequestPriority[] = ["low", "normal", "high"];
+
+export interface PricingInputs {
+  depth?: AnalysisDepth;
+  batchSize: number;
+  priority: RequestPriority;
+}
+
+export interface PriceQuote {
+  id: string;
+  agentId: string;
+  basePriceUSD: number;
+  priceUSD: number;
+  complexity: number;
+  inputs: PricingInputs;
+  // Set when a promo code lowered the price.
+  promoCode?: string;
+  discountUSD?: number;
+}
+
+function roundToMicroUSD(usd: number): number {
+  return Math.round(usd * 1_000_000) / 1_000_000;
+}
+
+export function parseBatch(value: unknown): string[] {
+  if (typeof value !== "string") return [];
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function readPricingInputs(agent: X402AgentConfig, req: Request): { inputs?: PricingInputs; error?: string } {
+  const pricing = agent.pricing || {};
+
+  const priorityHeader = req.headers["x-priority"];
+  const priority = (Array.isArray(priorityHeader) ? priorityHeader[0] : priorityHeader || DEFAULT_PRIORITY).toLowerCase();
+  if (!PRIORITIES.includes(priority as RequestPriority)) {
+    return { error: `X-Priority must be one of: ${PRIORITIES.join(", ")}` };
+  }
+
+  let depth: AnalysisDepth | undefined;
+  if (pricing.depth) {
+    const requested = typeof req.query.depth === "string" ? req.query.depth.toLowerCase() : DEFAULT_DEPTH;
+    if (pricing.depth[requested as AnalysisDepth] === undefined) {
+      return { error: `depth must be one of: ${Object.keys(pricing.depth).join(", ")}` };
+    }
+    depth = requested as AnalysisDepth;
+  }
+
+  let batchSize = 1;
+  if (pricing.batchParam) {
+    const items = parseBatch(req.query[pricing.batchParam]);
+    const maxBatchSize = pricing.maxBatchSize ?? 1;
+    if (items.length > maxBatchSize) {
+      return { error: `${pricing.batchParam} accepts at most ${maxBatchSize} comma-separated values` };
+    }
+    batchSize = Math.max(1, items.length);
+  }
+
+  return { inputs: { depth, batchSize, priority: priority as RequestPriority } };
+}
+
+// Quote ids are derived from everything that affects the price, so the same
+// request always maps to the same quote and any change in inputs changes it.
+function quoteId(agentId: string, priceUSD: number, inputs: PricingInputs): string {
+  return crypto.createHash("sha256")
+    .update(`${agentId}|${inputs.depth ?? ""}|${inputs.batchSize}|${inputs.priority}|${priceUSD}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function priceAmountRequest(agent: X402AgentConfig, req: Request): { quote?: PriceQuote; error?: string } {
+  const pricing = agent.pricing!;
+  const param = pricing.amountParam!;
+  const maxAmountUSD = pricing.maxAmountUSD ?? agent.priceUSD;
+  const amount = Number(req.query[param]);
+  if (!Number.isFinite(amount) || amount < agent.priceUSD || amount > maxAmountUSD) {
+    return { error: `${param} must be a USD amount between ${agent.priceUSD} and ${maxAmountUSD}` };
+  }
+
+  const priceUSD = roundToMicroUSD(amount);
+  const inputs: PricingInputs = { batchSize: 1, priority: DEFAULT_PRIORITY };
+  return {
+    quote: {
+      id: quoteId(agent.id, priceUSD, inputs),
+      agentId: agent.id,
+      basePriceUSD: agent.priceUSD,
+      priceUSD,
+      complexity: priceUSD / agent.priceUSD,
+      inputs
+    }
+  };
+}
+
+export function priceRequest(agent: X402AgentConfig, req: Request): { quote?: PriceQuote; error?: string } {
+  if (agent.pricing?.amountParam) return priceAmountRequest(agent, req);
+
+  const { inputs, error } = readPricingInputs(agent, req);
+  if (!inputs) return { error };
+
+  const depthMultiplier = inputs.depth ? agent.pricing!.depth![inputs.depth]! : 1;
+  const complexity = depthMultiplier * inputs.batchSize;
+  const priceUSD = roundToMicroUSD(calculateAgentFee(agent.priceUSD, complexity, inputs.priority));
+
+  return {
+    quote: {
+      id: quoteId(agent.id, priceUSD, inputs),
+      agentId: agent.id,
+      basePriceUSD: agent.priceUSD,
+      priceUSD,
+      complexity,
+      inputs
+    }
+  };
+}
+
+// Prices a call at an amount decided outside the agent config, such as the
+// pass plan being bought. `key` keeps quotes for different items apart when
+// they happen to cost the same.
+export function quoteFixedPrice(agent: X402AgentConfig, priceUSD: number, key: string): PriceQuote {
+  const inputs: PricingInputs = { batchSize: 1, priority: DEFAULT_PRIORITY };
+  const rounded = roundToMicroUSD(priceUSD);
+  return {
+    id: quoteId(`${agent.id}:${key}`, rounded, inputs),
+    agentId: agent.id,
+    basePriceUSD: rounded,
+    priceUSD: rounded,
+    complexity: 1,
+    inputs
+  };
+}
+
+// Takes a promo code's percentage off a quote. The code is part of the quote
+// id, so a payment made against the discounted quote only verifies when the
+// same code is presented again.
+export function discountQuote(quote: PriceQuote, percentOff: number, code: string): PriceQuote {
+  const priceUSD = roundToMicroUSD(quote.priceUSD * (100 - percentOff) / 100);
+  return {
+    ...quote,
+    id: crypto.createHash("sha256").update(`${quote.id}|${code}|${percentOff}`).digest("hex").slice(0, 32),
+    priceUSD,
+    promoCode: code,
+    discountUSD: roundToMicroUSD(quote.priceUSD - priceUSD)
+  };
+}
@@ -0,0 +1,107 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage";
+import type { X402PromoCode, X402PromoCodeDefinition, X402PromoRedemptionSummary } from "@shared/schema";
+import type { PriceQuote } from "./x402-pricing";
+
+export interface PromoCodeStats {
+  promo: X402PromoCode;
+  redemptions: number;
+  discountUSD: number;
+  revenueUSD: number;
+  agents: { agentId: string; redemptions: number; discountUSD: number; revenueUSD: number }[];
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function promoCodeError(promo: X402PromoCode | undefined, agentId: string, now: number): string | undefined {
+  if (!promo) return "Unknown promo code";
+  if (promo.revokedAt) return "Promo code has been revoked";
+  if (promo.expiresAt && promo.expiresAt.getTime() <= now) return "Promo code has expired";
+  if (promo.agentIds && !promo.agentIds.includes(agentId)) return `Promo code does not apply to ${agentId}`;
+  if (promo.maxRedemptions !== null && promo.redemptions >= promo.maxRedemptions) return "Promo code has been fully redeemed";
+  return undefined;
+}
+
+// Looks up an X-Promo-Code for a call to agentId. This only checks the code;
+// a redemption is taken by reservePromoRedemption once the call is paid for.
+export async function resolvePromoCode(code: string, agentId: string, now: number = Date.now()): Promise<{ promo?: X402PromoCode; error?: string }> {
+  const promo = await storage.getPromoCode(normalizePromoCode(code));
+  const error = promoCodeError(promo, agentId, now);
+  return error ? { error } : { promo };
+}
+
+// Holds one redemption of the code for this call. The redemption is recorded
+// if the call succeeds and handed back otherwise, including when payment
+// fails, so maxRedemptions only counts calls that were actually served.
+export async function reservePromoRedemption(req: Request, res: Response, quote: PriceQuote): Promise<boolean> {
+  const code = quote.promoCode!;
+  const reserved = await storage.reservePromoRedemption(code, new Date());
+  if (!reserved) return false;
+
+  res.on("finish", () => {
+    const payment = req.x402Payment;
+    const served = payment && res.statusCode >= 200 && res.statusCode < 300;
+    const settle = served
+      ? storage.recordPromoRedemption({
+        code,
+        agentId: quote.agentId,
+        walletAddress: payment.payer || null,
+        priceUsd: quote.priceUSD,
+        discountUsd: quote.discountUSD ?? 0,
+        executionId: payment.executionId || null
+      })
+      : storage.releasePromoRedemption(code);
+    settle.catch(e => console.error(`Failed to settle promo code ${code}:`, e));
+  });
+  return true;
+}
+
+export function getPromoCodes(): Promise<X402PromoCode[]> {
+  return storage.getPromoCodes();
+}
+
+export function createPromoCode(definition: X402PromoCodeDefinition): Promise<X402PromoCode | undefined> {
+  return storage.createPromoCode({
+    code: definition.code,
+    description: definition.description ?? null,
+    agentIds: definition.agentIds ?? null,
+    percentOff: definition.percentOff,
+    maxRedemptions: definition.maxRedemptions ?? null,
+    expiresAt: definition.expiresAt ?? null
+  });
+}
+
+export function revokePromoCode(code: string): Promise<X402PromoCode | undefined> {
+  return storage.revokePromoCode(normalizePromoCode(code));
+}
+
+export async function getPromoCodeStats(code?: string): Promise<PromoCodeStats[]> {
+  const normalized = code ? normalizePromoCode(code) : undefined;
+  const [promos, summaries] = await Promise.all([
+    normalized ? storage.getPromoCode(normalized).then(promo => promo ? [promo] : []) : storage.getPromoCodes(),
+    storage.summarizePromoRedemptions(normalized)
+  ]);
+
+  const byCode = new Map<string, X402PromoRedemptionSummary[]>();
+  for (const summary of summaries) {
+    byCode.set(summary.code, [...(byCode.get(summary.code) || []), summary]);
+  }
+
+  return promos.map(promo => {
+    const agents = (byCode.get(promo.code) || []).map(summary => ({
+      agentId: summary.agentId,
+      redemptions: summary.redemptions,
+      discountUSD: summary.discountUsd,
+      revenueUSD: summary.revenueUsd
+    }));
+    return {
+      promo,
+      redemptions: agents.reduce((total, agent) => total + agent.redemptions, 0),
+      discountUSD: agents.reduce((total, agent) => total + agent.discountUSD, 0),
+      revenueUSD: agents.reduce((total, agent) => total + agent.revenueUSD, 0),
+      agents
+    };
+  });
+}
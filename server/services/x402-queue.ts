@@ -7,23 +7,31 @@ const BATCH_INTERVAL_MS = 5000;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 2000;
 
-type PaymentPriority = "low" | "normal" | "high" | "critical";
+export type PaymentPriority = "low" | "normal" | "high" | "critical";
+export type PaymentKind = "refund" | "payout";
 
-interface QueuedPayment {
+export interface QueuedPayment {
   id: string;
+  kind: PaymentKind;
+  referenceId?: string;
   walletAddress: string;
   agentId: string;
   amount: number;
+  asset?: string;
   priority: PaymentPriority;
   createdAt: number;
+  availableAt: number;
   processedAt?: number;
   status: "pending" | "processing" | "completed" | "failed";
   retryCount: number;
   errorMessage?: string;
   batchId?: string;
+  // Signature of a transfer that was sent but never confirmed. Retries check
+  // it before sending again.
+  pendingTransaction?: string;
 }
 
-interface PaymentBatch {
+export interface PaymentBatch {
   id: string;
   payments: string[];
   totalAmount: number;
@@ -32,9 +40,17 @@ interface PaymentBatch {
   status: "pending" | "processing" | "completed" | "partial" | "failed";
   successCount: number;
   failureCount: number;
+  // Payments that failed here but went back on the queue for a later batch.
+  retryCount: number;
+}
+
+export interface EnqueueOptions {
+  kind?: PaymentKind;
+  referenceId?: string;
+  asset?: string;
 }
 
-interface QueueMetrics {
+export interface QueueMetrics {
   totalQueued: number;
   totalProcessed: number;
   totalFailed: number;
@@ -76,19 +92,25 @@ export function enqueuePayment(
   walletAddress: string,
   agentId: string,
   amount: number,
-  priority: PaymentPriority = "normal"
+  priority: PaymentPriority = "normal",
+  options: EnqueueOptions = {}
 ): QueuedPayment | null {
   if (paymentQueue.length >= MAX_QUEUE_SIZE) {
     return null;
   }
 
+  const now = Date.now();
   const payment: QueuedPayment = {
     id: generatePaymentId(),
+    kind: options.kind || "payout",
+    referenceId: options.referenceId,
     walletAddress,
     agentId,
     amount,
+    asset: options.asset,
     priority,
-    createdAt: Date.now(),
+    createdAt: now,
+    availableAt: now,
     status: "pending",
     retryCount: 0,
   };
@@ -120,12 +142,26 @@ export function getPaymentStatus(paymentId: string): QueuedPayment | null {
   return paymentMap.get(paymentId) || null;
 }
 
+export function findQueuedPayment(kind: PaymentKind, referenceId: string): QueuedPayment | null {
+  const payments = Array.from(paymentMap.values());
+  return payments.find(p =>
+    p.kind === kind && p.referenceId === referenceId && (p.status === "pending" || p.status === "processing")
+  ) || null;
+}
+
+// Payments waiting out a retry delay keep their place in the queue.
 export function dequeuePayments(count: number = BATCH_SIZE): QueuedPayment[] {
   const payments: QueuedPayment[] = [];
-  
-  while (payments.length < count && paymentQueue.length > 0) {
-    const payment = paymentQueue.shift();
-    if (payment && payment.status === "pending") {
+  const now = Date.now();
+
+  for (let i = 0; i < paymentQueue.length && payments.length < count;) {
+    const payment = paymentQueue[i];
+    if (payment.status !== "pending") {
+      paymentQueue.splice(i, 1);
+    } else if (payment.availableAt > now) {
+      i++;
+    } else {
+      paymentQueue.splice(i, 1);
       payment.status = "processing";
       payments.push(payment);
     }
@@ -145,9 +181,10 @@ export function createBatch(): PaymentBatch | null {
     payments: payments.map(p => p.id),
     totalAmount: payments.reduce((sum, p) => sum + p.amount, 0),
     createdAt: Date.now(),
-    status: "pending",
+    status: "processing",
     successCount: 0,
     failureCount: 0,
+    retryCount: 0,
   };
 
   for (const payment of payments) {
@@ -182,29 +219,35 @@ export function markPaymentCompleted(paymentId: string): boolean {
   return true;
 }
 
-export function markPaymentFailed(paymentId: string, errorMessage: string): boolean {
+// Re-queues the payment with a growing delay until MAX_RETRIES attempts have
+// failed. Pass retryable = false for errors another attempt cannot fix.
+export function markPaymentFailed(paymentId: string, errorMessage: string, retryable: boolean = true): boolean {
   const payment = paymentMap.get(paymentId);
   
   if (!payment) return false;
 
   payment.retryCount++;
   payment.errorMessage = errorMessage;
+  const batch = payment.batchId ? batchHistory.get(payment.batchId) : undefined;
 
-  if (payment.retryCount < MAX_RETRIES) {
+  if (retryable && payment.retryCount < MAX_RETRIES) {
     payment.status = "pending";
+    payment.availableAt = Date.now() + RETRY_DELAY_MS * payment.retryCount;
     const insertIndex = findInsertIndex(payment);
     paymentQueue.splice(insertIndex, 0, payment);
     queueMetrics.currentQueueSize = paymentQueue.length;
+
+    if (batch) {
+      batch.retryCount++;
+      updateBatchStatus(batch);
+    }
   } else {
     payment.status = "failed";
     queueMetrics.totalFailed++;
     
-    if (payment.batchId) {
-      const batch = batchHistory.get(payment.batchId);
-      if (batch) {
-        batch.failureCount++;
-        updateBatchStatus(batch);
-      }
+    if (batch) {
+      batch.failureCount++;
+      updateBatchStatus(batch);
     }
   }
 
@@ -212,13 +255,13 @@ export function markPaymentFailed(paymentId: string, errorMessage: string): bool
 }
 
 function updateBatchStatus(batch: PaymentBatch): void {
-  const totalProcessed = batch.successCount + batch.failureCount;
+  const totalProcessed = batch.successCount + batch.failureCount + batch.retryCount;
   const totalPayments = batch.payments.length;
 
   if (totalProcessed === totalPayments) {
     batch.processedAt = Date.now();
     
-    if (batch.failureCount === 0) {
+    if (batch.successCount === totalPayments) {
       batch.status = "completed";
     } else if (batch.successCount === 0) {
       batch.status = "failed";
@@ -264,6 +307,11 @@ export function clearCompletedPayments(): number {
     paymentMap.delete(id);
   }
 
+  const batches = Array.from(batchHistory.values());
+  for (const batch of batches) {
+    if (batch.processedAt) batchHistory.delete(batch.id);
+  }
+
   return cleared;
 }
 
@@ -27,7 +27,7 @@ interface UsageRecord {
   success: boolean;
 }
 
-interface WalletUsageStats {
+export interface WalletUsageStats {
   walletAddress: string;
   totalRequests: number;
   totalPayments: number;
@@ -316,6 +316,9 @@ export function cleanupOldData(maxAgeMs: number = 3600000): number {
   return cleaned;
 }
 
+// Housekeeping only, so it does not keep the process alive on its own.
+setInterval(() => cleanupOldData(), WINDOW_SIZE_MS * 5).unref();
+
 export const X402_RATELIMIT_CONFIG = {
   version: X402_PROTOCOL_VERSION,
   windowSize: WINDOW_SIZE_MS,
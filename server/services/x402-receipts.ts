@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { Keypair } from "@solana/web3.js";
+import { storage } from "../storage";
+import { encodeBase58 } from "@shared/base58";
+import { X402_PAYMENT_STATUS } from "@shared/x402";
+import {
+  X402_RECEIPT_VERSION,
+  receiptSigningMessage,
+  type X402CallReceipt,
+  type X402SignedReceipt
+} from "@shared/x402-receipts";
+import type { X402Payment } from "@shared/schema";
+
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+// Payments the payer was charged for. Refunded payments keep their receipt so
+// the refund can be reconciled against it.
+const RECEIPTED_STATUSES: string[] = [
+  X402_PAYMENT_STATUS.SETTLED,
+  X402_PAYMENT_STATUS.CONSUMED,
+  X402_PAYMENT_STATUS.REFUNDED
+];
+
+interface ReceiptSigner {
+  publicKey: string;
+  privateKey: crypto.KeyObject;
+}
+
+function resolveReceiptKeypair(): Keypair {
+  const secret = process.env.X402_RECEIPT_SECRET_KEY;
+  if (secret) {
+    try {
+      return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)));
+    } catch (e) {
+      console.error("Invalid X402_RECEIPT_SECRET_KEY, expected a JSON byte array:", e);
+    }
+  }
+  console.warn("X402_RECEIPT_SECRET_KEY is not set; receipts issued before a restart will not verify against the new key");
+  return Keypair.generate();
+}
+
+function createReceiptSigner(): ReceiptSigner {
+  const keypair = resolveReceiptKeypair();
+  return {
+    publicKey: keypair.publicKey.toBase58(),
+    privateKey: crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(keypair.secretKey.slice(0, 32))]),
+      format: "der",
+      type: "pkcs8"
+    })
+  };
+}
+
+const signer = createReceiptSigner();
+
+export function getReceiptPublicKey(): string {
+  return signer.publicKey;
+}
+
+export function isReceiptable(payment: X402Payment): boolean {
+  return RECEIPTED_STATUSES.includes(payment.status) && !!payment.walletAddress && !!payment.transactionSignature;
+}
+
+export function signReceipt(receipt: X402CallReceipt): X402SignedReceipt {
+  const signature = crypto.sign(null, Buffer.from(receiptSigningMessage(receipt)), signer.privateKey);
+  return { receipt, signature: encodeBase58(signature) };
+}
+
+export function buildReceipt(payment: X402Payment, issuedAt: Date = new Date()): X402CallReceipt {
+  return {
+    version: X402_RECEIPT_VERSION,
+    paymentId: payment.id,
+    executionId: payment.executionId,
+    walletAddress: payment.walletAddress!,
+    agentId: payment.agentId,
+    resource: payment.resource,
+    status: payment.status,
+    amountUSD: payment.amountUsd,
+    network: payment.network,
+    asset: payment.asset,
+    amount: payment.amount,
+    transaction: payment.transactionSignature!,
+    paidAt: (payment.createdAt ?? issuedAt).toISOString(),
+    issuedAt: issuedAt.toISOString(),
+    issuer: signer.publicKey
+  };
+}
+
+// Receipts are only issued to the wallet that paid, so a payment with no
+// known payer is treated as not found.
+export async function getReceiptPayment(paymentId: string): Promise<X402Payment | undefined> {
+  const payment = await storage.getX402Payment(paymentId);
+  return payment?.walletAddress ? payment : undefined;
+}
+
+// Issues a receipt for one paid call. Receipts are signed on demand rather
+// than stored, so the status always reflects the payment as it is now.
+export function issueReceipt(payment: X402Payment): { receipt?: X402SignedReceipt; error?: string; status?: number } {
+  if (!isReceiptable(payment)) {
+    return { error: `Payment is ${payment.status}; receipts are issued once a payment settles`, status: 409 };
+  }
+  return { receipt: signReceipt(buildReceipt(payment)) };
+}
@@ -0,0 +1,174 @@
+import { storage } from "../storage";
+import { AGENT_EXECUTION_STATUS, X402_REFUND_STATUS, type AgentExecution, type X402Refund } from "@shared/schema";
+import { enqueuePayment, findQueuedPayment, type QueuedPayment } from "./x402-queue";
+import { registerPaymentHandler, X402_BATCH_PROCESSOR_CONFIG, type OutboundPaymentHandler } from "./x402-batch-processor";
+import { notifyPaymentRefunded } from "./x402-webhook";
+import { usdToMicroUSDC } from "./x402";
+import { getAsset } from "./x402-assets";
+import { markPaymentRefunded, recordPaymentEvent } from "./x402-payments";
+import { recoverInterruptedExecutions } from "./x402-ledger";
+
+const REFUND_SCAN_INTERVAL_MS = 30000;
+const REFUND_SCAN_BATCH_SIZE = 50;
+
+function describeFailure(execution: AgentExecution): string {
+  if (execution.status === "timeout") {
+    return execution.errorMessage || "Execution timed out after payment";
+  }
+  return execution.errorMessage || "Execution failed after payment";
+}
+
+async function enqueueRefund(refund: X402Refund): Promise<void> {
+  const queued = enqueuePayment(refund.walletAddress, refund.agentId, refund.amount, "high", {
+    kind: "refund",
+    referenceId: refund.id,
+    asset: refund.asset
+  });
+  if (!queued) {
+    console.warn(`Payment queue is full, refund ${refund.id} will be retried on the next scan`);
+    return;
+  }
+  await storage.updateRefund(refund.id, { queuePaymentId: queued.id });
+}
+
+// Refunds return the USD value charged as USDC, whichever asset paid for the call.
+export async function createRefundForExecution(execution: AgentExecution): Promise<X402Refund | undefined> {
+  if (!execution.x402Signature || !execution.walletAddress) return undefined;
+
+  const refund = await storage.createRefund({
+    executionId: execution.id,
+    agentId: execution.agentId,
+    resource: execution.resource,
+    walletAddress: execution.walletAddress,
+    amount: execution.paymentAmount || 0,
+    asset: getAsset("USDC")!.address,
+    originalTransaction: execution.x402Signature,
+    reason: describeFailure(execution),
+    status: X402_REFUND_STATUS.PENDING,
+  });
+  if (!refund) return undefined;
+
+  await recordPaymentEvent(execution.id, "refund_requested", { refundId: refund.id, reason: refund.reason });
+  await enqueueRefund(refund);
+  return refund;
+}
+
+// Finds paid executions that failed or timed out and have no refund yet, and
+// re-queues pending refunds the in-memory queue lost across a restart. Refunds
+// left in "processing" by a crash are not retried automatically, since the
+// transfer may already have landed.
+export async function scanForRefunds(): Promise<number> {
+  const executions = await storage.getRefundableExecutions(REFUND_SCAN_BATCH_SIZE);
+  let created = 0;
+  for (const execution of executions) {
+    if (await createRefundForExecution(execution)) created++;
+  }
+
+  const pending = await storage.getRefunds({ status: X402_REFUND_STATUS.PENDING, limit: REFUND_SCAN_BATCH_SIZE });
+  for (const refund of pending) {
+    if (!findQueuedPayment("refund", refund.id)) await enqueueRefund(refund);
+  }
+
+  return created;
+}
+
+// The batch processor sends refunds; these hooks keep the refund records and
+// webhooks in step with each attempt.
+const refundPaymentHandler: OutboundPaymentHandler = {
+  async prepare(payment: QueuedPayment): Promise<boolean> {
+    const refund = payment.referenceId ? await storage.getRefund(payment.referenceId) : undefined;
+    if (!refund || refund.status === X402_REFUND_STATUS.COMPLETED) return false;
+
+    // A timed-out call can still finish and deliver its output after the
+    // refund was queued. Unless a transfer is already in flight, it is dropped.
+    const execution = await storage.getAgentExecution(refund.executionId);
+    if (execution?.status === AGENT_EXECUTION_STATUS.COMPLETED && !payment.pendingTransaction) {
+      await storage.updateRefund(refund.id, {
+        status: X402_REFUND_STATUS.FAILED,
+        errorMessage: "Execution completed after the refund was requested",
+        completedAt: new Date(),
+      });
+      await recordPaymentEvent(refund.executionId, "refund_cancelled", { refundId: refund.id });
+      return false;
+    }
+    await storage.updateRefund(refund.id, {
+      status: X402_REFUND_STATUS.PROCESSING,
+      queuePaymentId: payment.id,
+      attempts: (refund.attempts || 0) + 1,
+    });
+    return true;
+  },
+
+  async onCompleted(payment: QueuedPayment, refundTransaction: string): Promise<void> {
+    const refund = await storage.updateRefund(payment.referenceId!, {
+      status: X402_REFUND_STATUS.COMPLETED,
+      refundTransaction,
+      errorMessage: null,
+      completedAt: new Date(),
+    });
+    if (!refund) return;
+
+    await markPaymentRefunded(refund.executionId, refund.id, refundTransaction);
+    notifyPaymentRefunded(
+      refund.id,
+      refundTransaction,
+      refund.originalTransaction,
+      refund.walletAddress,
+      usdToMicroUSDC(refund.amount),
+      refund.asset,
+      refund.agentId,
+      refund.resource || "",
+      refund.reason
+    );
+    console.log(`Refund ${refund.id} sent: ${refundTransaction}`);
+  },
+
+  async onFailed(payment: QueuedPayment, errorMessage: string, exhausted: boolean): Promise<void> {
+    // A transfer that may have landed keeps the refund processing, which the
+    // scan never re-queues; once retries run out it waits for reconciliation.
+    if (payment.pendingTransaction) {
+      const refund = await storage.updateRefund(payment.referenceId!, {
+        status: X402_REFUND_STATUS.PROCESSING,
+        refundTransaction: payment.pendingTransaction,
+        errorMessage,
+      });
+      if (refund && exhausted) {
+        await recordPaymentEvent(refund.executionId, "refund_unconfirmed", { refundId: refund.id, refundTransaction: payment.pendingTransaction, errorMessage });
+      }
+      return;
+    }
+
+    const refund = await storage.updateRefund(payment.referenceId!, {
+      status: exhausted ? X402_REFUND_STATUS.FAILED : X402_REFUND_STATUS.PENDING,
+      errorMessage,
+      completedAt: exhausted ? new Date() : null,
+    });
+    if (refund && exhausted) {
+      await recordPaymentEvent(refund.executionId, "refund_failed", { refundId: refund.id, errorMessage });
+    }
+  },
+};
+
+let workerStarted = false;
+
+export function startRefundWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  registerPaymentHandler("refund", refundPaymentHandler);
+
+  // Executions a restart cut short are timed out first, so the scans below
+  // refund the ones that were already paid for.
+  recoverInterruptedExecutions()
+    .then(count => { if (count > 0) console.warn(`Timed out ${count} executions interrupted by a restart`); })
+    .catch(e => console.error("Failed to recover interrupted executions:", e));
+
+  setInterval(() => {
+    scanForRefunds().catch(e => console.error("Refund scan failed:", e));
+  }, REFUND_SCAN_INTERVAL_MS);
+}
+
+export const X402_REFUND_CONFIG = {
+  scanInterval: REFUND_SCAN_INTERVAL_MS,
+  processInterval: X402_BATCH_PROCESSOR_CONFIG.interval,
+};
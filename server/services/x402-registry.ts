@@ -1,11 +1,26 @@
-import { MODEXO_AGENTS, X402AgentConfig } from "./x402";
+import { storage } from "../storage";
+import {
+  X402_AGENT_STATUS,
+  type InsertX402Agent,
+  type X402Agent,
+  type X402AgentUpdate,
+  type X402AgentDefinition,
+  type X402AgentVersion
+} from "@shared/schema";
+import { MODEXO_AGENTS, type X402AgentConfig } from "./x402";
+
+const REGISTRY_SYNC_INTERVAL_MS = 30000;
+const MAINTENANCE_RETRY_AFTER_SECONDS = 300;
+
+export type AgentStatus = typeof X402_AGENT_STATUS[keyof typeof X402_AGENT_STATUS];
 
 interface AgentRegistration {
   agentId: string;
   registeredAt: Date;
   lastUpdated: Date;
-  status: "active" | "inactive" | "maintenance";
+  status: AgentStatus;
   version: string;
+  retiredAt?: Date;
   healthCheck: {
     lastCheck: Date;
     healthy: boolean;
@@ -13,7 +28,7 @@ interface AgentRegistration {
   };
 }
 
-interface RegistryEntry {
+export interface RegistryEntry {
   config: X402AgentConfig;
   registration: AgentRegistration;
   metadata: {
@@ -23,34 +38,13 @@ interface RegistryEntry {
   };
 }
 
+// In-memory view of the x402_agents table. Request paths read it synchronously;
+// writes go to the database first and then replace the cached entry.
 const agentRegistry: Map<string, RegistryEntry> = new Map();
+let loadedFromDatabase = false;
 
-export function initializeRegistry(): void {
-  for (const agent of MODEXO_AGENTS) {
-    const entry: RegistryEntry = {
-      config: agent,
-      registration: {
-        agentId: agent.id,
-        registeredAt: new Date(),
-        lastUpdated: new Date(),
-        status: "active",
-        version: "1.0.0",
-        healthCheck: {
-          lastCheck: new Date(),
-          healthy: true,
-          responseTime: 0
-        }
-      },
-      metadata: {
-        category: getCategoryForAgent(agent.id),
-        tags: getTagsForAgent(agent.id),
-        documentation: getDocsUrl(agent.id)
-      }
-    };
-    agentRegistry.set(agent.id, entry);
-  }
-}
-
+// Category, tags and docs for the built-in agents when they are first seeded.
+// After that the stored values are authoritative and editable via the admin API.
 function getCategoryForAgent(agentId: string): string {
   if (agentId.includes("portfolio") || agentId.includes("entry")) {
     return "Trading";
@@ -78,36 +72,282 @@ function getDocsUrl(agentId: string): string {
   return `https://docs.modexo.org/agents/${agentId}`;
 }
 
+function parseJson<T>(value: string | null): T | undefined {
+  return value ? JSON.parse(value) as T : undefined;
+}
+
+function stringifyJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function builtInRow(agent: X402AgentConfig): InsertX402Agent {
+  return {
+    id: agent.id,
+    name: agent.name,
+    description: agent.description,
+    resource: agent.resource,
+    method: agent.method,
+    priceUsd: agent.priceUSD,
+    inputSchema: stringifyJson(agent.inputSchema),
+    outputSchema: stringifyJson(agent.outputSchema),
+    pricing: stringifyJson(agent.pricing),
+    probe: stringifyJson(agent.probe),
+    category: getCategoryForAgent(agent.id),
+    tags: getTagsForAgent(agent.id),
+    documentation: getDocsUrl(agent.id),
+    status: X402_AGENT_STATUS.ACTIVE,
+    version: "1.0.0"
+  };
+}
+
+function toEntry(row: X402Agent | InsertX402Agent & Partial<X402Agent>): RegistryEntry {
+  const now = new Date();
+  const previous = agentRegistry.get(row.id);
+  return {
+    config: {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      priceUSD: row.priceUsd,
+      resource: row.resource,
+      method: (row.method || "GET") as X402AgentConfig["method"],
+      inputSchema: parseJson(row.inputSchema ?? null),
+      outputSchema: parseJson(row.outputSchema ?? null),
+      pricing: parseJson(row.pricing ?? null),
+      probe: parseJson(row.probe ?? null)
+    },
+    registration: {
+      agentId: row.id,
+      registeredAt: row.createdAt || now,
+      lastUpdated: row.updatedAt || now,
+      status: (row.status || X402_AGENT_STATUS.ACTIVE) as AgentStatus,
+      version: row.version || "1.0.0",
+      retiredAt: row.retiredAt || undefined,
+      healthCheck: previous?.registration.healthCheck || {
+        lastCheck: now,
+        healthy: true,
+        responseTime: 0
+      }
+    },
+    metadata: {
+      category: row.category || "Utility",
+      tags: row.tags || [],
+      documentation: row.documentation || undefined
+    }
+  };
+}
+
+// The JSON recorded in x402_agent_versions for each published version.
+function snapshotEntry(entry: RegistryEntry): string {
+  return JSON.stringify({
+    config: entry.config,
+    status: entry.registration.status,
+    metadata: entry.metadata
+  });
+}
+
+// Until the database has been read, serve the built-in definitions so the
+// middleware works during startup (and if the database is unreachable).
+function registry(): Map<string, RegistryEntry> {
+  if (agentRegistry.size === 0 && !loadedFromDatabase) {
+    for (const agent of MODEXO_AGENTS) {
+      agentRegistry.set(agent.id, toEntry(builtInRow(agent)));
+    }
+  }
+  return agentRegistry;
+}
+
+async function reloadRegistry(): Promise<void> {
+  const rows = await storage.getX402Agents();
+  const entries = rows.map(toEntry);
+  agentRegistry.clear();
+  for (const entry of entries) {
+    agentRegistry.set(entry.config.id, entry);
+  }
+  loadedFromDatabase = true;
+}
+
+// Seeds the built-in agents that are not in the database yet, then loads
+// every registered agent.
+export async function initializeRegistry(): Promise<void> {
+  const rows = MODEXO_AGENTS.map(builtInRow);
+  const snapshots = Object.fromEntries(rows.map(row => [row.id, snapshotEntry(toEntry(row))]));
+  await storage.seedX402Agents(rows, snapshots);
+  await reloadRegistry();
+}
+
+let syncStarted = false;
+
+export function startRegistrySync(): void {
+  if (syncStarted) return;
+  syncStarted = true;
+  setInterval(() => {
+    reloadRegistry().catch(e => console.error("Agent registry sync failed:", e));
+  }, REGISTRY_SYNC_INTERVAL_MS);
+}
+
 export function getAgent(agentId: string): RegistryEntry | undefined {
-  return agentRegistry.get(agentId);
+  return registry().get(agentId);
 }
 
 export function getAllAgents(): RegistryEntry[] {
-  return Array.from(agentRegistry.values());
+  return Array.from(registry().values());
+}
+
+export function isRetired(entry: RegistryEntry): boolean {
+  return Boolean(entry.registration.retiredAt);
+}
+
+// Every agent that has not been retired, whatever its status.
+export function getListedAgents(): RegistryEntry[] {
+  return getAllAgents().filter(entry => !isRetired(entry));
 }
 
 export function getActiveAgents(): RegistryEntry[] {
-  return getAllAgents().filter(entry => entry.registration.status === "active");
+  return getListedAgents().filter(entry => entry.registration.status === X402_AGENT_STATUS.ACTIVE);
+}
+
+export function getAgentConfig(agentId: string): X402AgentConfig | undefined {
+  const entry = getAgent(agentId);
+  return entry && !isRetired(entry) ? entry.config : undefined;
+}
+
+export function getAgentConfigByResource(resource: string): X402AgentConfig | undefined {
+  return getListedAgents().find(entry => entry.config.resource === resource)?.config;
+}
+
+// Whether the agent may take a payment right now, and if not, how to answer.
+export function getAgentAvailability(agentId: string): {
+  available: boolean;
+  statusCode?: number;
+  error?: string;
+  retryAfter?: number;
+} {
+  const entry = getAgent(agentId);
+  if (!entry) {
+    return { available: false, statusCode: 404, error: "Agent not found" };
+  }
+  if (isRetired(entry)) {
+    return { available: false, statusCode: 410, error: "Agent has been retired" };
+  }
+  if (entry.registration.status === X402_AGENT_STATUS.MAINTENANCE) {
+    return {
+      available: false,
+      statusCode: 503,
+      error: "Agent is under maintenance",
+      retryAfter: MAINTENANCE_RETRY_AFTER_SECONDS
+    };
+  }
+  if (entry.registration.status === X402_AGENT_STATUS.INACTIVE) {
+    return { available: false, statusCode: 503, error: "Agent is currently inactive" };
+  }
+  return { available: true };
 }
 
 export function getAgentsByCategory(category: string): RegistryEntry[] {
-  return getAllAgents().filter(entry => entry.metadata.category === category);
+  return getListedAgents().filter(entry => entry.metadata.category === category);
 }
 
 export function getAgentsByTag(tag: string): RegistryEntry[] {
-  return getAllAgents().filter(entry => entry.metadata.tags.includes(tag));
+  return getListedAgents().filter(entry => entry.metadata.tags.includes(tag));
 }
 
-export function updateAgentStatus(agentId: string, status: "active" | "inactive" | "maintenance"): boolean {
-  const entry = agentRegistry.get(agentId);
-  if (!entry) return false;
-  entry.registration.status = status;
-  entry.registration.lastUpdated = new Date();
-  return true;
+function toRowUpdates(updates: X402AgentUpdate): Partial<X402Agent> {
+  const row: Partial<X402Agent> = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.description !== undefined) row.description = updates.description;
+  if (updates.priceUSD !== undefined) row.priceUsd = updates.priceUSD;
+  if (updates.inputSchema !== undefined) row.inputSchema = stringifyJson(updates.inputSchema);
+  if (updates.outputSchema !== undefined) row.outputSchema = stringifyJson(updates.outputSchema);
+  if (updates.pricing !== undefined) row.pricing = stringifyJson(updates.pricing);
+  if (updates.probe !== undefined) row.probe = stringifyJson(updates.probe);
+  if (updates.category !== undefined) row.category = updates.category;
+  if (updates.tags !== undefined) row.tags = updates.tags;
+  if (updates.documentation !== undefined) row.documentation = updates.documentation;
+  if (updates.status !== undefined) row.status = updates.status;
+  return row;
+}
+
+function cache(row: X402Agent): RegistryEntry {
+  const entry = toEntry(row);
+  agentRegistry.set(entry.config.id, entry);
+  return entry;
+}
+
+export async function createAgent(definition: X402AgentDefinition): Promise<{ entry?: RegistryEntry; error?: string }> {
+  if (getAgentConfigByResource(definition.resource)) {
+    return { error: `Resource ${definition.resource} is already served by another agent` };
+  }
+
+  const row: InsertX402Agent = {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    resource: definition.resource,
+    method: definition.method,
+    priceUsd: definition.priceUSD,
+    inputSchema: stringifyJson(definition.inputSchema),
+    outputSchema: stringifyJson(definition.outputSchema),
+    pricing: stringifyJson(definition.pricing),
+    probe: stringifyJson(definition.probe),
+    category: definition.category || "Utility",
+    tags: definition.tags || ["x402", "solana"],
+    documentation: definition.documentation || getDocsUrl(definition.id),
+    status: definition.status,
+    version: definition.version
+  };
+
+  const created = await storage.createX402Agent(row, snapshotEntry(toEntry(row)));
+  if (!created) {
+    return { error: `Agent ${definition.id} or resource ${definition.resource} already exists` };
+  }
+  return { entry: cache(created) };
+}
+
+// Edits the current version in place; use publishAgentVersion to record a
+// change as a new version.
+export async function updateAgent(agentId: string, updates: X402AgentUpdate): Promise<RegistryEntry | undefined> {
+  const updated = await storage.updateX402Agent(agentId, toRowUpdates(updates));
+  return updated ? cache(updated) : undefined;
+}
+
+export async function publishAgentVersion(
+  agentId: string,
+  version: string,
+  updates: X402AgentUpdate
+): Promise<{ entry?: RegistryEntry; error?: string }> {
+  const current = await storage.getX402Agent(agentId);
+  if (!current) {
+    return { error: "Agent not found" };
+  }
+
+  const row = { ...toRowUpdates(updates), version };
+  const preview = toEntry({ ...current, ...row });
+  const published = await storage.publishX402AgentVersion(agentId, row, snapshotEntry(preview));
+  if (!published) {
+    return { error: `Version ${version} already exists for ${agentId}` };
+  }
+  return { entry: cache(published) };
+}
+
+export async function retireAgent(agentId: string): Promise<RegistryEntry | undefined> {
+  const retired = await storage.updateX402Agent(agentId, {
+    status: X402_AGENT_STATUS.INACTIVE,
+    retiredAt: new Date()
+  });
+  return retired ? cache(retired) : undefined;
+}
+
+export async function getAgentVersions(agentId: string): Promise<X402AgentVersion[]> {
+  return storage.getX402AgentVersions(agentId);
+}
+
+export async function updateAgentStatus(agentId: string, status: AgentStatus): Promise<boolean> {
+  return Boolean(await updateAgent(agentId, { status }));
 }
 
 export function updateHealthCheck(agentId: string, healthy: boolean, responseTime: number): boolean {
-  const entry = agentRegistry.get(agentId);
+  const entry = registry().get(agentId);
   if (!entry) return false;
   entry.registration.healthCheck = {
     lastCheck: new Date(),
@@ -122,21 +362,24 @@ export function getRegistryStats(): {
   active: number;
   inactive: number;
   maintenance: number;
+  retired: number;
   healthy: number;
 } {
   const all = getAllAgents();
+  const listed = all.filter(e => !isRetired(e));
   return {
     total: all.length,
-    active: all.filter(e => e.registration.status === "active").length,
-    inactive: all.filter(e => e.registration.status === "inactive").length,
-    maintenance: all.filter(e => e.registration.status === "maintenance").length,
-    healthy: all.filter(e => e.registration.healthCheck.healthy).length
+    active: listed.filter(e => e.registration.status === X402_AGENT_STATUS.ACTIVE).length,
+    inactive: listed.filter(e => e.registration.status === X402_AGENT_STATUS.INACTIVE).length,
+    maintenance: listed.filter(e => e.registration.status === X402_AGENT_STATUS.MAINTENANCE).length,
+    retired: all.length - listed.length,
+    healthy: listed.filter(e => e.registration.healthCheck.healthy).length
   };
 }
 
 export function searchAgents(query: string): RegistryEntry[] {
   const lowerQuery = query.toLowerCase();
-  return getAllAgents().filter(entry => {
+  return getListedAgents().filter(entry => {
     const config = entry.config;
     return (
       config.id.toLowerCase().includes(lowerQuery) ||
@@ -148,9 +391,9 @@ export function searchAgents(query: string): RegistryEntry[] {
 }
 
 export function getAgentManifest(agentId: string): object | null {
-  const entry = agentRegistry.get(agentId);
+  const entry = registry().get(agentId);
   if (!entry) return null;
-  
+
   return {
     id: entry.config.id,
     name: entry.config.name,
@@ -167,7 +410,7 @@ export function getAgentManifest(agentId: string): object | null {
 }
 
 export function exportRegistry(): string {
-  const manifests = getAllAgents().map(entry => getAgentManifest(entry.config.id));
+  const manifests = getListedAgents().map(entry => getAgentManifest(entry.config.id));
   return JSON.stringify({
     platform: "MODEXO",
     protocol: "x402",
@@ -177,4 +420,7 @@ export function exportRegistry(): string {
   }, null, 2);
 }
 
-initializeRegistry();
+export const X402_REGISTRY_CONFIG = {
+  syncInterval: REGISTRY_SYNC_INTERVAL_MS,
+  maintenanceRetryAfter: MAINTENANCE_RETRY_AFTER_SECONDS,
+};
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import type { X402IdempotencyRecord } from "@shared/schema";
+import { hashPaymentPayload, claimPayment, consumeClaim, releaseClaim, lookupIdempotentRequest } from "./x402-replay";
+
+function stubClaims(): Map<string, { transactionSignature?: string }> {
+  const claims = new Map<string, { transactionSignature?: string }>();
+  Object.assign(storage, {
+    claimPayment: async (payment: { payloadHash: string }) => {
+      if (claims.has(payment.payloadHash)) return undefined;
+      claims.set(payment.payloadHash, {});
+      return payment;
+    },
+    markPaymentSettled: async (payloadHash: string, transactionSignature: string) => {
+      const claim = claims.get(payloadHash);
+      if (claim) claim.transactionSignature = transactionSignature;
+      return claim;
+    },
+    releasePayment: async (payloadHash: string) => { claims.delete(payloadHash); }
+  });
+  return claims;
+}
+
+function stubIdempotencyRecord(record: Partial<X402IdempotencyRecord> | undefined) {
+  Object.assign(storage, {
+    getIdempotencyRecord: async () => record && {
+      id: "r1",
+      idempotencyKey: "key",
+      agentId: "x402-liquidity",
+      requestHash: "request",
+      payloadHash: "payload",
+      payerWallet: null,
+      status: "completed",
+      createdAt: new Date(),
+      ...record
+    },
+    deleteIdempotencyRecord: async () => {}
+  });
+}
+
+test("the payload hash depends only on the signed transaction", () => {
+  const payload = { x402Version: 1, scheme: "exact", network: "solana", payload: { transaction: "AQID" } };
+  assert.equal(hashPaymentPayload(payload), hashPaymentPayload({ ...payload, network: "solana-devnet", extra: true }));
+  assert.notEqual(hashPaymentPayload(payload), hashPaymentPayload({ ...payload, payload: { transaction: "AQIE" } }));
+});
+
+test("a payment can only be claimed once until its claim is released", async () => {
+  stubClaims();
+  const claim = await claimPayment("hash", "x402-liquidity", "p1", "payer");
+  assert.deepEqual(claim, { payloadHash: "hash", agentId: "x402-liquidity", paymentId: "p1" });
+  assert.equal(await claimPayment("hash", "x402-liquidity", "p2"), null);
+
+  await releaseClaim(claim!);
+  assert.notEqual(await claimPayment("hash", "x402-liquidity", "p3"), null);
+});
+
+test("consuming a claim records the settlement transaction", async () => {
+  const claims = stubClaims();
+  const claim = await claimPayment("hash", "x402-liquidity", "p1");
+  await consumeClaim(claim!, "signature");
+  assert.equal(claims.get("hash")?.transactionSignature, "signature");
+});
+
+test("a key without a payment proof is treated as a new request", async () => {
+  stubIdempotencyRecord({});
+  assert.deepEqual(await lookupIdempotentRequest("x402-liquidity", "key", "request", {}), { kind: "new" });
+});
+
+test("a completed request replays only for the same request and payment", async () => {
+  stubIdempotencyRecord({});
+  assert.equal((await lookupIdempotentRequest("x402-liquidity", "key", "request", { payloadHash: "payload" })).kind, "replay");
+
+  const otherRequest = await lookupIdempotentRequest("x402-liquidity", "key", "other", { payloadHash: "payload" });
+  assert.deepEqual(otherRequest.kind === "conflict" && otherRequest.status, 422);
+
+  const otherPayment = await lookupIdempotentRequest("x402-liquidity", "key", "request", { payloadHash: "other" });
+  assert.deepEqual(otherPayment.kind === "conflict" && otherPayment.status, 422);
+});
+
+test("a request still in progress is a conflict and an expired one is new", async () => {
+  stubIdempotencyRecord({ status: "in_progress" });
+  const inProgress = await lookupIdempotentRequest("x402-liquidity", "key", "request", { payloadHash: "payload" });
+  assert.deepEqual(inProgress.kind === "conflict" && inProgress.status, 409);
+
+  stubIdempotencyRecord({ createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) });
+  assert.equal((await lookupIdempotentRequest("x402-liquidity", "key", "request", { payloadHash: "payload" })).kind, "new");
+});
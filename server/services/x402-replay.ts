@@ -0,0 +1,144 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import { storage } from "../storage";
+import type { X402IdempotencyRecord } from "@shared/schema";
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export interface PaymentClaim {
+  payloadHash: string;
+  agentId: string;
+  paymentId: string;
+}
+
+export type IdempotencyLookup =
+  | { kind: "new" }
+  | { kind: "replay"; record: X402IdempotencyRecord }
+  | { kind: "conflict"; status: number; error: string };
+
+// Hashes the inner payment payload so that re-encoding the same signed
+// transaction (different base64 padding, key order) still maps to one payment.
+export function hashPaymentPayload(paymentPayload: any): string {
+  const material = paymentPayload?.payload?.transaction ?? JSON.stringify(paymentPayload);
+  return crypto.createHash("sha256").update(String(material)).digest("hex");
+}
+
+export function hashRequest(req: Request, agentId: string): string {
+  const body = req.body && Object.keys(req.body).length > 0 ? JSON.stringify(req.body) : "";
+  return crypto.createHash("sha256")
+    .update(`${agentId}\n${req.method}\n${req.originalUrl}\n${body}`)
+    .digest("hex");
+}
+
+export function parseIdempotencyKey(req: Request): { key?: string; error?: string } {
+  const header = req.headers["idempotency-key"];
+  if (header === undefined) return {};
+
+  const key = (Array.isArray(header) ? header[0] : header).trim();
+  if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return { error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters` };
+  }
+  return { key };
+}
+
+export async function isPaymentConsumed(payloadHash: string): Promise<boolean> {
+  return (await storage.getConsumedPayment(payloadHash)) !== undefined;
+}
+
+// Reserves a verified payment for exactly one response. Returns null when the
+// payment was already claimed by another request. The claim points at the
+// x402 payment record, which carries the payment's state from here on.
+export async function claimPayment(
+  payloadHash: string,
+  agentId: string,
+  paymentId: string,
+  payer?: string
+): Promise<PaymentClaim | null> {
+  const claimed = await storage.claimPayment({
+    payloadHash,
+    agentId,
+    payer: payer || null,
+    paymentId
+  });
+
+  if (!claimed) return null;
+  return { payloadHash, agentId, paymentId };
+}
+
+export async function consumeClaim(claim: PaymentClaim, transactionSignature: string): Promise<void> {
+  await storage.markPaymentSettled(claim.payloadHash, transactionSignature);
+}
+
+// Frees a claim whose payment was never settled, so the payer can present it again.
+export async function releaseClaim(claim: PaymentClaim): Promise<void> {
+  await storage.releasePayment(claim.payloadHash);
+}
+
+// What the caller presents to claim a stored response: the same X-Payment
+// payload, or a credit session for the wallet that paid.
+export interface IdempotencyProof {
+  payloadHash?: string;
+  payer?: string;
+}
+
+// Knowing a key is not enough to replay its paid response. Callers that
+// present no payment are treated as new and get the 402 challenge.
+export async function lookupIdempotentRequest(
+  agentId: string,
+  key: string,
+  requestHash: string,
+  proof: IdempotencyProof
+): Promise<IdempotencyLookup> {
+  if (proof.payloadHash === undefined && proof.payer === undefined) return { kind: "new" };
+
+  const record = await storage.getIdempotencyRecord(agentId, key);
+  if (!record) return { kind: "new" };
+
+  if (record.createdAt && Date.now() - record.createdAt.getTime() > IDEMPOTENCY_TTL_MS) {
+    await storage.deleteIdempotencyRecord(record.id);
+    return { kind: "new" };
+  }
+
+  if (record.requestHash !== requestHash) {
+    return { kind: "conflict", status: 422, error: "Idempotency-Key was already used for a different request" };
+  }
+  if (record.status !== "completed") {
+    return { kind: "conflict", status: 409, error: "A request with this Idempotency-Key is still in progress" };
+  }
+  if (proof.payloadHash !== undefined ? record.payloadHash !== proof.payloadHash : record.payerWallet !== proof.payer) {
+    return { kind: "conflict", status: 422, error: "Idempotency-Key was already used with a different payment" };
+  }
+
+  return { kind: "replay", record };
+}
+
+export async function beginIdempotentRequest(
+  agentId: string,
+  key: string,
+  requestHash: string,
+  payloadHash: string,
+  payerWallet?: string
+): Promise<X402IdempotencyRecord | undefined> {
+  return storage.createIdempotencyRecord({
+    idempotencyKey: key,
+    agentId,
+    requestHash,
+    payloadHash,
+    payerWallet: payerWallet || null,
+    status: "in_progress"
+  });
+}
+
+export async function completeIdempotentRequest(
+  record: X402IdempotencyRecord,
+  statusCode: number,
+  responseBody: string,
+  paymentResponse?: string
+): Promise<void> {
+  await storage.completeIdempotencyRecord(record.id, statusCode, responseBody, paymentResponse);
+}
+
+export async function abandonIdempotentRequest(record: X402IdempotencyRecord): Promise<void> {
+  await storage.deleteIdempotencyRecord(record.id);
+}
@@ -0,0 +1,181 @@
+import { VersionedTransaction } from "@solana/web3.js";
+import { randomBytes } from "crypto";
+import { encodeBase58 } from "@shared/base58";
+import { getX402Cluster } from "./x402-assets";
+
+const RPC_TIMEOUT_MS = 15000;
+
+export interface SignatureStatus {
+  slot: number;
+  confirmations: number | null;
+  err: unknown;
+  confirmationStatus?: "processed" | "confirmed" | "finalized";
+}
+
+// The subset of Solana JSON-RPC the self-hosted verifier depends on. Keeping it
+// behind an interface lets tests and offline development swap in LocalSolanaRpc.
+export interface SolanaRpc {
+  isBlockhashValid(blockhash: string): Promise<boolean>;
+  getLatestBlockhash(): Promise<string>;
+  getBlockHeight(): Promise<number>;
+  sendTransaction(serializedTransaction: string): Promise<string>;
+  getSignatureStatuses(signatures: string[], searchTransactionHistory?: boolean): Promise<Array<SignatureStatus | null>>;
+}
+
+export function getDefaultRpcUrl(): string {
+  if (process.env.SOLANA_RPC_URL) return process.env.SOLANA_RPC_URL;
+  const heliusApiKey = process.env.HELIUS_API_KEY;
+  if (getX402Cluster() === "devnet") {
+    return heliusApiKey
+      ? `https://devnet.helius-rpc.com/?api-key=${heliusApiKey}`
+      : "https://api.devnet.solana.com";
+  }
+  return heliusApiKey
+    ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
+    : "https://api.mainnet-beta.solana.com";
+}
+
+export class HttpSolanaRpc implements SolanaRpc {
+  private url: string;
+
+  constructor(url: string = getDefaultRpcUrl()) {
+    this.url = url;
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), RPC_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: method, method, params }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`RPC ${method} failed: HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (data.error) {
+        throw new Error(`RPC ${method} error: ${data.error.message || JSON.stringify(data.error)}`);
+      }
+      return data.result as T;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async isBlockhashValid(blockhash: string): Promise<boolean> {
+    const result = await this.call<{ value: boolean }>("isBlockhashValid", [blockhash, { commitment: "confirmed" }]);
+    return result.value;
+  }
+
+  async getLatestBlockhash(): Promise<string> {
+    const result = await this.call<{ value: { blockhash: string } }>("getLatestBlockhash", [{ commitment: "confirmed" }]);
+    return result.value.blockhash;
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.call<number>("getBlockHeight", [{ commitment: "confirmed" }]);
+  }
+
+  async sendTransaction(serializedTransaction: string): Promise<string> {
+    return this.call<string>("sendTransaction", [
+      serializedTransaction,
+      { encoding: "base64", preflightCommitment: "confirmed" }
+    ]);
+  }
+
+  async getSignatureStatuses(signatures: string[], searchTransactionHistory: boolean = false): Promise<Array<SignatureStatus | null>> {
+    const result = await this.call<{ value: Array<SignatureStatus | null> }>("getSignatureStatuses", [
+      signatures,
+      { searchTransactionHistory }
+    ]);
+    return result.value;
+  }
+}
+
+interface LocalSubmission {
+  signature: string;
+  slot: number;
+  confirmations: number;
+  serializedTransaction: string;
+}
+
+// In-memory stand-in for a Solana cluster. Blockhashes are valid once
+// registered (or always, with acceptAnyBlockhash) and every status poll advances
+// a submitted transaction by `confirmationsPerPoll` confirmations.
+export class LocalSolanaRpc implements SolanaRpc {
+  private blockhashes = new Set<string>();
+  private submissions = new Map<string, LocalSubmission>();
+  private slot = 1;
+  private acceptAnyBlockhash: boolean;
+  private confirmationsPerPoll: number;
+
+  constructor(options: { acceptAnyBlockhash?: boolean; confirmationsPerPoll?: number } = {}) {
+    this.acceptAnyBlockhash = options.acceptAnyBlockhash ?? true;
+    this.confirmationsPerPoll = options.confirmationsPerPoll ?? 32;
+  }
+
+  registerBlockhash(blockhash: string): void {
+    this.blockhashes.add(blockhash);
+  }
+
+  expireBlockhash(blockhash: string): void {
+    this.blockhashes.delete(blockhash);
+  }
+
+  async isBlockhashValid(blockhash: string): Promise<boolean> {
+    return this.acceptAnyBlockhash || this.blockhashes.has(blockhash);
+  }
+
+  async getLatestBlockhash(): Promise<string> {
+    const blockhash = encodeBase58(randomBytes(32));
+    this.blockhashes.add(blockhash);
+    return blockhash;
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.slot;
+  }
+
+  async sendTransaction(serializedTransaction: string): Promise<string> {
+    const transaction = VersionedTransaction.deserialize(Buffer.from(serializedTransaction, "base64"));
+    const signature = encodeBase58(transaction.signatures[0]);
+
+    this.slot++;
+    this.submissions.set(signature, { signature, slot: this.slot, confirmations: 0, serializedTransaction });
+    return signature;
+  }
+
+  async getSignatureStatuses(signatures: string[]): Promise<Array<SignatureStatus | null>> {
+    this.slot++;
+    return signatures.map(signature => {
+      const submission = this.submissions.get(signature);
+      if (!submission) return null;
+
+      submission.confirmations += this.confirmationsPerPoll;
+      const finalized = submission.confirmations >= 32;
+      return {
+        slot: submission.slot,
+        confirmations: finalized ? null : submission.confirmations,
+        err: null,
+        confirmationStatus: finalized ? "finalized" : "confirmed"
+      };
+    });
+  }
+
+  getSubmittedTransactions(): LocalSubmission[] {
+    return Array.from(this.submissions.values());
+  }
+}
+
+export function createSolanaRpc(): SolanaRpc {
+  if ((process.env.X402_SOLANA_RPC || "").toLowerCase() === "local") {
+    return new LocalSolanaRpc();
+  }
+  return new HttpSolanaRpc();
+}
@@ -0,0 +1,165 @@
+import { storage } from "../storage";
+import {
+  X402_PAYMENT_STATUS,
+  type X402PaymentStatus,
+  type X402Statement,
+  type X402StatementAgentTotal,
+  type X402StatementItem,
+  type X402StatementItemKind
+} from "@shared/x402";
+import { X402_PAYMENT_METHOD, type X402Payment } from "@shared/schema";
+import { getAssetByAddress } from "./x402-assets";
+import { usdToMicroUsd, microUsdToUsd, CREDITS_AGENT_ID } from "./x402-credits";
+import { csvCell } from "./x402-analytics";
+
+const MAX_STATEMENT_ITEMS = 10000;
+
+// Statements list what the wallet paid; refunded payments stay on the
+// statement alongside the refund.
+const STATEMENT_STATUSES: string[] = [
+  X402_PAYMENT_STATUS.SETTLED,
+  X402_PAYMENT_STATUS.CONSUMED,
+  X402_PAYMENT_STATUS.REFUNDED
+];
+
+const CSV_COLUMNS: Array<keyof X402StatementItem> = [
+  "timestamp",
+  "kind",
+  "paymentId",
+  "executionId",
+  "agentId",
+  "resource",
+  "status",
+  "amount",
+  "assetSymbol",
+  "asset",
+  "assetAmount",
+  "network",
+  "signature"
+];
+
+// Parses "YYYY-MM" into the bounds of that UTC month.
+export function parseStatementPeriod(period: string): { from: Date; to: Date } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  if (month < 0 || month > 11) return null;
+  return { from: new Date(Date.UTC(year, month, 1)), to: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+export function currentStatementPeriod(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 7);
+}
+
+function itemKind(payment: X402Payment): X402StatementItemKind {
+  if (payment.method === X402_PAYMENT_METHOD.CREDITS) return "credits";
+  return payment.agentId === CREDITS_AGENT_ID ? "deposit" : "charge";
+}
+
+function toItem(payment: X402Payment): X402StatementItem {
+  return {
+    kind: itemKind(payment),
+    agentId: payment.agentId,
+    paymentType: "proof_of_payment",
+    amount: payment.amountUsd,
+    timestamp: payment.createdAt?.getTime() ?? 0,
+    signature: payment.transactionSignature || "",
+    paymentId: payment.id,
+    executionId: payment.executionId,
+    resource: payment.resource,
+    status: payment.status as X402PaymentStatus,
+    network: payment.network,
+    asset: payment.asset,
+    assetSymbol: payment.asset ? getAssetByAddress(payment.asset)?.symbol ?? null : null,
+    assetAmount: payment.amount
+  };
+}
+
+export async function buildStatement(walletAddress: string, period: string, now: Date = new Date()): Promise<X402Statement | null> {
+  const bounds = parseStatementPeriod(period);
+  if (!bounds) return null;
+
+  const payments = await storage.getX402Payments({
+    walletAddress,
+    statuses: STATEMENT_STATUSES,
+    from: bounds.from,
+    to: bounds.to,
+    limit: MAX_STATEMENT_ITEMS
+  });
+  const items = payments.map(toItem).sort((a, b) => a.timestamp - b.timestamp);
+
+  // Totals are summed in micro-USD so they match the itemised amounts exactly.
+  // A top-up and the calls later paid from it are the same money, so top-ups
+  // are deposits and credit-paid calls are kept out of the on-chain totals.
+  const agents = new Map<string, { calls: number; charged: number; refunded: number; fromCredits: number }>();
+  let calls = 0;
+  let charged = 0;
+  let refunded = 0;
+  let deposited = 0;
+  let fromCredits = 0;
+  for (const item of items) {
+    const micro = usdToMicroUsd(item.amount);
+    if (item.kind === "deposit") {
+      deposited += micro;
+      continue;
+    }
+
+    const agent = agents.get(item.agentId) || { calls: 0, charged: 0, refunded: 0, fromCredits: 0 };
+    agent.calls++;
+    calls++;
+    if (item.kind === "credits") {
+      agent.fromCredits += micro;
+      fromCredits += micro;
+    } else {
+      agent.charged += micro;
+      charged += micro;
+      if (item.status === X402_PAYMENT_STATUS.REFUNDED) {
+        agent.refunded += micro;
+        refunded += micro;
+      }
+    }
+    agents.set(item.agentId, agent);
+  }
+
+  const agentTotals: X402StatementAgentTotal[] = Array.from(agents.entries())
+    .map(([agentId, totals]) => ({
+      agentId,
+      calls: totals.calls,
+      chargedUSD: microUsdToUsd(totals.charged),
+      refundedUSD: microUsdToUsd(totals.refunded),
+      paidFromCreditsUSD: microUsdToUsd(totals.fromCredits)
+    }))
+    .sort((a, b) => b.chargedUSD + b.paidFromCreditsUSD - (a.chargedUSD + a.paidFromCreditsUSD));
+
+  return {
+    walletAddress,
+    period,
+    from: bounds.from.toISOString(),
+    to: bounds.to.toISOString(),
+    generatedAt: now.toISOString(),
+    currency: "USD",
+    totals: {
+      calls,
+      chargedUSD: microUsdToUsd(charged),
+      refundedUSD: microUsdToUsd(refunded),
+      netUSD: microUsdToUsd(charged - refunded),
+      depositedUSD: microUsdToUsd(deposited),
+      paidFromCreditsUSD: microUsdToUsd(fromCredits)
+    },
+    agents: agentTotals,
+    items,
+    truncated: payments.length >= MAX_STATEMENT_ITEMS
+  };
+}
+
+// One row per item; amount is in USD and timestamp in ISO 8601.
+export function statementToCsv(statement: X402Statement): string {
+  const header = CSV_COLUMNS.map(column => column === "amount" ? "amountUSD" : column).join(",");
+  const lines = statement.items.map(item =>
+    CSV_COLUMNS.map(column => column === "timestamp" ? new Date(item.timestamp).toISOString() : item[column])
+      .map(csvCell)
+      .join(",")
+  );
+  return [header, ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from "@solana/web3.js";
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { NATIVE_SOL_MINT } from "@shared/x402";
+import { encodeBase58 } from "@shared/base58";
+import { decodePaymentTransaction, isSignedByAuthority } from "./x402-svm-facilitator";
+
+const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+const feePayer = Keypair.generate();
+const payer = Keypair.generate();
+const payTo = Keypair.generate().publicKey;
+const blockhash = encodeBase58(new Uint8Array(32).fill(7));
+
+function usdcTransfer(amount: bigint = BigInt(100_000)): TransactionInstruction {
+  return createTransferCheckedInstruction(
+    getAssociatedTokenAddressSync(USDC_MINT, payer.publicKey),
+    USDC_MINT,
+    getAssociatedTokenAddressSync(USDC_MINT, payTo),
+    payer.publicKey,
+    amount,
+    6
+  );
+}
+
+function serialize(instructions: TransactionInstruction[], signers: Keypair[] = [payer]): string {
+  const message = new TransactionMessage({
+    payerKey: feePayer.publicKey,
+    recentBlockhash: blockhash,
+    instructions
+  }).compileToV0Message();
+  const transaction = new VersionedTransaction(message);
+  const required = message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+  transaction.sign(signers.filter(signer => required.some(key => key.equals(signer.publicKey))));
+  return Buffer.from(transaction.serialize()).toString("base64");
+}
+
+test("decodes an SPL TransferChecked payment", () => {
+  const { payment, error } = decodePaymentTransaction(serialize([
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 50_000 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+    usdcTransfer()
+  ]));
+
+  assert.equal(error, undefined);
+  assert.equal(payment!.feePayer, feePayer.publicKey.toBase58());
+  assert.equal(payment!.recentBlockhash, blockhash);
+  assert.equal(payment!.transfer.mint, USDC_MINT.toBase58());
+  assert.equal(payment!.transfer.authority, payer.publicKey.toBase58());
+  assert.equal(payment!.transfer.destination, getAssociatedTokenAddressSync(USDC_MINT, payTo).toBase58());
+  assert.equal(payment!.transfer.amount, BigInt(100_000));
+  assert.equal(payment!.transfer.decimals, 6);
+  assert.equal(isSignedByAuthority(payment!), true);
+});
+
+test("decodes a native SOL transfer as the wrapped SOL mint", () => {
+  const { payment } = decodePaymentTransaction(serialize([
+    SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payTo, lamports: 5_000 })
+  ]));
+
+  assert.equal(payment!.transfer.mint, NATIVE_SOL_MINT);
+  assert.equal(payment!.transfer.destination, payTo.toBase58());
+  assert.equal(payment!.transfer.amount, BigInt(5_000));
+  assert.equal(payment!.transfer.decimals, 9);
+});
+
+test("a transfer the authority did not sign is not attributed to it", () => {
+  const { payment } = decodePaymentTransaction(serialize([usdcTransfer()], []));
+  assert.equal(isSignedByAuthority(payment!), false);
+});
+
+test("rejects transactions that are not a single capped transfer", () => {
+  const cases: Array<[TransactionInstruction[], RegExp]> = [
+    [[], /no transfer instruction/],
+    [[usdcTransfer(), usdcTransfer(BigInt(1))], /exactly one transfer/],
+    [[ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }), usdcTransfer()], /Compute unit limit/],
+    [[ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 5_000_001 }), usdcTransfer()], /Compute unit price/],
+    [[ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }), ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }), usdcTransfer()], /Duplicate compute budget/],
+    [[new TransactionInstruction({ programId: Keypair.generate().publicKey, keys: [], data: Buffer.alloc(0) }), usdcTransfer()], /Unexpected instruction/],
+    [[SystemProgram.assign({ accountPubkey: payer.publicKey, programId: payTo })], /Only system transfer/]
+  ];
+
+  for (const [instructions, expected] of cases) {
+    const { payment, error } = decodePaymentTransaction(serialize(instructions));
+    assert.equal(payment, undefined);
+    assert.match(error!, expected);
+  }
+});
+
+test("rejects payloads that are not a serialized transaction", () => {
+  assert.match(decodePaymentTransaction("bm90IGEgdHJhbnNhY3Rpb24=").error!, /Invalid transaction encoding/);
+});
@@ -0,0 +1,500 @@
+import crypto from "crypto";
+import { VersionedTransaction, PublicKey, Keypair, ComputeBudgetProgram, SystemProgram } from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync
+} from "@solana/spl-token";
+import { X402_MIN_CONFIRMATION_BLOCKS, NATIVE_SOL_MINT } from "@shared/x402";
+import { encodeBase58 } from "@shared/base58";
+import type { Facilitator, PaymentRequirements, VerifyResult, SettleResult, SettlementState, SupportedKind } from "./x402-facilitator";
+import { createSolanaRpc, type SolanaRpc } from "./x402-solana-rpc";
+import { getX402Network } from "./x402-assets";
+import {
+  submitForVerification,
+  updateConfirmations,
+  rejectVerification,
+  getVerificationStatus,
+  isVerificationOpen
+} from "./x402-verification";
+import { X402_VERIFICATION_STATUS } from "@shared/schema";
+
+const X402_VERSION = 1;
+const TRANSFER_CHECKED_DISCRIMINATOR = 12;
+const SYSTEM_TRANSFER_INSTRUCTION = 2;
+const SET_COMPUTE_UNIT_LIMIT_INSTRUCTION = 2;
+const SET_COMPUTE_UNIT_PRICE_INSTRUCTION = 3;
+const CREATE_IDEMPOTENT_INSTRUCTION = 1;
+// The fee payer covers priority fees, so payers may only ask for a bounded
+// amount: at most 5 lamports per compute unit over 200k units.
+const MAX_COMPUTE_UNIT_LIMIT = 200_000;
+const MAX_COMPUTE_UNIT_PRICE_MICROLAMPORTS = BigInt(5_000_000);
+const STATUS_POLL_INTERVAL_MS = 500;
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+interface DecodedTransfer {
+  programId: string;
+  source: string;
+  mint: string;
+  destination: string;
+  authority: string;
+  amount: bigint;
+  decimals: number;
+}
+
+// Accounts of an associated token account CreateIdempotent instruction.
+interface DecodedAccountCreation {
+  funder: string;
+  account: string;
+  owner: string;
+  mint: string;
+}
+
+export interface DecodedPayment {
+  transaction: VersionedTransaction;
+  feePayer: string;
+  recentBlockhash: string;
+  transfer: DecodedTransfer;
+  createsAccount?: DecodedAccountCreation;
+}
+
+export function verifyEd25519Signature(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey)]),
+      format: "der",
+      type: "spki"
+    });
+    return crypto.verify(null, Buffer.from(message), key, Buffer.from(signature));
+  } catch {
+    return false;
+  }
+}
+
+function readU64LE(data: Uint8Array, offset: number): bigint {
+  let value = BigInt(0);
+  for (let i = 7; i >= 0; i--) {
+    value = (value << BigInt(8)) | BigInt(data[offset + i]);
+  }
+  return value;
+}
+
+function readU32LE(data: Uint8Array, offset: number): number {
+  return Buffer.from(data).readUInt32LE(offset);
+}
+
+// Decodes the partially signed exact-scheme transaction: at most one capped
+// SetComputeUnitLimit and SetComputeUnitPrice, at most one idempotent ATA
+// creation, and exactly one SPL TransferChecked or native SOL system transfer.
+// Anything else is rejected so the fee payer never signs for instructions it
+// did not expect. Native transfers are reported with the wrapped SOL mint and
+// the recipient wallet as destination.
+export function decodePaymentTransaction(serialized: string): { payment?: DecodedPayment; error?: string } {
+  let transaction: VersionedTransaction;
+  try {
+    transaction = VersionedTransaction.deserialize(Buffer.from(serialized, "base64"));
+  } catch (e: any) {
+    return { error: `Invalid transaction encoding: ${e.message}` };
+  }
+
+  const message = transaction.message;
+  if (message.addressTableLookups.length > 0) {
+    return { error: "Address lookup tables are not supported in payment transactions" };
+  }
+
+  const accountKeys = message.staticAccountKeys.map(key => key.toBase58());
+  const tokenPrograms = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+  let transfer: DecodedTransfer | undefined;
+  let createsAccount: DecodedAccountCreation | undefined;
+  const computeBudgetSeen = new Set<number>();
+
+  for (const instruction of message.compiledInstructions) {
+    const programId = accountKeys[instruction.programIdIndex];
+    const data = instruction.data;
+
+    if (programId === ComputeBudgetProgram.programId.toBase58()) {
+      const kind = data[0];
+      if (computeBudgetSeen.has(kind)) {
+        return { error: "Duplicate compute budget instruction" };
+      }
+      computeBudgetSeen.add(kind);
+
+      if (kind === SET_COMPUTE_UNIT_LIMIT_INSTRUCTION && data.length === 5) {
+        if (readU32LE(data, 1) > MAX_COMPUTE_UNIT_LIMIT) {
+          return { error: `Compute unit limit exceeds ${MAX_COMPUTE_UNIT_LIMIT}` };
+        }
+        continue;
+      }
+      if (kind === SET_COMPUTE_UNIT_PRICE_INSTRUCTION && data.length === 9) {
+        if (readU64LE(data, 1) > MAX_COMPUTE_UNIT_PRICE_MICROLAMPORTS) {
+          return { error: `Compute unit price exceeds ${MAX_COMPUTE_UNIT_PRICE_MICROLAMPORTS} micro-lamports` };
+        }
+        continue;
+      }
+      return { error: "Only SetComputeUnitLimit and SetComputeUnitPrice compute budget instructions are accepted" };
+    }
+
+    if (programId === ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()) {
+      if (data.length !== 1 || data[0] !== CREATE_IDEMPOTENT_INSTRUCTION) {
+        return { error: "Only idempotent associated token account creation is accepted" };
+      }
+      if (createsAccount) {
+        return { error: "Payment transaction may create at most one token account" };
+      }
+      if (instruction.accountKeyIndexes.length < 4) {
+        return { error: "Associated token account instruction is missing accounts" };
+      }
+
+      const [funder, account, owner, mint] = instruction.accountKeyIndexes.map(index => accountKeys[index]);
+      createsAccount = { funder, account, owner, mint };
+      continue;
+    }
+
+    if (programId === SystemProgram.programId.toBase58()) {
+      if (data.length !== 12 || Buffer.from(data).readUInt32LE(0) !== SYSTEM_TRANSFER_INSTRUCTION) {
+        return { error: "Only system transfer instructions are accepted" };
+      }
+      if (transfer) {
+        return { error: "Payment transaction must contain exactly one transfer" };
+      }
+      if (instruction.accountKeyIndexes.length < 2) {
+        return { error: "System transfer instruction is missing accounts" };
+      }
+
+      const [source, destination] = instruction.accountKeyIndexes.map(index => accountKeys[index]);
+      transfer = {
+        programId,
+        source,
+        mint: NATIVE_SOL_MINT,
+        destination,
+        authority: source,
+        amount: readU64LE(data, 4),
+        decimals: 9
+      };
+      continue;
+    }
+
+    if (!tokenPrograms.includes(programId)) {
+      return { error: `Unexpected instruction for program ${programId}` };
+    }
+
+    if (data.length !== 10 || data[0] !== TRANSFER_CHECKED_DISCRIMINATOR) {
+      return { error: "Only SPL TransferChecked instructions are accepted" };
+    }
+    if (transfer) {
+      return { error: "Payment transaction must contain exactly one transfer" };
+    }
+    if (instruction.accountKeyIndexes.length < 4) {
+      return { error: "TransferChecked instruction is missing accounts" };
+    }
+
+    const [source, mint, destination, authority] = instruction.accountKeyIndexes.map(index => accountKeys[index]);
+    transfer = {
+      programId,
+      source,
+      mint,
+      destination,
+      authority,
+      amount: readU64LE(data, 1),
+      decimals: data[9]
+    };
+  }
+
+  if (!transfer) {
+    return { error: "Payment transaction contains no transfer instruction" };
+  }
+
+  return {
+    payment: {
+      transaction,
+      feePayer: accountKeys[0],
+      recentBlockhash: message.recentBlockhash,
+      transfer,
+      createsAccount
+    }
+  };
+}
+
+// True when the transfer authority is a required signer and its signature over
+// the message is valid, i.e. the payload really comes from that wallet.
+export function isSignedByAuthority(payment: DecodedPayment): boolean {
+  const { transaction, transfer } = payment;
+  const signerIndex = transaction.message.staticAccountKeys.findIndex(key => key.toBase58() === transfer.authority);
+  if (signerIndex < 0 || signerIndex >= transaction.message.header.numRequiredSignatures) {
+    return false;
+  }
+  return verifyEd25519Signature(
+    transaction.message.staticAccountKeys[signerIndex].toBytes(),
+    transaction.message.serialize(),
+    transaction.signatures[signerIndex]
+  );
+}
+
+function loadFeePayerKeypair(): Keypair | null {
+  const secret = process.env.X402_FEE_PAYER_SECRET_KEY;
+  if (!secret) return null;
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)));
+  } catch (e) {
+    console.error("Invalid X402_FEE_PAYER_SECRET_KEY, expected a JSON byte array:", e);
+    return null;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Facilitator that verifies and settles exact-scheme Solana payments itself
+// instead of delegating to a third party. Submitted transactions are tracked in
+// the persisted x402-verification records, one per signature.
+export class SelfHostedFacilitator implements Facilitator {
+  readonly kind = "self-hosted" as const;
+  private rpc: SolanaRpc;
+  private feePayer: Keypair | null;
+  private networks: string[];
+
+  constructor(rpc: SolanaRpc = createSolanaRpc(), feePayer: Keypair | null = loadFeePayerKeypair(), networks: string[] = [getX402Network()]) {
+    this.rpc = rpc;
+    this.feePayer = feePayer;
+    this.networks = networks;
+  }
+
+  private async check(paymentPayload: any, requirements: PaymentRequirements): Promise<{ payment?: DecodedPayment; error?: string }> {
+    if (paymentPayload?.x402Version !== X402_VERSION) {
+      return { error: `Unsupported x402Version: ${paymentPayload?.x402Version}` };
+    }
+    if (paymentPayload.scheme !== "exact" || requirements.scheme !== "exact") {
+      return { error: "Only the exact scheme is supported" };
+    }
+    if (paymentPayload.network !== requirements.network || !this.networks.includes(requirements.network)) {
+      return { error: `Network mismatch: expected ${requirements.network}` };
+    }
+
+    const serialized = paymentPayload.payload?.transaction;
+    if (typeof serialized !== "string" || !serialized) {
+      return { error: "Missing payload transaction" };
+    }
+
+    const { payment, error } = decodePaymentTransaction(serialized);
+    if (!payment) return { error };
+
+    const { transfer, transaction } = payment;
+    const expectedFeePayer = requirements.extra?.feePayer;
+    if (!expectedFeePayer || payment.feePayer !== expectedFeePayer) {
+      return { error: `Fee payer mismatch: expected ${expectedFeePayer}` };
+    }
+    if (transfer.authority === payment.feePayer || transfer.source === payment.feePayer) {
+      return { error: "Fee payer must not fund the transfer" };
+    }
+
+    if (transfer.mint !== requirements.asset) {
+      return { error: `Mint mismatch: expected ${requirements.asset}` };
+    }
+    if (transfer.amount !== BigInt(requirements.maxAmountRequired)) {
+      return { error: `Amount mismatch: expected ${requirements.maxAmountRequired}, got ${transfer.amount}` };
+    }
+
+    if (transfer.programId === SystemProgram.programId.toBase58()) {
+      if (transfer.destination !== requirements.payTo) {
+        return { error: `Destination is not ${requirements.payTo}` };
+      }
+    } else {
+      const expectedDestination = getAssociatedTokenAddressSync(
+        new PublicKey(requirements.asset),
+        new PublicKey(requirements.payTo),
+        false,
+        new PublicKey(transfer.programId)
+      ).toBase58();
+      if (transfer.destination !== expectedDestination) {
+        return { error: `Destination is not the ${requirements.payTo} token account` };
+      }
+    }
+
+    // The only account a payment may create is the receiver's token account
+    // for the paid asset, which the transfer then pays into.
+    const { createsAccount } = payment;
+    if (createsAccount && (
+      createsAccount.owner !== requirements.payTo ||
+      createsAccount.mint !== requirements.asset ||
+      createsAccount.account !== transfer.destination
+    )) {
+      return { error: `Token account creation is only accepted for the ${requirements.payTo} token account` };
+    }
+
+    const signerIndex = transaction.message.staticAccountKeys.findIndex(key => key.toBase58() === transfer.authority);
+    if (signerIndex < 0 || signerIndex >= transaction.message.header.numRequiredSignatures) {
+      return { error: "Transfer authority is not a required signer" };
+    }
+    if (!isSignedByAuthority(payment)) {
+      return { error: "Missing or invalid transfer authority signature" };
+    }
+
+    try {
+      if (!(await this.rpc.isBlockhashValid(payment.recentBlockhash))) {
+        return { error: "Recent blockhash has expired" };
+      }
+    } catch (e: any) {
+      return { error: `Blockhash check failed: ${e.message}` };
+    }
+
+    return { payment };
+  }
+
+  async verify(paymentPayload: any, requirements: PaymentRequirements): Promise<VerifyResult> {
+    const { payment, error } = await this.check(paymentPayload, requirements);
+    if (!payment) return { valid: false, error };
+    return { valid: true, payer: payment.transfer.authority };
+  }
+
+  async settle(paymentPayload: any, requirements: PaymentRequirements): Promise<SettleResult> {
+    const { payment, error } = await this.check(paymentPayload, requirements);
+    if (!payment) return { success: false, error };
+
+    if (!this.feePayer || this.feePayer.publicKey.toBase58() !== payment.feePayer) {
+      return { success: false, error: "Fee payer key is not configured for self-hosted settlement" };
+    }
+
+    const { transaction, transfer } = payment;
+    transaction.sign([this.feePayer]);
+    // A transaction's id is its first signature, so it is known before sending.
+    const signature = encodeBase58(transaction.signatures[0]);
+
+    const verification = await submitForVerification({
+      signature,
+      expectedAmount: transfer.amount,
+      expectedRecipient: requirements.payTo,
+      expectedSender: transfer.authority,
+      recentBlockhash: payment.recentBlockhash
+    });
+    if (!verification) {
+      return { success: false, error: `Could not track transaction ${signature}` };
+    }
+
+    try {
+      const sent = await this.rpc.sendTransaction(Buffer.from(transaction.serialize()).toString("base64"));
+      if (sent !== signature) {
+        console.warn(`RPC returned signature ${sent}, expected ${signature}`);
+      }
+    } catch (e: any) {
+      await rejectVerification(signature, "submission_failed");
+      return { success: false, error: `Transaction submission failed: ${e.message}` };
+    }
+
+    // A transaction that was not confirmed in time can still land until its
+    // blockhash expires, so it is reported as pending rather than failed.
+    const confirmed = await this.waitForConfirmation(signature, requirements.maxTimeoutSeconds * 1000);
+    if (!confirmed.success) {
+      return {
+        success: false,
+        pending: confirmed.pending,
+        error: confirmed.error,
+        receipt: { success: false, transaction: signature, network: requirements.network, payer: transfer.authority }
+      };
+    }
+
+    this.trackUntilVerified(signature);
+
+    return {
+      success: true,
+      receipt: {
+        success: true,
+        transaction: signature,
+        network: requirements.network,
+        payer: transfer.authority
+      }
+    };
+  }
+
+  async supported(): Promise<{ kinds: SupportedKind[] }> {
+    return {
+      kinds: this.networks.map(network => ({
+        x402Version: X402_VERSION,
+        scheme: "exact",
+        network,
+        ...(this.feePayer && { extra: { feePayer: this.feePayer.publicKey.toBase58() } })
+      }))
+    };
+  }
+
+  // Polls the cluster once, feeding the result into the verification record.
+  // Returns the confirmation status seen, or an error when the transaction failed.
+  private async pollStatus(signature: string): Promise<{ status?: string; error?: string }> {
+    const [status] = await this.rpc.getSignatureStatuses([signature]);
+    if (!status) return {};
+
+    if (status.err) {
+      await rejectVerification(signature, JSON.stringify(status.err));
+      return { error: `Transaction failed on-chain: ${JSON.stringify(status.err)}` };
+    }
+
+    const confirmations = status.confirmationStatus === "finalized"
+      ? X402_MIN_CONFIRMATION_BLOCKS
+      : status.confirmations ?? 0;
+    const blockHeight = await this.rpc.getBlockHeight();
+    await updateConfirmations(signature, confirmations, blockHeight, status.slot);
+
+    return { status: status.confirmationStatus };
+  }
+
+  // Follows up a settlement that was still pending. The transaction failed
+  // once the cluster rejected it, or once its blockhash expired without the
+  // cluster having seen it.
+  async checkSettlement(transaction: string): Promise<SettlementState> {
+    const verification = await getVerificationStatus(transaction);
+    if (!verification) return "failed";
+    if (verification.status === X402_VERIFICATION_STATUS.VERIFIED) return "settled";
+    if (verification.status === X402_VERIFICATION_STATUS.FAILED) return "failed";
+
+    const { status, error } = await this.pollStatus(transaction);
+    if (error) return "failed";
+    if (status === "confirmed" || status === "finalized") {
+      this.trackUntilVerified(transaction);
+      return "settled";
+    }
+    if (status || await this.rpc.isBlockhashValid(verification.recentBlockhash)) return "pending";
+
+    // The recent status cache may already have dropped a transaction that
+    // landed, so the full history is searched before giving up on it.
+    const [landed] = await this.rpc.getSignatureStatuses([transaction], true);
+    if (landed && !landed.err) {
+      await updateConfirmations(transaction, X402_MIN_CONFIRMATION_BLOCKS, await this.rpc.getBlockHeight(), landed.slot);
+      return "settled";
+    }
+    await rejectVerification(transaction, landed ? JSON.stringify(landed.err) : "blockhash_expired");
+    return "failed";
+  }
+
+  private async waitForConfirmation(signature: string, timeoutMs: number): Promise<{ success: boolean; pending?: boolean; error?: string }> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      try {
+        const { status, error } = await this.pollStatus(signature);
+        if (error) return { success: false, error };
+        if (status === "confirmed" || status === "finalized") return { success: true };
+      } catch (e: any) {
+        console.error(`Status poll for ${signature} failed:`, e.message);
+      }
+      await delay(STATUS_POLL_INTERVAL_MS);
+    }
+
+    return { success: false, pending: true, error: `Transaction ${signature} was not confirmed in time` };
+  }
+
+  // Keeps polling a confirmed transaction until it is finalized.
+  private trackUntilVerified(signature: string): void {
+    const track = async () => {
+      try {
+        const current = await getVerificationStatus(signature);
+        if (!current || !isVerificationOpen(current)) return;
+        await this.pollStatus(signature);
+      } catch (e: any) {
+        console.error(`Confirmation tracking for ${signature} failed:`, e.message);
+      }
+      setTimeout(track, STATUS_POLL_INTERVAL_MS);
+    };
+    setTimeout(track, STATUS_POLL_INTERVAL_MS);
+  }
+}
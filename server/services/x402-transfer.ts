@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import { Keypair, PublicKey, TransactionMessage, VersionedTransaction } from "@solana/web3.js";
+import {
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction
+} from "@solana/spl-token";
+import { getFacilitator } from "./x402-facilitator";
+import { createSolanaRpc, type SolanaRpc } from "./x402-solana-rpc";
+import { getAsset, getAssetByAddress } from "./x402-assets";
+
+const CONFIRMATION_TIMEOUT_MS = 60000;
+const POLL_INTERVAL_MS = 1000;
+
+// An outbound payment ready to send. Amounts are in USD and are paid out in
+// a USD stablecoin.
+export interface OutboundTransfer {
+  paymentId: string;
+  walletAddress: string;
+  amount: number;
+  asset: string;
+}
+
+// Where a sent transfer stands on-chain. "unknown" covers transfers the
+// cluster has not confirmed or rejected yet, which may still land.
+export type TransferState = "confirmed" | "failed" | "unknown";
+
+// Thrown when a transfer was sent but not confirmed in time. It may still
+// land, so the payment must never simply be sent again.
+export class UnconfirmedTransferError extends Error {
+  readonly signature: string;
+
+  constructor(signature: string) {
+    super(`Transfer ${signature} was not confirmed in time`);
+    this.name = "UnconfirmedTransferError";
+    this.signature = signature;
+  }
+}
+
+// Moves funds to a wallet and returns the transaction signature. Throwing
+// marks the attempt failed; x402-queue decides whether it is retried.
+// checkTransfer looks up an earlier transfer by signature, so a retry can
+// tell whether the previous attempt landed after all.
+export interface TransferBackend {
+  readonly kind: string;
+  transfer(transfer: OutboundTransfer): Promise<string>;
+  checkTransfer(signature: string): Promise<TransferState>;
+}
+
+// Records transfers without moving funds; paired with the local facilitator.
+export class LocalTransferBackend implements TransferBackend {
+  readonly kind = "local";
+
+  async transfer(transfer: OutboundTransfer): Promise<string> {
+    return `local_transfer_${crypto.createHash("sha256").update(transfer.paymentId).digest("hex")}`;
+  }
+
+  async checkTransfer(): Promise<TransferState> {
+    return "confirmed";
+  }
+}
+
+// In-memory backend for tests. Failures can be scripted per call or drawn
+// at a fixed rate, and every successful transfer is kept for inspection.
+// Unconfirmed transfers land but report a confirmation timeout.
+export class MockTransferBackend implements TransferBackend {
+  readonly kind = "mock";
+  readonly transfers: Array<OutboundTransfer & { signature: string }> = [];
+  private scriptedFailures: string[] = [];
+  private scriptedUnconfirmed = 0;
+  private failureRate: number;
+
+  constructor(options: { failureRate?: number } = {}) {
+    this.failureRate = options.failureRate ?? 0;
+  }
+
+  failNext(count: number = 1, message: string = "Mock transfer failed"): void {
+    for (let i = 0; i < count; i++) this.scriptedFailures.push(message);
+  }
+
+  unconfirmNext(count: number = 1): void {
+    this.scriptedUnconfirmed += count;
+  }
+
+  async transfer(transfer: OutboundTransfer): Promise<string> {
+    const failure = this.scriptedFailures.shift();
+    if (failure) throw new Error(failure);
+    if (this.failureRate > 0 && Math.random() < this.failureRate) {
+      throw new Error("Mock transfer failed");
+    }
+
+    const signature = `mock_transfer_${crypto.randomBytes(16).toString("hex")}`;
+    this.transfers.push({ ...transfer, signature });
+    if (this.scriptedUnconfirmed > 0) {
+      this.scriptedUnconfirmed--;
+      throw new UnconfirmedTransferError(signature);
+    }
+    return signature;
+  }
+
+  async checkTransfer(signature: string): Promise<TransferState> {
+    return this.transfers.some(transfer => transfer.signature === signature) ? "confirmed" : "unknown";
+  }
+}
+
+export class SolanaTransferBackend implements TransferBackend {
+  readonly kind = "solana";
+  private rpc: SolanaRpc;
+  private wallet: Keypair;
+
+  constructor(wallet: Keypair, rpc: SolanaRpc = createSolanaRpc()) {
+    this.wallet = wallet;
+    this.rpc = rpc;
+  }
+
+  async transfer(transfer: OutboundTransfer): Promise<string> {
+    const asset = getAssetByAddress(transfer.asset);
+    if (!asset || asset.symbol === "SOL") {
+      throw new Error(`Unsupported transfer asset ${transfer.asset}`);
+    }
+
+    const mint = new PublicKey(asset.address);
+    const owner = new PublicKey(transfer.walletAddress);
+    const source = getAssociatedTokenAddressSync(mint, this.wallet.publicKey);
+    const destination = getAssociatedTokenAddressSync(mint, owner);
+    const amount = BigInt(Math.round(transfer.amount * 10 ** asset.decimals));
+
+    const message = new TransactionMessage({
+      payerKey: this.wallet.publicKey,
+      recentBlockhash: await this.rpc.getLatestBlockhash(),
+      instructions: [
+        createAssociatedTokenAccountIdempotentInstruction(this.wallet.publicKey, destination, owner, mint),
+        createTransferCheckedInstruction(source, mint, destination, this.wallet.publicKey, amount, asset.decimals)
+      ]
+    }).compileToV0Message();
+
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([this.wallet]);
+    const signature = await this.rpc.sendTransaction(Buffer.from(transaction.serialize()).toString("base64"));
+
+    const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const [status] = await this.rpc.getSignatureStatuses([signature]);
+      if (status?.err) {
+        throw new Error(`Transfer ${signature} failed: ${JSON.stringify(status.err)}`);
+      }
+      if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+        return signature;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+    throw new UnconfirmedTransferError(signature);
+  }
+
+  async checkTransfer(signature: string): Promise<TransferState> {
+    const [status] = await this.rpc.getSignatureStatuses([signature]);
+    if (status?.err) return "failed";
+    if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") return "confirmed";
+    return "unknown";
+  }
+}
+
+class UnconfiguredTransferBackend implements TransferBackend {
+  readonly kind = "unconfigured";
+
+  async transfer(): Promise<string> {
+    throw new Error("X402_REFUND_SECRET_KEY is not configured");
+  }
+
+  async checkTransfer(): Promise<TransferState> {
+    return "unknown";
+  }
+}
+
+function loadTransferWallet(): Keypair | null {
+  const secret = process.env.X402_REFUND_SECRET_KEY;
+  if (!secret) return null;
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)));
+  } catch (e) {
+    console.error("Invalid X402_REFUND_SECRET_KEY, expected a JSON byte array:", e);
+    return null;
+  }
+}
+
+// X402_TRANSFER_BACKEND=mock forces the mock; otherwise a configured payout
+// wallet sends on-chain, and the local facilitator gets the local backend.
+export function createTransferBackend(): TransferBackend {
+  if (process.env.X402_TRANSFER_BACKEND === "mock") return new MockTransferBackend();
+  const wallet = loadTransferWallet();
+  if (wallet) return new SolanaTransferBackend(wallet);
+  if (getFacilitator().kind === "local") return new LocalTransferBackend();
+  return new UnconfiguredTransferBackend();
+}
+
+export function defaultTransferAsset(): string {
+  return getAsset("USDC")!.address;
+}
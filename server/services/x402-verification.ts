@@ -1,85 +1,41 @@
 import { X402_PROTOCOL_VERSION, X402_MIN_CONFIRMATION_BLOCKS, validateX402Signature, validateSolanaAddress } from "@shared/x402";
+import { X402_VERIFICATION_STATUS, type X402TransactionVerification } from "@shared/schema";
+import { storage } from "../storage";
 
-const VERIFICATION_TIMEOUT_MS = 60000;
 const BLOCK_TIME_MS = 400;
-const MAX_VERIFICATION_RETRIES = 5;
 
-interface TransactionVerification {
+export interface VerificationSubmission {
   signature: string;
-  expectedAmount: number;
+  expectedAmount: bigint;
   expectedRecipient: string;
   expectedSender: string;
-  submittedAt: number;
-  verifiedAt?: number;
-  status: "pending" | "confirming" | "verified" | "failed" | "timeout";
-  confirmations: number;
-  blockHeight?: number;
-  slot?: number;
-  errorCode?: string;
-  retryCount: number;
+  recentBlockhash: string;
 }
 
-interface BlockConfirmation {
-  blockHeight: number;
-  blockHash: string;
-  slot: number;
-  timestamp: number;
-  transactions: string[];
-}
-
-interface VerificationMetrics {
-  totalVerifications: number;
-  successfulVerifications: number;
-  failedVerifications: number;
-  timeoutVerifications: number;
-  averageConfirmationTime: number;
-  averageConfirmations: number;
-}
-
-const pendingVerifications = new Map<string, TransactionVerification>();
-const confirmedTransactions = new Map<string, TransactionVerification>();
-const verificationMetrics: VerificationMetrics = {
-  totalVerifications: 0,
-  successfulVerifications: 0,
-  failedVerifications: 0,
-  timeoutVerifications: 0,
-  averageConfirmationTime: 0,
-  averageConfirmations: 0,
-};
-
-export function submitForVerification(
-  signature: string,
-  expectedAmount: number,
-  expectedRecipient: string,
-  expectedSender: string
-): TransactionVerification | null {
-  if (!validateX402Signature(signature)) {
-    return null;
+// Records a transaction before it is sent, so its outcome can still be looked
+// up by signature if the process stops while waiting on the cluster.
+// Submitting a signature again returns the existing record.
+export async function submitForVerification(submission: VerificationSubmission): Promise<X402TransactionVerification | undefined> {
+  if (!validateX402Signature(submission.signature)) {
+    return undefined;
   }
 
-  if (!validateSolanaAddress(expectedRecipient) || !validateSolanaAddress(expectedSender)) {
-    return null;
+  if (!validateSolanaAddress(submission.expectedRecipient) || !validateSolanaAddress(submission.expectedSender)) {
+    return undefined;
   }
 
-  if (expectedAmount <= 0) {
-    return null;
+  if (submission.expectedAmount <= BigInt(0)) {
+    return undefined;
   }
 
-  const verification: TransactionVerification = {
-    signature,
-    expectedAmount,
-    expectedRecipient,
-    expectedSender,
-    submittedAt: Date.now(),
-    status: "pending",
-    confirmations: 0,
-    retryCount: 0,
-  };
-
-  pendingVerifications.set(signature, verification);
-  verificationMetrics.totalVerifications++;
-
-  return verification;
+  const created = await storage.createTransactionVerification({
+    signature: submission.signature,
+    expectedAmount: submission.expectedAmount.toString(),
+    expectedRecipient: submission.expectedRecipient,
+    expectedSender: submission.expectedSender,
+    recentBlockhash: submission.recentBlockhash
+  });
+  return created || storage.getTransactionVerification(submission.signature);
 }
 
 export function updateConfirmations(
@@ -87,101 +43,39 @@ export function updateConfirmations(
   confirmations: number,
   blockHeight: number,
   slot: number
-): boolean {
-  const verification = pendingVerifications.get(signature);
-  
-  if (!verification) return false;
-
-  verification.confirmations = confirmations;
-  verification.blockHeight = blockHeight;
-  verification.slot = slot;
-  verification.status = "confirming";
-
-  if (confirmations >= X402_MIN_CONFIRMATION_BLOCKS) {
-    verification.status = "verified";
-    verification.verifiedAt = Date.now();
-    
-    pendingVerifications.delete(signature);
-    confirmedTransactions.set(signature, verification);
-    
-    recordSuccessfulVerification(verification);
-  }
-
-  return true;
+): Promise<X402TransactionVerification | undefined> {
+  const verified = confirmations >= X402_MIN_CONFIRMATION_BLOCKS;
+  return storage.updateTransactionVerification(signature, {
+    confirmations,
+    blockHeight,
+    slot,
+    status: verified ? X402_VERIFICATION_STATUS.VERIFIED : X402_VERIFICATION_STATUS.CONFIRMING,
+    ...(verified && { verifiedAt: new Date() })
+  });
 }
 
-function recordSuccessfulVerification(verification: TransactionVerification): void {
-  verificationMetrics.successfulVerifications++;
-  
-  if (verification.verifiedAt && verification.submittedAt) {
-    const confirmationTime = verification.verifiedAt - verification.submittedAt;
-    const totalTime = verificationMetrics.averageConfirmationTime * 
-      (verificationMetrics.successfulVerifications - 1);
-    verificationMetrics.averageConfirmationTime = 
-      (totalTime + confirmationTime) / verificationMetrics.successfulVerifications;
-  }
-  
-  const totalConfirmations = verificationMetrics.averageConfirmations * 
-    (verificationMetrics.successfulVerifications - 1);
-  verificationMetrics.averageConfirmations = 
-    (totalConfirmations + verification.confirmations) / verificationMetrics.successfulVerifications;
+export function rejectVerification(signature: string, errorCode: string): Promise<X402TransactionVerification | undefined> {
+  return storage.updateTransactionVerification(signature, {
+    status: X402_VERIFICATION_STATUS.FAILED,
+    errorCode
+  });
 }
 
-export function markVerificationFailed(
-  signature: string,
-  errorCode: string
-): boolean {
-  const verification = pendingVerifications.get(signature);
-  
-  if (!verification) return false;
-
-  verification.retryCount++;
-
-  if (verification.retryCount >= MAX_VERIFICATION_RETRIES) {
-    verification.status = "failed";
-    verification.errorCode = errorCode;
-    pendingVerifications.delete(signature);
-    verificationMetrics.failedVerifications++;
-    return true;
-  }
-
-  return false;
-}
-
-export function checkTimeouts(): string[] {
-  const now = Date.now();
-  const timedOut: string[] = [];
-  const entries = Array.from(pendingVerifications.entries());
-
-  for (const [signature, verification] of entries) {
-    if (now - verification.submittedAt > VERIFICATION_TIMEOUT_MS) {
-      verification.status = "timeout";
-      pendingVerifications.delete(signature);
-      verificationMetrics.timeoutVerifications++;
-      timedOut.push(signature);
-    }
-  }
-
-  return timedOut;
+export function getVerificationStatus(signature: string): Promise<X402TransactionVerification | undefined> {
+  return storage.getTransactionVerification(signature);
 }
 
-export function getVerificationStatus(signature: string): TransactionVerification | null {
-  return pendingVerifications.get(signature) || 
-         confirmedTransactions.get(signature) || 
-         null;
+// Verifications still waiting on the cluster, oldest first.
+export function getOpenVerifications(limit: number = 100): Promise<X402TransactionVerification[]> {
+  return storage.getOpenTransactionVerifications(limit);
 }
 
-export function isTransactionVerified(signature: string): boolean {
-  const verification = confirmedTransactions.get(signature);
-  return verification?.status === "verified";
+export function isVerificationOpen(verification: X402TransactionVerification): boolean {
+  return verification.status === X402_VERIFICATION_STATUS.PENDING ||
+    verification.status === X402_VERIFICATION_STATUS.CONFIRMING;
 }
 
-export function getConfirmationProgress(signature: string): number {
-  const verification = pendingVerifications.get(signature) || 
-                       confirmedTransactions.get(signature);
-  
-  if (!verification) return 0;
-  
+export function getConfirmationProgress(verification: X402TransactionVerification): number {
   return Math.min(100, (verification.confirmations / X402_MIN_CONFIRMATION_BLOCKS) * 100);
 }
 
@@ -190,68 +84,8 @@ export function estimateConfirmationTime(currentConfirmations: number): number {
   return remainingBlocks * BLOCK_TIME_MS;
 }
 
-export function getVerificationMetrics(): VerificationMetrics {
-  return { ...verificationMetrics };
-}
-
-export function getPendingVerifications(): TransactionVerification[] {
-  return Array.from(pendingVerifications.values());
-}
-
-export function getConfirmedTransactions(limit: number = 100): TransactionVerification[] {
-  return Array.from(confirmedTransactions.values()).slice(-limit);
-}
-
-export function verifyTransactionDetails(
-  signature: string,
-  actualAmount: number,
-  actualRecipient: string,
-  actualSender: string
-): { valid: boolean; errors: string[] } {
-  const verification = pendingVerifications.get(signature) || 
-                       confirmedTransactions.get(signature);
-  
-  const errors: string[] = [];
-  
-  if (!verification) {
-    errors.push("Transaction not found in verification system");
-    return { valid: false, errors };
-  }
-
-  if (Math.abs(actualAmount - verification.expectedAmount) > 0.000001) {
-    errors.push(`Amount mismatch: expected ${verification.expectedAmount}, got ${actualAmount}`);
-  }
-
-  if (actualRecipient !== verification.expectedRecipient) {
-    errors.push(`Recipient mismatch: expected ${verification.expectedRecipient}`);
-  }
-
-  if (actualSender !== verification.expectedSender) {
-    errors.push(`Sender mismatch: expected ${verification.expectedSender}`);
-  }
-
-  return { valid: errors.length === 0, errors };
-}
-
-export function clearOldVerifications(maxAgeMs: number = 86400000): number {
-  const now = Date.now();
-  let cleared = 0;
-  const entries = Array.from(confirmedTransactions.entries());
-
-  for (const [signature, verification] of entries) {
-    if (verification.verifiedAt && now - verification.verifiedAt > maxAgeMs) {
-      confirmedTransactions.delete(signature);
-      cleared++;
-    }
-  }
-
-  return cleared;
-}
-
 export const X402_VERIFICATION_CONFIG = {
   version: X402_PROTOCOL_VERSION,
   requiredConfirmations: X402_MIN_CONFIRMATION_BLOCKS,
-  verificationTimeout: VERIFICATION_TIMEOUT_MS,
   estimatedBlockTime: BLOCK_TIME_MS,
-  maxRetries: MAX_VERIFICATION_RETRIES,
 };
@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { decodeBase58 } from "@shared/base58";
+import { validateSolanaAddress } from "@shared/x402";
+import { canonicalize } from "@shared/x402-receipts";
+import { verifyEd25519Signature } from "./x402-svm-facilitator";
+
+const AUTH_MESSAGE_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface WalletAuthRequest {
+  wallet: string;
+  timestamp: number;
+  signature: string;
+}
+
+// Hex SHA-256 of a request body as JSON with keys sorted. Signing it binds a
+// signature to one body, so it cannot be replayed with different values.
+export function hashWalletAuthBody(body: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(canonicalize(body))).digest("hex");
+}
+
+// The exact text a wallet signs (e.g. with Phantom's signMessage) to prove
+// ownership for `action`. Clients must reproduce it byte for byte; actions
+// that change state append a "Body:" line with hashWalletAuthBody of the body.
+export function buildWalletAuthMessage(action: string, wallet: string, timestamp: number, bodyHash?: string): string {
+  const message = `MODEXO x402 ${action}\nWallet: ${wallet}\nTimestamp: ${timestamp}`;
+  return bodyHash === undefined ? message : `${message}\nBody: ${bodyHash}`;
+}
+
+export function verifyWalletAuth(
+  action: string,
+  auth: Partial<WalletAuthRequest>,
+  bodyHash?: string
+): { valid: boolean; error?: string } {
+  const { wallet, timestamp, signature } = auth;
+  if (typeof wallet !== "string" || !validateSolanaAddress(wallet)) {
+    return { valid: false, error: "Valid wallet address required" };
+  }
+  if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+    return { valid: false, error: "Numeric timestamp (ms) required" };
+  }
+  if (Math.abs(Date.now() - timestamp) > AUTH_MESSAGE_MAX_AGE_MS) {
+    return { valid: false, error: "Signed message has expired" };
+  }
+  if (typeof signature !== "string" || !signature) {
+    return { valid: false, error: "Base58 signature required" };
+  }
+
+  let publicKey: Uint8Array;
+  let signatureBytes: Uint8Array;
+  try {
+    publicKey = decodeBase58(wallet);
+    signatureBytes = decodeBase58(signature);
+  } catch {
+    return { valid: false, error: "Invalid base58 encoding" };
+  }
+  if (publicKey.length !== 32 || signatureBytes.length !== 64) {
+    return { valid: false, error: "Invalid wallet or signature length" };
+  }
+
+  const message = new TextEncoder().encode(buildWalletAuthMessage(action, wallet, timestamp, bodyHash));
+  if (!verifyEd25519Signature(publicKey, message, signatureBytes)) {
+    return { valid: false, error: "Signature does not match wallet" };
+  }
+  return { valid: true };
+}
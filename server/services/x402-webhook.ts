@@ -1,9 +1,36 @@
-import type { Request, Response } from "express";
 import crypto from "crypto";
+import { storage } from "../storage";
+import {
+  X402_WEBHOOK_DELIVERY_STATUS,
+  type X402WebhookDelivery,
+  type X402WebhookSubscription
+} from "@shared/schema";
+import { buildWebhookSignatureHeader, X402_WEBHOOK_SIGNATURE_HEADER } from "@shared/x402-webhook";
 
-interface PaymentWebhook {
+const WEBHOOK_EVENTS = [
+  "payment.completed",
+  "payment.failed",
+  "payment.pending",
+  "payment.refunded",
+  "execution.completed",
+  "execution.failed"
+] as const;
+const WORKER_INTERVAL_MS = 5000;
+const DELIVERY_BATCH_SIZE = 25;
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// Consecutive events that exhausted every retry before a subscription is paused.
+const MAX_SUBSCRIPTION_FAILURES = 5;
+const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000;
+const MAX_ROTATION_OVERLAP_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+interface WebhookEvent {
   eventId: string;
-  eventType: "payment.completed" | "payment.failed" | "payment.pending";
+  eventType: WebhookEventType;
   timestamp: string;
   payload: {
     transactionSignature: string;
@@ -13,182 +40,353 @@ interface PaymentWebhook {
     asset: string;
     agentId: string;
     resource: string;
+    refundId?: string;
+    originalTransactionSignature?: string;
+    reason?: string;
+    executionId?: string;
   };
-  signature: string;
 }
 
-interface WebhookSubscription {
-  id: string;
-  url: string;
-  events: string[];
-  secret: string;
-  active: boolean;
-  createdAt: Date;
-  lastDelivery?: Date;
-  failureCount: number;
+export function isWebhookEventType(eventType: string): eventType is WebhookEventType {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(eventType);
 }
 
-const webhookSubscriptions: Map<string, WebhookSubscription> = new Map();
-const webhookDeliveryLog: Array<{
-  subscriptionId: string;
-  eventId: string;
-  status: "success" | "failed";
-  timestamp: Date;
-  responseCode?: number;
-}> = [];
-
-export function registerWebhook(url: string, events: string[]): WebhookSubscription {
-  const id = crypto.randomUUID();
-  const secret = crypto.randomBytes(32).toString("hex");
-  
-  const subscription: WebhookSubscription = {
-    id,
+export async function registerWebhook(url: string, events: string[]): Promise<X402WebhookSubscription> {
+  return storage.createWebhookSubscription({
     url,
     events,
-    secret,
+    secret: generateSecret(),
     active: true,
-    createdAt: new Date(),
     failureCount: 0
-  };
-  
-  webhookSubscriptions.set(id, subscription);
-  return subscription;
+  });
 }
 
-export function unregisterWebhook(subscriptionId: string): boolean {
-  return webhookSubscriptions.delete(subscriptionId);
+export async function unregisterWebhook(subscriptionId: string): Promise<boolean> {
+  return storage.deleteWebhookSubscription(subscriptionId);
 }
 
-export function getWebhook(subscriptionId: string): WebhookSubscription | undefined {
-  return webhookSubscriptions.get(subscriptionId);
+export async function getWebhook(subscriptionId: string): Promise<X402WebhookSubscription | undefined> {
+  return storage.getWebhookSubscription(subscriptionId);
 }
 
-export function getAllWebhooks(): WebhookSubscription[] {
-  return Array.from(webhookSubscriptions.values());
+export async function getAllWebhooks(): Promise<X402WebhookSubscription[]> {
+  return storage.getWebhookSubscriptions();
 }
 
-export function updateWebhookStatus(subscriptionId: string, active: boolean): boolean {
-  const subscription = webhookSubscriptions.get(subscriptionId);
-  if (!subscription) return false;
-  subscription.active = active;
-  return true;
+export async function updateWebhook(
+  subscriptionId: string,
+  updates: { url?: string; events?: string[]; active?: boolean }
+): Promise<X402WebhookSubscription | undefined> {
+  // Reactivating a paused subscription gives it a clean failure count.
+  const failureReset = updates.active ? { failureCount: 0 } : {};
+  return storage.updateWebhookSubscription(subscriptionId, { ...updates, ...failureReset });
 }
 
-function generateSignature(payload: object, secret: string): string {
-  const hmac = crypto.createHmac("sha256", secret);
-  hmac.update(JSON.stringify(payload));
-  return hmac.digest("hex");
+export async function updateWebhookStatus(subscriptionId: string, active: boolean): Promise<boolean> {
+  return Boolean(await updateWebhook(subscriptionId, { active }));
 }
 
-export function verifyWebhookSignature(payload: object, signature: string, secret: string): boolean {
-  const expectedSignature = generateSignature(payload, secret);
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
+// Strips the signing secrets from subscriptions returned by list/get endpoints.
+export function toPublicWebhook(
+  subscription: X402WebhookSubscription
+): Omit<X402WebhookSubscription, "secret" | "previousSecret"> {
+  const { secret: _secret, previousSecret: _previousSecret, ...rest } = subscription;
+  return rest;
 }
 
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// Issues a new secret while the current one stays valid for `overlapMs`, so
+// receivers can deploy the new secret before the old one stops being signed.
+export async function rotateWebhookSecret(
+  subscriptionId: string,
+  overlapMs: number = DEFAULT_ROTATION_OVERLAP_MS
+): Promise<X402WebhookSubscription | undefined> {
+  const subscription = await storage.getWebhookSubscription(subscriptionId);
+  if (!subscription) return undefined;
+
+  const overlap = Math.min(Math.max(0, overlapMs), MAX_ROTATION_OVERLAP_MS);
+  return storage.updateWebhookSubscription(subscriptionId, {
+    secret: generateSecret(),
+    previousSecret: overlap > 0 ? subscription.secret : null,
+    previousSecretExpiresAt: overlap > 0 ? new Date(Date.now() + overlap) : null
+  });
+}
+
+function signingSecrets(subscription: X402WebhookSubscription, now: Date): string[] {
+  const secrets = [subscription.secret];
+  if (subscription.previousSecret && subscription.previousSecretExpiresAt && subscription.previousSecretExpiresAt > now) {
+    secrets.push(subscription.previousSecret);
+  }
+  return secrets;
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1));
+}
+
+// Persists one pending delivery per matching subscription. The worker sends
+// them, so events survive restarts and endpoint outages.
 export async function deliverWebhook(
-  eventType: string,
-  payload: PaymentWebhook["payload"]
-): Promise<void> {
-  const eventId = crypto.randomUUID();
-  const timestamp = new Date().toISOString();
-  
-  const subscriptions = Array.from(webhookSubscriptions.values())
-    .filter(sub => sub.active && sub.events.includes(eventType));
-  
-  for (const subscription of subscriptions) {
-    const webhookPayload: PaymentWebhook = {
-      eventId,
-      eventType: eventType as PaymentWebhook["eventType"],
-      timestamp,
-      payload,
-      signature: generateSignature({ eventId, eventType, timestamp, payload }, subscription.secret)
-    };
-    
-    try {
-      const response = await fetch(subscription.url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Webhook-Signature": webhookPayload.signature,
-          "X-Event-Id": eventId,
-          "X-Event-Type": eventType
-        },
-        body: JSON.stringify(webhookPayload)
-      });
-      
-      webhookDeliveryLog.push({
-        subscriptionId: subscription.id,
-        eventId,
-        status: response.ok ? "success" : "failed",
-        timestamp: new Date(),
-        responseCode: response.status
-      });
-      
-      if (response.ok) {
-        subscription.lastDelivery = new Date();
-        subscription.failureCount = 0;
-      } else {
-        subscription.failureCount++;
-        if (subscription.failureCount >= 5) {
-          subscription.active = false;
-        }
-      }
-    } catch (error) {
-      webhookDeliveryLog.push({
-        subscriptionId: subscription.id,
-        eventId,
-        status: "failed",
-        timestamp: new Date()
-      });
-      subscription.failureCount++;
-    }
+  eventType: WebhookEventType,
+  payload: WebhookEvent["payload"]
+): Promise<X402WebhookDelivery[]> {
+  const event: WebhookEvent = {
+    eventId: crypto.randomUUID(),
+    eventType,
+    timestamp: new Date().toISOString(),
+    payload
+  };
+
+  const subscriptions = await storage.getActiveWebhookSubscriptions(eventType);
+  const deliveries = await storage.createWebhookDeliveries(subscriptions.map(subscription => ({
+    subscriptionId: subscription.id,
+    eventId: event.eventId,
+    eventType,
+    payload: JSON.stringify(event),
+    status: X402_WEBHOOK_DELIVERY_STATUS.PENDING,
+    attempts: 0,
+    nextAttemptAt: new Date()
+  })));
+
+  if (deliveries.length > 0) kickWorker();
+  return deliveries;
+}
+
+// Each attempt is signed afresh, so retries carry a current timestamp.
+async function sendDelivery(delivery: X402WebhookDelivery, subscription: X402WebhookSubscription): Promise<{ ok: boolean; responseCode?: number; error?: string }> {
+  const event: WebhookEvent = JSON.parse(delivery.payload);
+  const body = JSON.stringify(event);
+  const now = new Date();
+  const signature = buildWebhookSignatureHeader(signingSecrets(subscription, now), Math.floor(now.getTime() / 1000), body);
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [X402_WEBHOOK_SIGNATURE_HEADER]: signature,
+        "X-Event-Id": event.eventId,
+        "X-Event-Type": event.eventType,
+        "X-Delivery-Attempt": String(delivery.attempts + 1)
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+    return response.ok
+      ? { ok: true, responseCode: response.status }
+      : { ok: false, responseCode: response.status, error: `Endpoint responded with ${response.status}` };
+  } catch (error: any) {
+    return { ok: false, error: error.message || "Delivery failed" };
+  }
+}
+
+async function attemptDelivery(delivery: X402WebhookDelivery): Promise<void> {
+  const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+  if (!subscription || !subscription.active) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: X402_WEBHOOK_DELIVERY_STATUS.FAILED,
+      errorMessage: subscription ? "Subscription is inactive" : "Subscription no longer exists"
+    });
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const result = await sendDelivery(delivery, subscription);
+
+  if (result.ok) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: X402_WEBHOOK_DELIVERY_STATUS.DELIVERED,
+      attempts,
+      lastAttemptAt: now,
+      responseCode: result.responseCode,
+      errorMessage: null,
+      deliveredAt: now
+    });
+    await storage.updateWebhookSubscription(subscription.id, { lastDeliveryAt: now, failureCount: 0 });
+    return;
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? X402_WEBHOOK_DELIVERY_STATUS.FAILED : X402_WEBHOOK_DELIVERY_STATUS.PENDING,
+    attempts,
+    lastAttemptAt: now,
+    nextAttemptAt: exhausted ? null : new Date(now.getTime() + retryDelay(attempts)),
+    responseCode: result.responseCode ?? null,
+    errorMessage: result.error
+  });
+
+  if (exhausted) {
+    const failureCount = subscription.failureCount + 1;
+    await storage.updateWebhookSubscription(subscription.id, {
+      failureCount,
+      active: failureCount < MAX_SUBSCRIPTION_FAILURES
+    });
   }
 }
 
+export async function processWebhookQueue(): Promise<number> {
+  const due = await storage.getDueWebhookDeliveries(new Date(), DELIVERY_BATCH_SIZE);
+  for (const delivery of due) {
+    await attemptDelivery(delivery).catch(e => console.error(`Webhook delivery ${delivery.id} failed:`, e));
+  }
+  return due.length;
+}
+
+// Puts an event back on the queue for one subscription, whatever its outcome
+// so far. The attempt count restarts so it gets the full retry schedule.
+export async function redeliverEvent(subscriptionId: string, eventId: string): Promise<X402WebhookDelivery | undefined> {
+  const delivery = await storage.getWebhookDelivery(subscriptionId, eventId);
+  if (!delivery) return undefined;
+
+  const requeued = await storage.updateWebhookDelivery(delivery.id, {
+    status: X402_WEBHOOK_DELIVERY_STATUS.PENDING,
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    errorMessage: null,
+    deliveredAt: null
+  });
+  kickWorker();
+  return requeued;
+}
+
+let processing = false;
+let workerStarted = false;
+
+function runQueue(): void {
+  if (processing) return;
+  processing = true;
+  processWebhookQueue()
+    .catch(e => console.error("Webhook queue processing failed:", e))
+    .finally(() => { processing = false; });
+}
+
+function kickWorker(): void {
+  if (workerStarted) setImmediate(runQueue);
+}
+
+export function startWebhookWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+  setInterval(runQueue, WORKER_INTERVAL_MS);
+  runQueue();
+}
+
+function enqueueNotification(eventType: WebhookEventType, payload: WebhookEvent["payload"]): void {
+  deliverWebhook(eventType, payload)
+    .catch(e => console.error(`Failed to enqueue ${eventType} webhook:`, e));
+}
+
 export function notifyPaymentCompleted(
   transactionSignature: string,
   fromWallet: string,
+  toWallet: string,
   amount: string,
+  asset: string,
   agentId: string,
   resource: string
 ): void {
-  deliverWebhook("payment.completed", {
+  enqueueNotification("payment.completed", {
     transactionSignature,
     fromWallet,
-    toWallet: "8ShrffvEuv9Uy4hLECKUGRFo6vN1qhY3Lkr4PDz2U92q",
+    toWallet,
     amount,
-    asset: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    asset,
     agentId,
     resource
   });
 }
 
-export function getDeliveryLogs(subscriptionId?: string, limit: number = 50): typeof webhookDeliveryLog {
-  let logs = webhookDeliveryLog;
-  if (subscriptionId) {
-    logs = logs.filter(log => log.subscriptionId === subscriptionId);
-  }
-  return logs.slice(-limit);
+// Sent when an async call finishes, so callers can subscribe instead of polling.
+export function notifyExecutionFinished(
+  executionId: string,
+  succeeded: boolean,
+  transactionSignature: string,
+  fromWallet: string,
+  amount: string,
+  asset: string,
+  agentId: string,
+  resource: string,
+  reason?: string
+): void {
+  enqueueNotification(succeeded ? "execution.completed" : "execution.failed", {
+    transactionSignature,
+    fromWallet,
+    toWallet: "8ShrffvEuv9Uy4hLECKUGRFo6vN1qhY3Lkr4PDz2U92q",
+    amount,
+    asset,
+    agentId,
+    resource,
+    executionId,
+    ...(reason && { reason })
+  });
+}
+
+export function notifyPaymentRefunded(
+  refundId: string,
+  refundTransactionSignature: string,
+  originalTransactionSignature: string,
+  toWallet: string,
+  amount: string,
+  asset: string,
+  agentId: string,
+  resource: string,
+  reason: string
+): void {
+  enqueueNotification("payment.refunded", {
+    transactionSignature: refundTransactionSignature,
+    fromWallet: "8ShrffvEuv9Uy4hLECKUGRFo6vN1qhY3Lkr4PDz2U92q",
+    toWallet,
+    amount,
+    asset,
+    agentId,
+    resource,
+    refundId,
+    originalTransactionSignature,
+    reason
+  });
 }
 
-export function getWebhookStats(): {
+export async function getDeliveryLogs(subscriptionId?: string, limit: number = 50): Promise<X402WebhookDelivery[]> {
+  return storage.getWebhookDeliveries({ subscriptionId, limit });
+}
+
+export async function getWebhookStats(): Promise<{
   total: number;
   active: number;
   deliveries: number;
+  pending: number;
   successRate: number;
-} {
-  const all = getAllWebhooks();
-  const successfulDeliveries = webhookDeliveryLog.filter(l => l.status === "success").length;
-  
+}> {
+  const all = await getAllWebhooks();
+  const counts = await storage.getWebhookDeliveryCounts();
+  const delivered = counts[X402_WEBHOOK_DELIVERY_STATUS.DELIVERED] || 0;
+  const failed = counts[X402_WEBHOOK_DELIVERY_STATUS.FAILED] || 0;
+  const pending = counts[X402_WEBHOOK_DELIVERY_STATUS.PENDING] || 0;
+
   return {
     total: all.length,
     active: all.filter(w => w.active).length,
-    deliveries: webhookDeliveryLog.length,
-    successRate: webhookDeliveryLog.length > 0 
-      ? (successfulDeliveries / webhookDeliveryLog.length) * 100 
+    deliveries: delivered + failed + pending,
+    pending,
+    successRate: delivered + failed > 0
+      ? (delivered / (delivered + failed)) * 100
       : 100
   };
 }
+
+export const X402_WEBHOOK_CONFIG = {
+  events: WEBHOOK_EVENTS,
+  workerInterval: WORKER_INTERVAL_MS,
+  deliveryTimeout: DELIVERY_TIMEOUT_MS,
+  maxAttempts: MAX_DELIVERY_ATTEMPTS,
+  retryBaseDelay: RETRY_BASE_DELAY_MS,
+  retryMaxDelay: RETRY_MAX_DELAY_MS,
+  maxSubscriptionFailures: MAX_SUBSCRIPTION_FAILURES,
+  defaultRotationOverlap: DEFAULT_ROTATION_OVERLAP_MS,
+  maxRotationOverlap: MAX_ROTATION_OVERLAP_MS,
+};
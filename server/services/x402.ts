@@ -1,47 +1,83 @@
 import type { Request, Response, NextFunction } from "express";
+import { X402_PAYMENT_METHOD, type X402IdempotencyRecord, type X402Payment } from "@shared/schema";
+import type { X402AgentConfig, X402FieldDef, X402ProbeInput } from "@shared/x402";
+import { getFacilitator, type PaymentRequirements, type VerifyResult, type SettleResult, type SettlementReceipt } from "./x402-facilitator";
+import {
+  hashPaymentPayload,
+  hashRequest,
+  parseIdempotencyKey,
+  isPaymentConsumed,
+  claimPayment,
+  consumeClaim,
+  releaseClaim,
+  lookupIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  abandonIdempotentRequest,
+  type PaymentClaim
+} from "./x402-replay";
+import { quotePrice, quoteAcceptedPrices, getX402Network, type AssetQuote } from "./x402-assets";
+import { decodePaymentTransaction, isSignedByAuthority } from "./x402-svm-facilitator";
+import { priceRequest, discountQuote, type PriceQuote } from "./x402-pricing";
+import { authenticateCreditSession, reserveCredits, settleCredits, releaseCredits, getCreditAccount } from "./x402-credits";
+import { checkBudget, type BudgetCheck } from "./x402-budgets";
+import { pricePassPurchase, authenticatePass, recordPassUse } from "./x402-passes";
+import { resolvePromoCode, reservePromoRedemption } from "./x402-promo-codes";
+import { notifyPaymentCompleted, notifyExecutionFinished } from "./x402-webhook";
+import { getAgentConfig, getAgentConfigByResource, getAgentAvailability, getListedAgents } from "./x402-registry";
+import { isHealthProbe, getAgentHealth } from "./x402-health";
+import { validateAgentRequest } from "./x402-openapi";
+import {
+  startExecution,
+  markExecutionRunning,
+  recordExecutionSettlement,
+  completeExecution,
+  failExecution,
+  type ExecutionHandle
+} from "./x402-ledger";
+import { isAsyncRun, wantsAsyncResponse, sendAccepted, asyncJobTarget, enqueueAsyncJob, X402_ASYNC_CONFIG } from "./x402-async";
+import {
+  openPayment,
+  markPaymentSubmitted,
+  markPaymentVerified,
+  markPaymentSettled,
+  markPaymentSettling,
+  markPaymentConsumed,
+  markPaymentFailed
+} from "./x402-payments";
 
-const X402_VERSION = 1;
-const PAYMENT_RECEIVER = "8ShrffvEuv9Uy4hLECKUGRFo6vN1qhY3Lkr4PDz2U92q";
-const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-const SOLANA_NETWORK = "solana";
-const FACILITATOR_URL = "https://facilitator.payai.network";
-
-export interface X402AgentConfig {
-  id: string;
-  name: string;
-  description: string;
-  priceUSD: number;
-  resource: string;
-  method: "GET" | "POST";
-  inputSchema?: {
-    queryParams?: Record<string, FieldDef>;
-    bodyFields?: Record<string, FieldDef>;
-  };
-  outputSchema?: Record<string, any>;
+// What the middleware attaches to a request it lets through, for handlers and
+// the usage, analytics and promo hooks that run after it.
+export interface X402RequestPayment {
+  payer?: string;
+  quote: PriceQuote;
+  executionId?: string;
+  paymentId?: string;
+  creditDebitId?: string;
+  passId?: string;
+  promoCode?: string;
 }
 
-interface FieldDef {
-  type?: string;
-  required?: boolean;
-  description?: string;
-  enum?: string[];
+declare global {
+  namespace Express {
+    interface Request {
+      x402Payment?: X402RequestPayment;
+      // Only set for X-Payment requests. Handlers that need the receipt before
+      // answering, such as top-ups, settle through this; it runs at most once.
+      settlePayment?: () => Promise<SettleResult>;
+    }
+  }
 }
 
+const X402_VERSION = 1;
+export const PAYMENT_RECEIVER = "8ShrffvEuv9Uy4hLECKUGRFo6vN1qhY3Lkr4PDz2U92q";
+const FEE_PAYER = process.env.X402_FEE_PAYER || "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+
+export type { X402AgentConfig, X402FieldDef, X402ProbeInput };
+
 interface X402Response {
   x402Version: number;
-  accepts: Array<{
-    scheme: string;
-    network: string;
-    maxAmountRequired: string;
-    resource: string;
-    description: string;
-    mimeType: string;
-    payTo: string;
-    maxTimeoutSeconds: number;
-    asset: string;
-    outputSchema?: object;
-    extra?: object;
-  }>;
+  accepts: PaymentRequirements[];
 }
 
 export const MODEXO_AGENTS: X402AgentConfig[] = [
@@ -57,7 +93,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         wallet: {
           type: "string",
           required: true,
-          description: "Solana wallet address to analyze"
+          description: "Solana wallet address to analyze",
+          format: "solana-address"
         }
       }
     },
@@ -69,7 +106,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         tokens: { type: "array" },
         analysis: { type: "string" }
       }
-    }
+    },
+    probe: { query: { wallet: PAYMENT_RECEIVER } }
   },
   {
     id: "x402-entry",
@@ -83,7 +121,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         token: {
           type: "string",
           required: true,
-          description: "Token address or symbol to analyze"
+          description: "Token address or symbol to analyze",
+          maxLength: 200
         }
       }
     },
@@ -95,7 +134,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         entryZones: { type: "array" },
         recommendation: { type: "string" }
       }
-    }
+    },
+    probe: { query: { token: "So11111111111111111111111111111111111111112" } }
   },
   {
     id: "x402-liquidity",
@@ -109,7 +149,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         token: {
           type: "string",
           required: true,
-          description: "Token address or symbol to scan"
+          description: "Token address or symbol to scan",
+          maxLength: 200
         }
       }
     },
@@ -121,7 +162,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         healthScore: { type: "number" },
         analysis: { type: "object" }
       }
-    }
+    },
+    probe: { query: { token: "So11111111111111111111111111111111111111112" } }
   },
   {
     id: "x402-whaletracker",
@@ -135,10 +177,22 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         token: {
           type: "string",
           required: true,
-          description: "Token address to track whale activity for"
+          description: "Token address to track whale activity for, or up to 5 comma-separated addresses",
+          format: "solana-address"
+        },
+        depth: {
+          type: "string",
+          required: false,
+          description: "Number of whale trades returned: shallow (5), standard (10) or deep (25)",
+          enum: ["shallow", "standard", "deep"]
         }
       }
     },
+    pricing: {
+      depth: { shallow: 0.5, standard: 1, deep: 2 },
+      batchParam: "token",
+      maxBatchSize: 5
+    },
     outputSchema: {
       type: "object",
       properties: {
@@ -147,7 +201,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         netFlow: { type: "string" },
         whaleCount: { type: "number" }
       }
-    }
+    },
+    probe: { query: { token: "So11111111111111111111111111111111111111112", depth: "shallow" } }
   },
   {
     id: "x402-kyc",
@@ -161,7 +216,8 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         wallet: {
           type: "string",
           required: true,
-          description: "Wallet address to verify"
+          description: "Wallet address to verify",
+          format: "solana-address"
         }
       }
     },
@@ -173,234 +229,976 @@ export const MODEXO_AGENTS: X402AgentConfig[] = [
         riskLevel: { type: "string" },
         flags: { type: "array" }
       }
-    }
+    },
+    probe: { query: { wallet: PAYMENT_RECEIVER } }
   }
 ];
 
-function usdToMicroUSDC(usd: number): string {
+// Not a listed agent: the paid endpoint wallets use to buy prepaid credits.
+export const CREDIT_TOPUP_AGENT: X402AgentConfig = {
+  id: "x402-credits",
+  name: "x402 Prepaid Credits",
+  description: "Top up a prepaid MODEXO credit balance. Later agent calls debit the balance with the returned session token instead of paying on-chain.",
+  priceUSD: 1,
+  resource: "/api/x402/credits/topup",
+  method: "POST",
+  inputSchema: {
+    queryParams: {
+      amount: {
+        type: "number",
+        required: true,
+        description: "USD amount to add to the balance, between 1 and 1000",
+        minimum: 1,
+        maximum: 1000
+      }
+    }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      wallet: { type: "string" },
+      balanceUSD: { type: "number" },
+      sessionToken: { type: "string" },
+      expiresAt: { type: "string" }
+    }
+  },
+  pricing: {
+    amountParam: "amount",
+    maxAmountUSD: 1000
+  }
+};
+
+// Not a listed agent: the paid endpoint wallets use to buy a subscription
+// pass. The price comes from the plan, not from priceUSD.
+export const PASS_PURCHASE_AGENT: X402AgentConfig = {
+  id: "x402-passes",
+  name: "x402 Subscription Passes",
+  description: "Buy a time-boxed MODEXO pass. Calls to the agents it covers are free while it is active, using the returned pass token instead of paying per call.",
+  priceUSD: 1,
+  resource: "/api/x402/passes/purchase",
+  method: "POST",
+  inputSchema: {
+    queryParams: {
+      plan: {
+        type: "string",
+        required: true,
+        description: "ID of the pass plan to buy, from GET /api/x402/passes/plans"
+      }
+    }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      pass: { type: "object" },
+      token: { type: "string" },
+      transaction: { type: "string" }
+    }
+  }
+};
+
+// Service agents sell access rather than run a call, so probes, async mode,
+// credits, passes and promo codes never apply to them.
+export function isServiceAgent(agentId: string): boolean {
+  return agentId === CREDIT_TOPUP_AGENT.id || agentId === PASS_PURCHASE_AGENT.id;
+}
+
+export function usdToMicroUSDC(usd: number): string {
   return Math.round(usd * 1_000_000).toString();
 }
 
-export function create402Response(agent: X402AgentConfig, baseUrl: string): X402Response {
+function buildPaymentOption(
+  agent: X402AgentConfig,
+  resourceUrl: string,
+  quote: AssetQuote,
+  priceQuote: PriceQuote
+): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: getX402Network(),
+    maxAmountRequired: quote.amount,
+    resource: resourceUrl,
+    description: agent.description,
+    mimeType: "application/json",
+    payTo: PAYMENT_RECEIVER,
+    maxTimeoutSeconds: 60,
+    asset: quote.asset.address,
+    outputSchema: {
+      input: {
+        type: "http",
+        method: agent.method,
+        ...(agent.inputSchema?.queryParams && { queryParams: agent.inputSchema.queryParams }),
+        ...(agent.inputSchema?.bodyFields && { bodyFields: agent.inputSchema.bodyFields })
+      },
+      output: agent.outputSchema
+    },
+    extra: {
+      agentId: agent.id,
+      agentName: agent.name,
+      platform: "MODEXO",
+      category: "AI Utility",
+      name: quote.asset.name,
+      symbol: quote.asset.symbol,
+      decimals: quote.asset.decimals,
+      ...(quote.asset.symbol === "USDC" && { version: "2" }),
+      ...(quote.solUsdRate && { solUsdRate: quote.solUsdRate.rate, rateSource: quote.solUsdRate.source }),
+      quote: {
+        id: priceQuote.id,
+        priceUSD: priceQuote.priceUSD,
+        basePriceUSD: priceQuote.basePriceUSD,
+        complexity: priceQuote.complexity,
+        ...priceQuote.inputs
+      },
+      feePayer: FEE_PAYER
+    }
+  };
+}
+
+export function create402Response(agent: X402AgentConfig, baseUrl: string, quote: PriceQuote): X402Response {
   const fullResourceUrl = `${baseUrl}${agent.resource}`;
-  
+
   return {
     x402Version: X402_VERSION,
-    accepts: [
-      {
-        scheme: "exact",
-        network: SOLANA_NETWORK,
-        maxAmountRequired: usdToMicroUSDC(agent.priceUSD),
-        resource: fullResourceUrl,
-        description: agent.description,
-        mimeType: "application/json",
-        payTo: PAYMENT_RECEIVER,
-        maxTimeoutSeconds: 60,
-        asset: USDC_MINT,
-        outputSchema: {
-          input: {
-            type: "http",
-            method: agent.method,
-            ...(agent.inputSchema?.queryParams && { queryParams: agent.inputSchema.queryParams }),
-            ...(agent.inputSchema?.bodyFields && { bodyFields: agent.inputSchema.bodyFields })
-          },
-          output: agent.outputSchema
-        },
-        extra: {
-          agentId: agent.id,
-          agentName: agent.name,
-          platform: "MODEXO",
-          category: "AI Utility",
-          name: "USD Coin",
-          version: "2",
-          feePayer: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4"
-        }
-      }
-    ]
+    accepts: quotePrice(quote.priceUSD).map(assetQuote => buildPaymentOption(agent, fullResourceUrl, assetQuote, quote))
   };
 }
 
 export function getAgentById(agentId: string): X402AgentConfig | undefined {
-  return MODEXO_AGENTS.find(a => a.id === agentId);
+  if (agentId === CREDIT_TOPUP_AGENT.id) return CREDIT_TOPUP_AGENT;
+  if (agentId === PASS_PURCHASE_AGENT.id) return PASS_PURCHASE_AGENT;
+  return getAgentConfig(agentId);
 }
 
 export function getAgentByResource(resource: string): X402AgentConfig | undefined {
-  return MODEXO_AGENTS.find(a => a.resource === resource);
+  return getAgentConfigByResource(resource);
+}
+
+// Reads which asset and amount the payer chose. Local payloads may state them
+// explicitly; otherwise they are decoded from the signed transaction.
+function identifyPaymentChoice(paymentPayload: any): { asset?: string; amount?: string } {
+  const inner = paymentPayload?.payload || {};
+  if (typeof inner.asset === "string") {
+    return { asset: inner.asset, amount: inner.amount !== undefined ? String(inner.amount) : undefined };
+  }
+  if (typeof inner.transaction !== "string") return {};
+
+  const { payment } = decodePaymentTransaction(inner.transaction);
+  if (!payment) return {};
+  return { asset: payment.transfer.mint, amount: payment.transfer.amount.toString() };
 }
 
-async function verifyPaymentWithFacilitator(paymentPayload: any, agent: X402AgentConfig, resourceUrl: string): Promise<{ valid: boolean; error?: string }> {
+// Identifies the wallet behind a request from signed material only: the
+// authority signature on an X-Payment transaction, or a credit session token.
+// Local development payloads are trusted as-is. Returns undefined otherwise,
+// including when the session store cannot be reached.
+export async function identifyPayingWallet(req: Request): Promise<string | undefined> {
+  const sessionToken = req.headers["x-session-token"];
+  if (typeof sessionToken === "string") {
+    try {
+      const auth = await authenticateCreditSession(sessionToken);
+      if (auth.walletAddress) return auth.walletAddress;
+    } catch (e) {
+      console.error("x402 session lookup failed:", e);
+    }
+  }
+
+  const paymentHeader = req.headers["x-payment"];
+  if (typeof paymentHeader !== "string") return undefined;
+
+  let paymentPayload: any;
   try {
-    // Build payment requirements matching x402 spec
-    const paymentRequirements = {
-      scheme: "exact",
-      network: SOLANA_NETWORK,
-      maxAmountRequired: usdToMicroUSDC(agent.priceUSD),
-      asset: USDC_MINT,
-      payTo: PAYMENT_RECEIVER,
-      resource: resourceUrl,
-      description: agent.description,
-      mimeType: "application/json",
-      maxTimeoutSeconds: 60,
-      extra: {
-        feePayer: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4"
-      }
-    };
+    paymentPayload = JSON.parse(Buffer.from(paymentHeader, "base64").toString());
+  } catch {
+    return undefined;
+  }
 
-    console.log("Verifying payment with facilitator. Payload keys:", Object.keys(paymentPayload));
-    console.log("Payment payload:", JSON.stringify(paymentPayload).substring(0, 500));
+  const inner = paymentPayload?.payload || {};
+  if (getFacilitator().kind === "local" && typeof inner.payer === "string") {
+    return inner.payer;
+  }
+  if (typeof inner.transaction !== "string") return undefined;
 
-    // Format as expected by PayAI facilitator
-    const requestBody = {
-      paymentPayload: paymentPayload,
-      paymentRequirements: paymentRequirements
-    };
+  const { payment } = decodePaymentTransaction(inner.transaction);
+  return payment && isSignedByAuthority(payment) ? payment.transfer.authority : undefined;
+}
 
-    console.log("Request body:", JSON.stringify(requestBody).substring(0, 500));
+// Picks the advertised option the payment was made against, so the facilitator
+// verifies it with the same requirements the payer saw in the 402.
+function selectPaymentRequirements(
+  paymentPayload: any,
+  agent: X402AgentConfig,
+  resourceUrl: string,
+  priceQuote: PriceQuote
+): { requirements?: PaymentRequirements; error?: string } {
+  const options = quoteAcceptedPrices(priceQuote.priceUSD)
+    .map(quote => buildPaymentOption(agent, resourceUrl, quote, priceQuote))
+    .filter(option => option.scheme === paymentPayload?.scheme && option.network === paymentPayload?.network);
+  if (options.length === 0) {
+    return { error: `Unsupported payment network: expected ${getX402Network()}` };
+  }
 
-    const response = await fetch(`${FACILITATOR_URL}/verify`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(requestBody)
-    });
+  const choice = identifyPaymentChoice(paymentPayload);
+  if (!choice.asset) return { requirements: options[0] };
 
-    const responseText = await response.text();
-    console.log("Facilitator verify raw response:", responseText);
+  const forAsset = options.filter(option => option.asset === choice.asset);
+  if (forAsset.length === 0) {
+    return { error: `Unsupported payment asset: ${choice.asset}` };
+  }
 
-    let result: any;
-    try {
-      result = JSON.parse(responseText);
-    } catch {
-      return { valid: false, error: `Invalid facilitator response: ${responseText.substring(0, 200)}` };
-    }
+  // The price is recomputed from this request, so a payment signed for a
+  // cheaper quote (shallower depth, smaller batch, lower priority) is refused
+  // here whichever facilitator is configured.
+  const matching = forAsset.find(option => option.maxAmountRequired === choice.amount);
+  if (choice.amount !== undefined && !matching) {
+    return { error: `Payment amount ${choice.amount} does not match the ${forAsset[0].maxAmountRequired} quoted for this request` };
+  }
+  return { requirements: matching || forAsset[0] };
+}
+
+async function verifyPaymentWithFacilitator(paymentPayload: any, requirements: PaymentRequirements): Promise<VerifyResult> {
+  return getFacilitator().verify(paymentPayload, requirements);
+}
+
+async function settlePaymentWithFacilitator(paymentPayload: any, requirements: PaymentRequirements): Promise<SettleResult> {
+  return getFacilitator().settle(paymentPayload, requirements);
+}
+
+interface SettlementFailure {
+  agentId: string;
+  resource: string;
+  statusCode: number;
+  error: string;
+  receipt?: any;
+  timestamp: Date;
+}
+
+const MAX_SETTLEMENT_FAILURES = 500;
+const settlementFailures: SettlementFailure[] = [];
+
+function recordSettlementFailure(failure: SettlementFailure): void {
+  console.error(`Settlement failed for ${failure.agentId} (${failure.resource}):`, failure.error);
+  settlementFailures.push(failure);
+  if (settlementFailures.length > MAX_SETTLEMENT_FAILURES) {
+    settlementFailures.shift();
+  }
+}
+
+export function getSettlementFailures(limit: number = 50): SettlementFailure[] {
+  return settlementFailures.slice(-limit);
+}
+
+function encodePaymentResponseHeader(receipt: any): string {
+  return Buffer.from(JSON.stringify(receipt)).toString("base64");
+}
 
-    if (!response.ok) {
-      return { valid: false, error: result.error || result.message || `HTTP ${response.status}` };
+interface SettlementHooks {
+  onSettled?: (statusCode: number, body: string, receipt: SettlementReceipt | undefined, paymentResponse: string) => Promise<void>;
+  onUnsettled?: (statusCode: number, body: string, reason: string) => Promise<void>;
+  onPending?: (statusCode: number, body: string, transaction: string) => Promise<void>;
+}
+
+function serializeBody(body: any): string {
+  if (typeof body === "string") return body;
+  if (Buffer.isBuffer(body)) return body.toString();
+  return JSON.stringify(body ?? null);
+}
+
+function runHook(name: string, hook: () => Promise<void>): void {
+  hook().catch(e => console.error(`x402 ${name} hook failed:`, e));
+}
+
+// Rejections are answered right away; the payment record catches up in the background.
+function failPaymentInBackground(payment: X402Payment | undefined, reason: string): void {
+  if (!payment) return;
+  runHook("payment", async () => { await markPaymentFailed(payment.id, reason); });
+}
+
+// Settles the verified payment only once the handler answers with a 2xx, then
+// attaches the facilitator receipt as X-PAYMENT-RESPONSE. Non-2xx responses are
+// passed through unsettled, so the payer is never charged for a failed call.
+function settleOnSuccess(
+  res: Response,
+  agent: X402AgentConfig,
+  baseUrl: string,
+  quote: PriceQuote,
+  settle: () => Promise<SettleResult>,
+  hooks: SettlementHooks = {}
+): void {
+  const originalSend = res.send;
+  let settlementStarted = false;
+
+  res.send = function (this: Response, body?: any) {
+    if (settlementStarted) {
+      return originalSend.call(this, body);
     }
-    
-    // Check for valid/verified fields
-    if (result.valid === false || result.verified === false) {
-      return { valid: false, error: result.reason || result.invalidReason || result.message || "Payment verification failed" };
+    settlementStarted = true;
+
+    if (res.statusCode < 200 || res.statusCode >= 300) {
+      if (hooks.onUnsettled) {
+        const statusCode = res.statusCode;
+        runHook("unsettled", () => hooks.onUnsettled!(statusCode, serializeBody(body), `Handler responded with ${statusCode}`));
+      }
+      return originalSend.call(this, body);
     }
 
-    return { valid: true };
-  } catch (e: any) {
-    console.error("Facilitator verify error:", e);
-    return { valid: false, error: `Facilitator error: ${e.message}` };
+    settle()
+      .catch((e: any): SettleResult => ({ success: false, error: `Settlement error: ${e.message}` }))
+      .then(result => {
+        if (result.success) {
+          const paymentResponse = encodePaymentResponseHeader(result.receipt);
+          res.setHeader("X-PAYMENT-RESPONSE", paymentResponse);
+          res.setHeader("Access-Control-Expose-Headers", "X-PAYMENT-RESPONSE");
+          if (hooks.onSettled) {
+            const statusCode = res.statusCode;
+            runHook("settled", () => hooks.onSettled!(statusCode, serializeBody(body), result.receipt, paymentResponse));
+          }
+          originalSend.call(res, body);
+          return;
+        }
+
+        recordSettlementFailure({
+          agentId: agent.id,
+          resource: agent.resource,
+          statusCode: res.statusCode,
+          error: result.error || "Unknown settlement error",
+          receipt: result.receipt,
+          timestamp: new Date()
+        });
+        // A transaction that may still land keeps its claim, so the same
+        // payment cannot be presented again until it is reconciled.
+        const pendingTransaction = result.pending && hooks.onPending ? result.receipt?.transaction : undefined;
+        const statusCode = res.statusCode;
+        if (pendingTransaction) {
+          runHook("pending", () => hooks.onPending!(statusCode, serializeBody(body), pendingTransaction));
+        } else if (hooks.onUnsettled) {
+          runHook("unsettled", () => hooks.onUnsettled!(statusCode, serializeBody(body), `Settlement failed: ${result.error}`));
+        }
+
+        res.status(402);
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        originalSend.call(res, JSON.stringify({
+          x402Version: X402_VERSION,
+          error: `Payment settlement failed: ${result.error}`,
+          ...(pendingTransaction && { settlementPending: true, transaction: pendingTransaction }),
+          accepts: create402Response(agent, baseUrl, quote).accepts
+        }));
+      });
+
+    return res;
+  } as Response["send"];
+}
+
+function overBudgetResponse(check: BudgetCheck, agent: X402AgentConfig, baseUrl: string, quote: PriceQuote): object {
+  return {
+    x402Version: X402_VERSION,
+    error: check.error,
+    budget: { limit: check.limit, limitUSD: check.limitUSD, remainingUSD: check.remainingUSD },
+    accepts: create402Response(agent, baseUrl, quote).accepts
+  };
+}
+
+function replayIdempotentResponse(res: Response, record: X402IdempotencyRecord): void {
+  res.status(record.statusCode || 200);
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Idempotent-Replayed", "true");
+  if (record.paymentResponse) {
+    res.setHeader("X-PAYMENT-RESPONSE", record.paymentResponse);
+    res.setHeader("Access-Control-Expose-Headers", "X-PAYMENT-RESPONSE");
   }
+  res.send(record.responseBody ?? "null");
 }
 
-async function settlePaymentWithFacilitator(paymentPayload: any, agent: X402AgentConfig, resourceUrl: string): Promise<{ success: boolean; receipt?: any; error?: string }> {
+interface CreditRequestContext {
+  agent: X402AgentConfig;
+  baseUrl: string;
+  quote: PriceQuote;
+  sessionToken: string;
+  idempotencyKey?: string;
+  requestHash: string;
+  asyncMode: boolean;
+}
+
+// Serves a paid call from the wallet's prepaid balance instead of an X-Payment.
+// The price is reserved up front and only kept when the handler succeeds,
+// mirroring settle-on-success for on-chain payments.
+async function serveWithCredits(req: Request, res: Response, next: NextFunction, ctx: CreditRequestContext) {
+  const { agent, baseUrl, quote } = ctx;
+
+  let auth: Awaited<ReturnType<typeof authenticateCreditSession>>;
   try {
-    const paymentRequirements = {
-      scheme: "exact",
-      network: SOLANA_NETWORK,
-      maxAmountRequired: usdToMicroUSDC(agent.priceUSD),
-      asset: USDC_MINT,
-      payTo: PAYMENT_RECEIVER,
-      resource: resourceUrl,
-      description: agent.description,
-      mimeType: "application/json",
-      maxTimeoutSeconds: 60,
-      extra: {
-        feePayer: "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4"
+    auth = await authenticateCreditSession(ctx.sessionToken);
+  } catch (e) {
+    console.error("x402 session lookup failed:", e);
+    return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+  }
+  if (!auth.walletAddress) {
+    return res.status(401).json({ error: auth.error });
+  }
+  const walletAddress = auth.walletAddress;
+
+  let reservation: Awaited<ReturnType<typeof reserveCredits>>;
+  let idempotencyRecord: X402IdempotencyRecord | undefined;
+  let execution: ExecutionHandle;
+  let payment: X402Payment | undefined;
+  try {
+    if (ctx.idempotencyKey) {
+      const lookup = await lookupIdempotentRequest(agent.id, ctx.idempotencyKey, ctx.requestHash, { payer: walletAddress });
+      if (lookup.kind === "replay") {
+        return replayIdempotentResponse(res, lookup.record);
       }
-    };
+      if (lookup.kind === "conflict") {
+        return res.status(lookup.status).json({ error: lookup.error });
+      }
+    }
 
-    console.log("Settling payment with facilitator");
+    payment = await openPayment({
+      quote,
+      agentId: agent.id,
+      resource: agent.resource,
+      method: X402_PAYMENT_METHOD.CREDITS,
+      walletAddress
+    });
+    res.setHeader("X-Payment-Id", payment.id);
 
-    const requestBody = {
-      paymentPayload: paymentPayload,
-      paymentRequirements: paymentRequirements
-    };
+    const budget = await checkBudget(walletAddress, agent.id, quote.priceUSD);
+    if (!budget.allowed) {
+      failPaymentInBackground(payment, budget.error || "Wallet budget exceeded");
+      return res.status(402).json(overBudgetResponse(budget, agent, baseUrl, quote));
+    }
+
+    reservation = await reserveCredits(walletAddress, agent.id, quote.priceUSD, quote.id);
+    if (!reservation) {
+      failPaymentInBackground(payment, "Insufficient credit balance");
+      const account = await getCreditAccount(walletAddress);
+      return res.status(402).json({
+        x402Version: X402_VERSION,
+        error: "Insufficient credit balance",
+        balanceUSD: account?.balanceUSD ?? 0,
+        priceUSD: quote.priceUSD,
+        accepts: create402Response(agent, baseUrl, quote).accepts
+      });
+    }
 
-    const response = await fetch(`${FACILITATOR_URL}/settle`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(requestBody)
+    await markPaymentSubmitted(payment.id, { network: "prepaid-credits", creditDebitId: reservation.debit.id });
+
+    if (ctx.idempotencyKey) {
+      idempotencyRecord = await beginIdempotentRequest(agent.id, ctx.idempotencyKey, ctx.requestHash, `credit:${reservation.debit.id}`, walletAddress);
+      if (!idempotencyRecord) {
+        await releaseCredits(reservation.debit, "Concurrent idempotent request");
+        failPaymentInBackground(payment, "Concurrent idempotent request");
+        return res.status(409).json({ error: "A request with this Idempotency-Key is still in progress" });
+      }
+    }
+
+    execution = await startExecution({
+      agentId: agent.id,
+      resource: agent.resource,
+      walletAddress,
+      paymentAmount: quote.priceUSD,
+      paymentType: "prepaid_credit",
+      async: ctx.asyncMode,
+      input: { method: req.method, query: req.query, body: req.body }
     });
+    // Linked to the execution now, so reserved credits can be found and given
+    // back if the process stops before the call finishes.
+    await markPaymentVerified(payment.id, walletAddress, execution.id);
+    await markExecutionRunning(execution, ctx.asyncMode ? X402_ASYNC_CONFIG.executionTimeout : undefined);
+  } catch (e) {
+    console.error("x402 credit reservation failed:", e);
+    failPaymentInBackground(payment, "Payment processing temporarily unavailable");
+    return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+  }
 
-    const responseText = await response.text();
-    console.log("Facilitator settle raw response:", responseText);
+  const creditPayment = payment;
+  const { debit, account } = reservation;
+  res.setHeader("X-Execution-Id", execution.id);
+  res.setHeader("X-Credit-Balance", account.balanceUSD.toFixed(6));
 
-    let result: any;
-    try {
-      result = JSON.parse(responseText);
-    } catch {
-      return { success: false, error: `Invalid facilitator response: ${responseText.substring(0, 200)}` };
+  const settleDebit = async (): Promise<SettleResult> => {
+    await settleCredits(debit, execution.id);
+    return {
+      success: true,
+      receipt: { success: true, transaction: `credit_${debit.id}`, network: "prepaid-credits", payer: walletAddress }
+    };
+  };
+
+  req.x402Payment = {
+    payer: walletAddress,
+    quote,
+    executionId: execution.id,
+    creditDebitId: debit.id,
+    paymentId: creditPayment.id
+  };
+
+  // Async calls keep the credits reserved until the job finishes, so a failed
+  // job costs nothing, just like a failed synchronous call.
+  if (ctx.asyncMode) {
+    const transaction = `credit_${debit.id}`;
+    const amount = usdToMicroUSDC(quote.priceUSD);
+    enqueueAsyncJob({
+      executionId: execution.id,
+      agentId: agent.id,
+      agentName: agent.name,
+      ...asyncJobTarget(req),
+      onCompleted: async (output) => {
+        await settleDebit();
+        await markPaymentSettled(creditPayment.id, transaction, execution.id);
+        await completeExecution(execution, output);
+        await markPaymentConsumed(creditPayment.id, execution.id);
+        notifyExecutionFinished(execution.id, true, transaction, walletAddress, amount, "prepaid-credits", agent.id, agent.resource);
+      },
+      onFailed: async (reason, output) => {
+        await releaseCredits(debit, reason);
+        await markPaymentFailed(creditPayment.id, reason);
+        await failExecution(execution, reason, output);
+        notifyExecutionFinished(execution.id, false, transaction, walletAddress, amount, "prepaid-credits", agent.id, agent.resource, reason);
+      }
+    });
+    const body = sendAccepted(res, baseUrl, execution.id);
+    if (idempotencyRecord) {
+      const record = idempotencyRecord;
+      runHook("idempotency", () => completeIdempotentRequest(record, 202, body));
     }
+    return;
+  }
 
-    if (!response.ok) {
-      return { success: false, error: result.error || result.message || `HTTP ${response.status}` };
+  settleOnSuccess(res, agent, baseUrl, quote, settleDebit, {
+    onSettled: async (statusCode, body, receipt, paymentResponse) => {
+      await markPaymentSettled(creditPayment.id, receipt?.transaction || `credit_${debit.id}`, execution.id);
+      await completeExecution(execution, body);
+      await markPaymentConsumed(creditPayment.id, execution.id);
+      if (idempotencyRecord) {
+        await completeIdempotentRequest(idempotencyRecord, statusCode, body, paymentResponse);
+      }
+    },
+    onUnsettled: async (_statusCode, body, reason) => {
+      await releaseCredits(debit, reason);
+      await markPaymentFailed(creditPayment.id, reason);
+      await failExecution(execution, reason, body);
+      if (idempotencyRecord) {
+        await abandonIdempotentRequest(idempotencyRecord);
+      }
     }
+  });
 
-    return { success: true, receipt: result };
-  } catch (e: any) {
-    console.error("Facilitator settle error:", e);
-    return { success: false, error: `Settlement error: ${e.message}` };
+  next();
+}
+
+// Serves a call covered by a subscription pass. Nothing is charged, so no
+// payment or execution is recorded; the pass counts the use once the handler
+// succeeds. Covered calls always run synchronously.
+async function servePassCall(req: Request, res: Response, next: NextFunction, agent: X402AgentConfig, baseUrl: string, quote: PriceQuote, token: string) {
+  let auth: Awaited<ReturnType<typeof authenticatePass>>;
+  try {
+    auth = await authenticatePass(token, agent.id);
+  } catch (e) {
+    console.error("x402 pass lookup failed:", e);
+    return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+  }
+  if (!auth.pass) {
+    if (auth.status === 401) {
+      return res.status(401).json({ error: auth.error });
+    }
+    return res.status(402).json({
+      x402Version: X402_VERSION,
+      error: auth.error,
+      accepts: create402Response(agent, baseUrl, quote).accepts
+    });
   }
+
+  const pass = auth.pass;
+  res.setHeader("X-Pass-Expires", pass.expiresAt.toISOString());
+  req.x402Payment = { payer: pass.walletAddress, quote: { ...quote, priceUSD: 0 }, passId: pass.id };
+  res.on("finish", () => {
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      runHook("pass use", () => recordPassUse(pass.id));
+    }
+  });
+  next();
 }
 
 export function x402Middleware(agentId: string) {
   return async (req: Request, res: Response, next: NextFunction) => {
+    // Health probes from this server run the handler without payment, even
+    // while the agent is in maintenance, so recovery can be detected. Async
+    // jobs replay a call that was already paid for.
+    if (!isServiceAgent(agentId) && (isHealthProbe(req) || isAsyncRun(req))) {
+      return next();
+    }
+
+    if (!isServiceAgent(agentId)) {
+      const availability = getAgentAvailability(agentId);
+      if (!availability.available) {
+        if (availability.retryAfter) res.setHeader("Retry-After", availability.retryAfter);
+        return res.status(availability.statusCode!).json({ error: availability.error });
+      }
+    }
+
     const agent = getAgentById(agentId);
     if (!agent) {
       return res.status(404).json({ error: "Agent not found" });
     }
 
+    // Reject malformed input before quoting so it never costs the caller.
+    const inputErrors = validateAgentRequest(agent, req);
+    if (inputErrors.length > 0) {
+      return res.status(400).json({ error: "Invalid request", details: inputErrors });
+    }
+
     const paymentHeader = req.headers["x-payment"] as string | undefined;
     const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
     const baseUrl = `${protocol}://${req.get("host")}`;
     const resourceUrl = `${baseUrl}${agent.resource}`;
 
-    if (!paymentHeader) {
-      console.log("No X-Payment header, returning 402");
-      return res.status(402).json(create402Response(agent, baseUrl));
+    const idempotency = parseIdempotencyKey(req);
+    if (idempotency.error) {
+      return res.status(400).json({ error: idempotency.error });
+    }
+    const requestHash = hashRequest(req, agent.id);
+
+    let pricing: { quote?: PriceQuote; error?: string };
+    try {
+      pricing = agent.id === PASS_PURCHASE_AGENT.id ? await pricePassPurchase(agent, req) : priceRequest(agent, req);
+    } catch (e) {
+      console.error("x402 pricing failed:", e);
+      return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+    }
+    if (!pricing.quote) {
+      return res.status(400).json({ error: pricing.error });
+    }
+    let quote = pricing.quote;
+    const serviceAgent = isServiceAgent(agent.id);
+    const asyncMode = !serviceAgent && wantsAsyncResponse(req);
+    const sessionToken = req.headers["x-session-token"] as string | undefined;
+
+    // An active pass covers the call outright, before any challenge is issued.
+    const passToken = req.headers["x-pass-token"];
+    if (typeof passToken === "string" && !paymentHeader && !serviceAgent) {
+      res.setHeader("X-Quote-Id", quote.id);
+      return servePassCall(req, res, next, agent, baseUrl, quote, passToken);
+    }
+
+    // A promo code discounts the quote, so the 402 challenge already asks for
+    // the reduced price. A redemption is only taken once the call is paid for,
+    // or straight away when the code waives the price.
+    const promoCode = req.headers["x-promo-code"];
+    if (typeof promoCode === "string" && !serviceAgent) {
+      try {
+        const resolved = await resolvePromoCode(promoCode, agent.id);
+        if (!resolved.promo) {
+          return res.status(400).json({ error: resolved.error });
+        }
+        quote = discountQuote(quote, resolved.promo.percentOff, resolved.promo.code);
+        if ((quote.priceUSD === 0 || paymentHeader || sessionToken) && !(await reservePromoRedemption(req, res, quote))) {
+          return res.status(400).json({ error: "Promo code has been fully redeemed" });
+        }
+      } catch (e) {
+        console.error("x402 promo code lookup failed:", e);
+        return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+      }
+    }
+    res.setHeader("X-Quote-Id", quote.id);
+
+    if (quote.priceUSD === 0) {
+      req.x402Payment = { payer: await identifyPayingWallet(req), quote, promoCode: quote.promoCode };
+      return next();
     }
 
-    console.log("X-Payment header received, length:", paymentHeader.length);
+    if (sessionToken && !paymentHeader && !serviceAgent) {
+      return serveWithCredits(req, res, next, {
+        agent,
+        baseUrl,
+        quote,
+        sessionToken,
+        idempotencyKey: idempotency.key,
+        requestHash,
+        asyncMode
+      });
+    }
 
     let paymentPayload: any;
+    if (paymentHeader) {
+      try {
+        paymentPayload = JSON.parse(Buffer.from(paymentHeader, "base64").toString());
+      } catch {
+        return res.status(402).json({
+          x402Version: X402_VERSION,
+          error: "Invalid payment header format",
+          accepts: create402Response(agent, baseUrl, quote).accepts
+        });
+      }
+    }
+    const payloadHash = paymentPayload ? hashPaymentPayload(paymentPayload) : undefined;
+
+    let payment: X402Payment;
     try {
-      paymentPayload = JSON.parse(Buffer.from(paymentHeader, "base64").toString());
-      console.log("Decoded payment payload keys:", Object.keys(paymentPayload));
+      if (idempotency.key) {
+        const lookup = await lookupIdempotentRequest(agent.id, idempotency.key, requestHash, { payloadHash });
+        if (lookup.kind === "replay") {
+          return replayIdempotentResponse(res, lookup.record);
+        }
+        if (lookup.kind === "conflict") {
+          return res.status(lookup.status).json({ error: lookup.error });
+        }
+      }
+
+      if (!paymentPayload || !payloadHash) {
+        return res.status(402).json(create402Response(agent, baseUrl, quote));
+      }
+
+      if (await isPaymentConsumed(payloadHash)) {
+        return res.status(402).json({
+          x402Version: X402_VERSION,
+          error: "Payment has already been used",
+          accepts: create402Response(agent, baseUrl, quote).accepts
+        });
+      }
+
+      payment = await openPayment({ quote, agentId: agent.id, resource: agent.resource, method: X402_PAYMENT_METHOD.X402 });
+      res.setHeader("X-Payment-Id", payment.id);
     } catch (e) {
-      console.log("Failed to decode payment header:", e);
+      console.error("x402 replay check failed:", e);
+      return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+    }
+
+    const expectedQuote = req.headers["x-quote-id"];
+    if (expectedQuote !== undefined && expectedQuote !== quote.id) {
+      failPaymentInBackground(payment, "Quote does not match this request");
+      return res.status(402).json({
+        x402Version: X402_VERSION,
+        error: "Quote does not match this request",
+        accepts: create402Response(agent, baseUrl, quote).accepts
+      });
+    }
+
+    const selection = selectPaymentRequirements(paymentPayload, agent, resourceUrl, quote);
+    if (!selection.requirements) {
+      failPaymentInBackground(payment, selection.error || "No matching payment requirements");
       return res.status(402).json({
         x402Version: X402_VERSION,
-        error: "Invalid payment header format",
-        accepts: create402Response(agent, baseUrl).accepts
+        error: selection.error,
+        accepts: create402Response(agent, baseUrl, quote).accepts
       });
     }
+    const requirements = selection.requirements;
 
-    // Verify payment with facilitator
-    const verification = await verifyPaymentWithFacilitator(paymentPayload, agent, resourceUrl);
+    // The payer's budget is checked before the payment goes anywhere near the
+    // facilitator. Payments that name no signed payer fail verification anyway.
+    const payer = await identifyPayingWallet(req);
+    try {
+      if (payer) {
+        const budget = await checkBudget(payer, agent.id, quote.priceUSD);
+        if (!budget.allowed) {
+          failPaymentInBackground(payment, budget.error || "Wallet budget exceeded");
+          return res.status(402).json(overBudgetResponse(budget, agent, baseUrl, quote));
+        }
+      }
+
+      await markPaymentSubmitted(payment.id, {
+        network: requirements.network,
+        asset: requirements.asset,
+        amount: requirements.maxAmountRequired,
+        payloadHash
+      });
+    } catch (e) {
+      console.error("x402 payment tracking failed:", e);
+      return res.status(503).json({ error: "Payment processing temporarily unavailable" });
+    }
+
+    // Verify payment with facilitator. A facilitator that cannot be reached
+    // says nothing about the payment, so that is a 502 rather than a 402.
+    let verification: VerifyResult;
+    try {
+      verification = await verifyPaymentWithFacilitator(paymentPayload, requirements);
+    } catch (e: any) {
+      console.error("x402 facilitator verification failed:", e);
+      failPaymentInBackground(payment, `Facilitator error: ${e.message}`);
+      return res.status(502).json({ error: "Payment facilitator is unavailable, please retry" });
+    }
     if (!verification.valid) {
-      console.log("Payment verification failed:", verification.error);
+      failPaymentInBackground(payment, verification.error || "Payment verification failed");
       return res.status(402).json({
         x402Version: X402_VERSION,
         error: verification.error,
-        accepts: create402Response(agent, baseUrl).accepts
+        accepts: create402Response(agent, baseUrl, quote).accepts
+      });
+    }
+
+    // Claim the payment before running the handler so concurrent requests
+    // presenting the same X-Payment cannot both be served.
+    let claim: PaymentClaim | null;
+    let idempotencyRecord: X402IdempotencyRecord | undefined;
+    let execution: ExecutionHandle;
+    try {
+      await markPaymentVerified(payment.id, verification.payer);
+      claim = await claimPayment(payloadHash, agent.id, payment.id, verification.payer);
+      if (!claim) {
+        failPaymentInBackground(payment, "Payment has already been used");
+        return res.status(402).json({
+          x402Version: X402_VERSION,
+          error: "Payment has already been used",
+          accepts: create402Response(agent, baseUrl, quote).accepts
+        });
+      }
+
+      if (idempotency.key) {
+        idempotencyRecord = await beginIdempotentRequest(agent.id, idempotency.key, requestHash, payloadHash, verification.payer);
+        if (!idempotencyRecord) {
+          await releaseClaim(claim);
+          failPaymentInBackground(payment, "Concurrent idempotent request");
+          return res.status(409).json({ error: "A request with this Idempotency-Key is still in progress" });
+        }
+      }
+
+      execution = await startExecution({
+        agentId: agent.id,
+        resource: agent.resource,
+        walletAddress: verification.payer,
+        paymentAmount: quote.priceUSD,
+        async: asyncMode,
+        input: { method: req.method, query: req.query, body: req.body }
       });
+      await markExecutionRunning(execution, asyncMode ? X402_ASYNC_CONFIG.executionTimeout : undefined);
+      res.setHeader("X-Execution-Id", execution.id);
+    } catch (e) {
+      console.error("x402 payment claim failed:", e);
+      failPaymentInBackground(payment, "Payment processing temporarily unavailable");
+      return res.status(503).json({ error: "Payment processing temporarily unavailable" });
     }
 
-    console.log("Payment verified, proceeding to handler");
+    const paymentClaim = claim;
+    const paymentId = payment.id;
+
+    // Recorded as soon as the payment settles, so a handler that settles and
+    // then fails, e.g. while writing a credit, leaves a failed execution that
+    // carries the signature for the refund worker.
+    let settlementRecorded: Promise<void> | undefined;
+    const recordSettlement = (receipt: SettlementReceipt | undefined) => {
+      settlementRecorded ??= (async () => {
+        const transaction = receipt?.transaction || payloadHash;
+        await consumeClaim(paymentClaim, transaction);
+        await markPaymentSettled(paymentId, transaction, execution.id);
+        if (receipt?.transaction) await recordExecutionSettlement(execution, receipt.transaction);
+      })();
+      return settlementRecorded;
+    };
+
+    // Settlement runs at most once, whether triggered by the response hook or by the handler
+    let settlement: Promise<SettleResult> | undefined;
+    let settled: SettleResult | undefined;
+    const settlePayment = () => {
+      settlement ??= settlePaymentWithFacilitator(paymentPayload, requirements).then(async result => {
+        settled = result;
+        if (result.success) {
+          await recordSettlement(result.receipt).catch(e => console.error("x402 settlement bookkeeping failed:", e));
+        }
+        return result;
+      });
+      return settlement;
+    };
 
-    // Store settlement function for later use by the route handler
-    (req as any).settlePayment = async () => {
-      return await settlePaymentWithFacilitator(paymentPayload, agent, resourceUrl);
+    // The response was withheld, so the execution fails now; if the
+    // transaction lands later, reconciliation records its signature on the
+    // execution and the refund worker pays it back.
+    const holdPendingSettlement = async (body: string, transaction: string) => {
+      await markPaymentSettling(paymentId, transaction, execution.id);
+      await failExecution(execution, `Settlement of ${transaction} was not confirmed in time`, body);
+      if (idempotencyRecord) {
+        await abandonIdempotentRequest(idempotencyRecord);
+      }
     };
+    req.settlePayment = settlePayment;
+    req.x402Payment = { payer: verification.payer, quote, executionId: execution.id, paymentId };
+    settleOnSuccess(res, agent, baseUrl, quote, settlePayment, {
+      onSettled: async (statusCode, body, receipt, paymentResponse) => {
+        const transaction = receipt?.transaction || payloadHash;
+        try {
+          await recordSettlement(receipt);
+          if (!asyncMode) {
+            await completeExecution(execution, body, receipt?.transaction);
+            await markPaymentConsumed(paymentId, execution.id);
+          }
+          notifyPaymentCompleted(
+            transaction,
+            verification.payer || receipt?.payer || "",
+            requirements.payTo,
+            requirements.maxAmountRequired,
+            requirements.asset,
+            agent.id,
+            agent.resource
+          );
+          if (idempotencyRecord) {
+            await completeIdempotentRequest(idempotencyRecord, statusCode, body, paymentResponse);
+          }
+        } finally {
+          // The payer has been charged, so the job runs even if bookkeeping
+          // failed; a failed job is refunded by the refund worker.
+          if (asyncMode) {
+            const payer = verification.payer || receipt?.payer || "";
+            enqueueAsyncJob({
+              executionId: execution.id,
+              agentId: agent.id,
+              agentName: agent.name,
+              ...asyncJobTarget(req),
+              onCompleted: async (output) => {
+                await completeExecution(execution, output, receipt?.transaction);
+                await markPaymentConsumed(paymentId, execution.id);
+                notifyExecutionFinished(execution.id, true, transaction, payer, requirements.maxAmountRequired, requirements.asset, agent.id, agent.resource);
+              },
+              onFailed: async (reason, output) => {
+                await failExecution(execution, reason, output);
+                notifyExecutionFinished(execution.id, false, transaction, payer, requirements.maxAmountRequired, requirements.asset, agent.id, agent.resource, reason);
+              }
+            });
+          }
+        }
+      },
+      // A handler that settled the payment itself and then failed has
+      // already charged the payer, so the claim stays consumed.
+      onUnsettled: async (_statusCode, body, reason) => {
+        if (settled?.pending && settled.receipt?.transaction) {
+          await holdPendingSettlement(body, settled.receipt.transaction);
+          return;
+        }
+        if (settled?.success) {
+          await recordSettlement(settled.receipt);
+        } else {
+          await releaseClaim(paymentClaim);
+          await markPaymentFailed(paymentId, reason);
+        }
+        await failExecution(execution, reason, body);
+        if (idempotencyRecord) {
+          await abandonIdempotentRequest(idempotencyRecord);
+        }
+      },
+      onPending: async (_statusCode, body, transaction) => holdPendingSettlement(body, transaction)
+    });
 
+    if (asyncMode) {
+      sendAccepted(res, baseUrl, execution.id);
+      return;
+    }
     next();
   };
 }
 
 export function getAllAgentsInfo(): object[] {
-  return MODEXO_AGENTS.map(agent => ({
+  return getListedAgents().map(({ config: agent, registration, metadata }) => ({
     id: agent.id,
     name: agent.name,
     description: agent.description,
     priceUSD: agent.priceUSD,
     resource: agent.resource,
-    method: agent.method
+    method: agent.method,
+    status: registration.status,
+    version: registration.version,
+    category: metadata.category,
+    tags: metadata.tags,
+    health: getAgentHealth(agent.id),
+    network: getX402Network(),
+    prices: quotePrice(agent.priceUSD).map(quote => ({
+      asset: quote.asset.symbol,
+      address: quote.asset.address,
+      amount: quote.amount
+    }))
   }));
 }
@@ -6,10 +6,36 @@ import {
   insiderRelations, type InsiderRelation, type InsertInsiderRelation,
   userWatchlist, type UserWatchlist, type InsertUserWatchlist,
   whaleTrades, type WhaleTrade, type InsertWhaleTrade,
-  portfolioSnapshots, type PortfolioSnapshot, type InsertPortfolioSnapshot
+  portfolioSnapshots, type PortfolioSnapshot, type InsertPortfolioSnapshot,
+  x402ConsumedPayments, type X402ConsumedPayment, type InsertX402ConsumedPayment,
+  x402TransactionVerifications, type X402TransactionVerification, type InsertX402TransactionVerification,
+  x402IdempotencyRecords, type X402IdempotencyRecord, type InsertX402IdempotencyRecord,
+  agentExecutions, type AgentExecution, type InsertAgentExecution, type AgentExecutionFilter,
+  x402Refunds, type X402Refund, type InsertX402Refund, type X402RefundFilter,
+  x402CreditBalances, type X402CreditBalance,
+  x402CreditTopUps, type X402CreditTopUp, type InsertX402CreditTopUp,
+  x402CreditDebits, type X402CreditDebit, type InsertX402CreditDebit,
+  x402Sessions, type X402Session, type InsertX402Session,
+  x402WebhookSubscriptions, type X402WebhookSubscription, type InsertX402WebhookSubscription,
+  x402WebhookDeliveries, type X402WebhookDelivery, type InsertX402WebhookDelivery, type X402WebhookDeliveryFilter,
+  x402Agents, type X402Agent, type InsertX402Agent,
+  x402AgentVersions, type X402AgentVersion,
+  x402AgentHealthChecks, type X402AgentHealthCheck, type InsertX402AgentHealthCheck,
+  x402AgentCalls, type X402AgentCall, type InsertX402AgentCall, type X402AgentCallFilter,
+  type X402CallGrouping, type X402CallSummary,
+  x402PaymentBatches, type X402PaymentBatch, type InsertX402PaymentBatch, type X402PaymentBatchFilter,
+  x402BatchPayments, type X402BatchPayment, type InsertX402BatchPayment,
+  x402Payments, type X402Payment, type InsertX402Payment, type X402PaymentFilter,
+  x402PaymentEvents, type X402PaymentEvent, type InsertX402PaymentEvent,
+  x402WalletBudgets, type X402WalletBudget, type InsertX402WalletBudget, type X402WalletSpend,
+  x402PassPlans, type X402PassPlan, type InsertX402PassPlan,
+  x402Passes, type X402Pass, type InsertX402Pass, type X402PassFilter, type X402PassSummary,
+  x402PromoCodes, type X402PromoCode, type InsertX402PromoCode,
+  x402PromoRedemptions, type X402PromoRedemption, type InsertX402PromoRedemption, type X402PromoRedemptionSummary,
+  AGENT_EXECUTION_STATUS, X402_VERIFICATION_STATUS, X402_WEBHOOK_DELIVERY_STATUS, X402_CREDIT_DEBIT_STATUS, X402_CALL_PAYMENT_METHOD, X402_BATCH_STATUS
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, gte, sql, and, lt } from "drizzle-orm";
+import { eq, desc, asc, gte, sql, and, lt, lte, inArray, isNull, isNotNull, arrayContains, type SQL } from "drizzle-orm";
 
 const STORAGE_VERSION = "1.2.0";
 const CONNECTION_POOL_SIZE = 10;
@@ -145,6 +171,120 @@ export interface IStorage {
   
   getPortfolioSnapshots(walletAddress: string, limit?: number): Promise<PortfolioSnapshot[]>;
   createPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot>;
+
+  getConsumedPayment(payloadHash: string): Promise<X402ConsumedPayment | undefined>;
+  claimPayment(payment: InsertX402ConsumedPayment): Promise<X402ConsumedPayment | undefined>;
+  markPaymentSettled(payloadHash: string, transactionSignature: string): Promise<X402ConsumedPayment | undefined>;
+  releasePayment(payloadHash: string): Promise<void>;
+
+  getTransactionVerification(signature: string): Promise<X402TransactionVerification | undefined>;
+  getOpenTransactionVerifications(limit: number): Promise<X402TransactionVerification[]>;
+  createTransactionVerification(verification: InsertX402TransactionVerification): Promise<X402TransactionVerification | undefined>;
+  updateTransactionVerification(signature: string, updates: Partial<X402TransactionVerification>): Promise<X402TransactionVerification | undefined>;
+
+  getIdempotencyRecord(agentId: string, idempotencyKey: string): Promise<X402IdempotencyRecord | undefined>;
+  createIdempotencyRecord(record: InsertX402IdempotencyRecord): Promise<X402IdempotencyRecord | undefined>;
+  completeIdempotencyRecord(id: string, statusCode: number, responseBody: string, paymentResponse?: string): Promise<void>;
+  deleteIdempotencyRecord(id: string): Promise<void>;
+
+  getAgentExecution(id: string): Promise<AgentExecution | undefined>;
+  getAgentExecutions(filter: AgentExecutionFilter): Promise<AgentExecution[]>;
+  createAgentExecution(execution: InsertAgentExecution): Promise<AgentExecution>;
+  updateAgentExecution(id: string, updates: Partial<AgentExecution>): Promise<AgentExecution | undefined>;
+  getRefundableExecutions(limit?: number): Promise<AgentExecution[]>;
+  timeOutRunningExecutions(taskTypes: string[], startedBefore: Date, errorMessage: string): Promise<AgentExecution[]>;
+
+  getRefund(id: string): Promise<X402Refund | undefined>;
+  getRefunds(filter: X402RefundFilter): Promise<X402Refund[]>;
+  createRefund(refund: InsertX402Refund): Promise<X402Refund | undefined>;
+  updateRefund(id: string, updates: Partial<X402Refund>): Promise<X402Refund | undefined>;
+
+  getCreditBalance(walletAddress: string): Promise<X402CreditBalance | undefined>;
+  recordCreditTopUp(topUp: InsertX402CreditTopUp): Promise<{ topUp: X402CreditTopUp; balance: X402CreditBalance } | undefined>;
+  reserveCreditDebit(debit: InsertX402CreditDebit): Promise<{ debit: X402CreditDebit; balance: X402CreditBalance } | undefined>;
+  settleCreditDebit(id: string, executionId?: string): Promise<X402CreditDebit | undefined>;
+  reverseCreditDebit(id: string, reason: string): Promise<X402CreditDebit | undefined>;
+  getCreditTopUps(walletAddress: string, limit?: number): Promise<X402CreditTopUp[]>;
+  getCreditDebits(walletAddress: string, limit?: number): Promise<X402CreditDebit[]>;
+
+  getSession(id: string): Promise<X402Session | undefined>;
+  createSession(session: InsertX402Session): Promise<X402Session>;
+  revokeSession(id: string): Promise<X402Session | undefined>;
+
+  getWebhookSubscription(id: string): Promise<X402WebhookSubscription | undefined>;
+  getWebhookSubscriptions(): Promise<X402WebhookSubscription[]>;
+  getActiveWebhookSubscriptions(eventType: string): Promise<X402WebhookSubscription[]>;
+  createWebhookSubscription(subscription: InsertX402WebhookSubscription): Promise<X402WebhookSubscription>;
+  updateWebhookSubscription(id: string, updates: Partial<X402WebhookSubscription>): Promise<X402WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertX402WebhookDelivery[]): Promise<X402WebhookDelivery[]>;
+  getWebhookDelivery(subscriptionId: string, eventId: string): Promise<X402WebhookDelivery | undefined>;
+  getWebhookDeliveries(filter: X402WebhookDeliveryFilter): Promise<X402WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, limit?: number): Promise<X402WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<X402WebhookDelivery>): Promise<X402WebhookDelivery | undefined>;
+  getWebhookDeliveryCounts(): Promise<Record<string, number>>;
+
+  getX402Agents(): Promise<X402Agent[]>;
+  getX402Agent(id: string): Promise<X402Agent | undefined>;
+  seedX402Agents(agents: InsertX402Agent[], snapshots: Record<string, string>): Promise<number>;
+  createX402Agent(agent: InsertX402Agent, snapshot: string): Promise<X402Agent | undefined>;
+  updateX402Agent(id: string, updates: Partial<X402Agent>): Promise<X402Agent | undefined>;
+  publishX402AgentVersion(id: string, updates: Partial<X402Agent> & { version: string }, snapshot: string): Promise<X402Agent | undefined>;
+  getX402AgentVersions(agentId: string): Promise<X402AgentVersion[]>;
+  recordAgentHealthCheck(check: InsertX402AgentHealthCheck): Promise<X402AgentHealthCheck>;
+  getAgentHealthChecks(agentId: string, limit?: number): Promise<X402AgentHealthCheck[]>;
+  pruneAgentHealthChecks(before: Date): Promise<number>;
+
+  recordX402AgentCall(call: InsertX402AgentCall): Promise<X402AgentCall>;
+  summarizeX402AgentCalls(groupBy: X402CallGrouping, filter: X402AgentCallFilter): Promise<X402CallSummary[]>;
+
+  getPaymentBatch(id: string): Promise<X402PaymentBatch | undefined>;
+  getPaymentBatches(filter: X402PaymentBatchFilter): Promise<X402PaymentBatch[]>;
+  createPaymentBatch(batch: InsertX402PaymentBatch): Promise<X402PaymentBatch>;
+  updatePaymentBatch(id: string, updates: Partial<X402PaymentBatch>): Promise<X402PaymentBatch | undefined>;
+  markInterruptedPaymentBatches(): Promise<number>;
+  recordBatchPayment(payment: InsertX402BatchPayment): Promise<X402BatchPayment>;
+  getBatchPayments(batchId: string): Promise<X402BatchPayment[]>;
+
+  getX402Payment(id: string): Promise<X402Payment | undefined>;
+  getX402Payments(filter: X402PaymentFilter): Promise<X402Payment[]>;
+  getX402PaymentByExecution(executionId: string): Promise<X402Payment | undefined>;
+  getStaleX402Payments(statuses: string[], before: Date, limit: number): Promise<X402Payment[]>;
+  createX402Payment(payment: InsertX402Payment, details?: string): Promise<X402Payment>;
+  transitionX402Payment(
+    id: string,
+    from: string[],
+    to: string,
+    updates: Partial<X402Payment>,
+    details?: string
+  ): Promise<X402Payment | undefined>;
+  recordX402PaymentEvent(event: InsertX402PaymentEvent): Promise<X402PaymentEvent>;
+  getX402PaymentEvents(paymentId: string): Promise<X402PaymentEvent[]>;
+  getX402WalletSpend(walletAddress: string, statuses: string[], since: Date): Promise<X402WalletSpend[]>;
+
+  getWalletBudget(walletAddress: string): Promise<X402WalletBudget | undefined>;
+  saveWalletBudget(budget: InsertX402WalletBudget): Promise<X402WalletBudget>;
+
+  getPassPlan(id: string): Promise<X402PassPlan | undefined>;
+  getPassPlans(activeOnly?: boolean): Promise<X402PassPlan[]>;
+  createPassPlan(plan: InsertX402PassPlan): Promise<X402PassPlan>;
+  updatePassPlan(id: string, updates: Partial<X402PassPlan>): Promise<X402PassPlan | undefined>;
+  getPass(id: string): Promise<X402Pass | undefined>;
+  getPassByTokenHash(tokenHash: string): Promise<X402Pass | undefined>;
+  getPasses(filter: X402PassFilter): Promise<X402Pass[]>;
+  createPass(pass: InsertX402Pass): Promise<X402Pass | undefined>;
+  revokePass(id: string, reason: string): Promise<X402Pass | undefined>;
+  recordPassUse(id: string): Promise<void>;
+  summarizePasses(now: Date): Promise<X402PassSummary[]>;
+
+  getPromoCode(code: string): Promise<X402PromoCode | undefined>;
+  getPromoCodes(): Promise<X402PromoCode[]>;
+  createPromoCode(promo: InsertX402PromoCode): Promise<X402PromoCode | undefined>;
+  revokePromoCode(code: string): Promise<X402PromoCode | undefined>;
+  reservePromoRedemption(code: string, now: Date): Promise<X402PromoCode | undefined>;
+  releasePromoRedemption(code: string): Promise<void>;
+  recordPromoRedemption(redemption: InsertX402PromoRedemption): Promise<X402PromoRedemption>;
+  summarizePromoRedemptions(code?: string): Promise<X402PromoRedemptionSummary[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -271,6 +411,857 @@ export class DatabaseStorage implements IStorage {
     const [created] = await db.insert(portfolioSnapshots).values(snapshot).returning();
     return created;
   }
+
+  async getConsumedPayment(payloadHash: string): Promise<X402ConsumedPayment | undefined> {
+    const [payment] = await db.select().from(x402ConsumedPayments)
+      .where(eq(x402ConsumedPayments.payloadHash, payloadHash));
+    return payment || undefined;
+  }
+
+  async claimPayment(payment: InsertX402ConsumedPayment): Promise<X402ConsumedPayment | undefined> {
+    const [claimed] = await db.insert(x402ConsumedPayments)
+      .values(payment)
+      .onConflictDoNothing()
+      .returning();
+    return claimed || undefined;
+  }
+
+  async markPaymentSettled(payloadHash: string, transactionSignature: string): Promise<X402ConsumedPayment | undefined> {
+    const [updated] = await db.update(x402ConsumedPayments)
+      .set({ transactionSignature, settledAt: new Date() })
+      .where(eq(x402ConsumedPayments.payloadHash, payloadHash))
+      .returning();
+    return updated || undefined;
+  }
+
+  async releasePayment(payloadHash: string): Promise<void> {
+    await db.delete(x402ConsumedPayments).where(eq(x402ConsumedPayments.payloadHash, payloadHash));
+  }
+
+  async getTransactionVerification(signature: string): Promise<X402TransactionVerification | undefined> {
+    const [verification] = await db.select().from(x402TransactionVerifications)
+      .where(eq(x402TransactionVerifications.signature, signature));
+    return verification || undefined;
+  }
+
+  async getOpenTransactionVerifications(limit: number): Promise<X402TransactionVerification[]> {
+    return db.select().from(x402TransactionVerifications)
+      .where(inArray(x402TransactionVerifications.status, [X402_VERIFICATION_STATUS.PENDING, X402_VERIFICATION_STATUS.CONFIRMING]))
+      .orderBy(asc(x402TransactionVerifications.submittedAt))
+      .limit(limit);
+  }
+
+  async createTransactionVerification(verification: InsertX402TransactionVerification): Promise<X402TransactionVerification | undefined> {
+    const [created] = await db.insert(x402TransactionVerifications)
+      .values(verification)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  // Only verifications still waiting on the cluster are updated, so a late
+  // poll cannot reopen one that was already verified or failed.
+  async updateTransactionVerification(signature: string, updates: Partial<X402TransactionVerification>): Promise<X402TransactionVerification | undefined> {
+    const { id: _id, signature: _signature, ...fields } = updates;
+    const [updated] = await db.update(x402TransactionVerifications)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(and(
+        eq(x402TransactionVerifications.signature, signature),
+        inArray(x402TransactionVerifications.status, [X402_VERIFICATION_STATUS.PENDING, X402_VERIFICATION_STATUS.CONFIRMING])
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getIdempotencyRecord(agentId: string, idempotencyKey: string): Promise<X402IdempotencyRecord | undefined> {
+    const [record] = await db.select().from(x402IdempotencyRecords)
+      .where(and(
+        eq(x402IdempotencyRecords.agentId, agentId),
+        eq(x402IdempotencyRecords.idempotencyKey, idempotencyKey)
+      ));
+    return record || undefined;
+  }
+
+  async createIdempotencyRecord(record: InsertX402IdempotencyRecord): Promise<X402IdempotencyRecord | undefined> {
+    const [created] = await db.insert(x402IdempotencyRecords)
+      .values(record)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async completeIdempotencyRecord(id: string, statusCode: number, responseBody: string, paymentResponse?: string): Promise<void> {
+    await db.update(x402IdempotencyRecords)
+      .set({ status: "completed", statusCode, responseBody, paymentResponse, completedAt: new Date() })
+      .where(eq(x402IdempotencyRecords.id, id));
+  }
+
+  async deleteIdempotencyRecord(id: string): Promise<void> {
+    await db.delete(x402IdempotencyRecords).where(eq(x402IdempotencyRecords.id, id));
+  }
+
+  async getAgentExecution(id: string): Promise<AgentExecution | undefined> {
+    const [execution] = await db.select().from(agentExecutions).where(eq(agentExecutions.id, id));
+    return execution || undefined;
+  }
+
+  async getAgentExecutions(filter: AgentExecutionFilter): Promise<AgentExecution[]> {
+    const conditions: SQL[] = [];
+    if (filter.walletAddress) conditions.push(eq(agentExecutions.walletAddress, filter.walletAddress));
+    if (filter.agentId) conditions.push(eq(agentExecutions.agentId, filter.agentId));
+    if (filter.status) conditions.push(eq(agentExecutions.status, filter.status));
+    if (filter.from) conditions.push(gte(agentExecutions.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(agentExecutions.createdAt, filter.to));
+
+    return db.select().from(agentExecutions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(agentExecutions.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async createAgentExecution(execution: InsertAgentExecution): Promise<AgentExecution> {
+    const [created] = await db.insert(agentExecutions).values(execution).returning();
+    return created;
+  }
+
+  async updateAgentExecution(id: string, updates: Partial<AgentExecution>): Promise<AgentExecution | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    const [updated] = await db.update(agentExecutions)
+      .set(fields)
+      .where(eq(agentExecutions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getRefundableExecutions(limit: number = 50): Promise<AgentExecution[]> {
+    const rows = await db.select({ execution: agentExecutions })
+      .from(agentExecutions)
+      .leftJoin(x402Refunds, eq(x402Refunds.executionId, agentExecutions.id))
+      .where(and(
+        inArray(agentExecutions.status, [AGENT_EXECUTION_STATUS.FAILED, AGENT_EXECUTION_STATUS.TIMEOUT]),
+        isNotNull(agentExecutions.x402Signature),
+        isNotNull(agentExecutions.walletAddress),
+        isNull(x402Refunds.id)
+      ))
+      .orderBy(agentExecutions.createdAt)
+      .limit(limit);
+    return rows.map(row => row.execution);
+  }
+
+  async timeOutRunningExecutions(taskTypes: string[], startedBefore: Date, errorMessage: string): Promise<AgentExecution[]> {
+    return db.update(agentExecutions)
+      .set({ status: AGENT_EXECUTION_STATUS.TIMEOUT, errorMessage, completedAt: new Date() })
+      .where(and(
+        eq(agentExecutions.status, AGENT_EXECUTION_STATUS.RUNNING),
+        inArray(agentExecutions.taskType, taskTypes),
+        lt(agentExecutions.createdAt, startedBefore)
+      ))
+      .returning();
+  }
+
+  async getRefund(id: string): Promise<X402Refund | undefined> {
+    const [refund] = await db.select().from(x402Refunds).where(eq(x402Refunds.id, id));
+    return refund || undefined;
+  }
+
+  async getRefunds(filter: X402RefundFilter): Promise<X402Refund[]> {
+    const conditions: SQL[] = [];
+    if (filter.walletAddress) conditions.push(eq(x402Refunds.walletAddress, filter.walletAddress));
+    if (filter.agentId) conditions.push(eq(x402Refunds.agentId, filter.agentId));
+    if (filter.executionId) conditions.push(eq(x402Refunds.executionId, filter.executionId));
+    if (filter.status) conditions.push(eq(x402Refunds.status, filter.status));
+
+    return db.select().from(x402Refunds)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(x402Refunds.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async createRefund(refund: InsertX402Refund): Promise<X402Refund | undefined> {
+    const [created] = await db.insert(x402Refunds)
+      .values(refund)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async updateRefund(id: string, updates: Partial<X402Refund>): Promise<X402Refund | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    const [updated] = await db.update(x402Refunds)
+      .set(fields)
+      .where(eq(x402Refunds.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getCreditBalance(walletAddress: string): Promise<X402CreditBalance | undefined> {
+    const [balance] = await db.select().from(x402CreditBalances).where(eq(x402CreditBalances.walletAddress, walletAddress));
+    return balance || undefined;
+  }
+
+  async recordCreditTopUp(topUp: InsertX402CreditTopUp): Promise<{ topUp: X402CreditTopUp; balance: X402CreditBalance } | undefined> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(x402CreditTopUps)
+        .values(topUp)
+        .onConflictDoNothing()
+        .returning();
+      if (!created) return undefined;
+
+      const [balance] = await tx.insert(x402CreditBalances)
+        .values({
+          walletAddress: topUp.walletAddress,
+          balanceMicroUsd: topUp.amountMicroUsd,
+          totalToppedUpMicroUsd: topUp.amountMicroUsd
+        })
+        .onConflictDoUpdate({
+          target: x402CreditBalances.walletAddress,
+          set: {
+            balanceMicroUsd: sql`${x402CreditBalances.balanceMicroUsd} + ${topUp.amountMicroUsd}`,
+            totalToppedUpMicroUsd: sql`${x402CreditBalances.totalToppedUpMicroUsd} + ${topUp.amountMicroUsd}`,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+      return { topUp: created, balance };
+    });
+  }
+
+  async reserveCreditDebit(debit: InsertX402CreditDebit): Promise<{ debit: X402CreditDebit; balance: X402CreditBalance } | undefined> {
+    return db.transaction(async (tx) => {
+      const [balance] = await tx.update(x402CreditBalances)
+        .set({
+          balanceMicroUsd: sql`${x402CreditBalances.balanceMicroUsd} - ${debit.amountMicroUsd}`,
+          totalSpentMicroUsd: sql`${x402CreditBalances.totalSpentMicroUsd} + ${debit.amountMicroUsd}`,
+          updatedAt: new Date()
+        })
+        .where(and(
+          eq(x402CreditBalances.walletAddress, debit.walletAddress),
+          gte(x402CreditBalances.balanceMicroUsd, debit.amountMicroUsd)
+        ))
+        .returning();
+      if (!balance) return undefined;
+
+      const [created] = await tx.insert(x402CreditDebits).values(debit).returning();
+      return { debit: created, balance };
+    });
+  }
+
+  async settleCreditDebit(id: string, executionId?: string): Promise<X402CreditDebit | undefined> {
+    const [settled] = await db.update(x402CreditDebits)
+      .set({ status: X402_CREDIT_DEBIT_STATUS.SETTLED, settledAt: new Date(), ...(executionId && { executionId }) })
+      .where(and(eq(x402CreditDebits.id, id), eq(x402CreditDebits.status, X402_CREDIT_DEBIT_STATUS.RESERVED)))
+      .returning();
+    return settled || undefined;
+  }
+
+  async reverseCreditDebit(id: string, reason: string): Promise<X402CreditDebit | undefined> {
+    return db.transaction(async (tx) => {
+      const [reversed] = await tx.update(x402CreditDebits)
+        .set({ status: X402_CREDIT_DEBIT_STATUS.REVERSED, reason, settledAt: new Date() })
+        .where(and(eq(x402CreditDebits.id, id), eq(x402CreditDebits.status, X402_CREDIT_DEBIT_STATUS.RESERVED)))
+        .returning();
+      if (!reversed) return undefined;
+
+      await tx.update(x402CreditBalances)
+        .set({
+          balanceMicroUsd: sql`${x402CreditBalances.balanceMicroUsd} + ${reversed.amountMicroUsd}`,
+          totalSpentMicroUsd: sql`${x402CreditBalances.totalSpentMicroUsd} - ${reversed.amountMicroUsd}`,
+          updatedAt: new Date()
+        })
+        .where(eq(x402CreditBalances.walletAddress, reversed.walletAddress));
+      return reversed;
+    });
+  }
+
+  async getCreditTopUps(walletAddress: string, limit: number = 50): Promise<X402CreditTopUp[]> {
+    return db.select().from(x402CreditTopUps)
+      .where(eq(x402CreditTopUps.walletAddress, walletAddress))
+      .orderBy(desc(x402CreditTopUps.createdAt))
+      .limit(limit);
+  }
+
+  async getCreditDebits(walletAddress: string, limit: number = 50): Promise<X402CreditDebit[]> {
+    return db.select().from(x402CreditDebits)
+      .where(eq(x402CreditDebits.walletAddress, walletAddress))
+      .orderBy(desc(x402CreditDebits.createdAt))
+      .limit(limit);
+  }
+
+  async getSession(id: string): Promise<X402Session | undefined> {
+    const [session] = await db.select().from(x402Sessions).where(eq(x402Sessions.id, id));
+    return session || undefined;
+  }
+
+  async createSession(session: InsertX402Session): Promise<X402Session> {
+    const [created] = await db.insert(x402Sessions).values(session).returning();
+    return created;
+  }
+
+  async revokeSession(id: string): Promise<X402Session | undefined> {
+    const [revoked] = await db.update(x402Sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(x402Sessions.id, id), isNull(x402Sessions.revokedAt)))
+      .returning();
+    return revoked || undefined;
+  }
+
+  async getWebhookSubscription(id: string): Promise<X402WebhookSubscription | undefined> {
+    const [subscription] = await db.select().from(x402WebhookSubscriptions).where(eq(x402WebhookSubscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async getWebhookSubscriptions(): Promise<X402WebhookSubscription[]> {
+    return db.select().from(x402WebhookSubscriptions).orderBy(desc(x402WebhookSubscriptions.createdAt));
+  }
+
+  async getActiveWebhookSubscriptions(eventType: string): Promise<X402WebhookSubscription[]> {
+    return db.select().from(x402WebhookSubscriptions)
+      .where(and(
+        eq(x402WebhookSubscriptions.active, true),
+        arrayContains(x402WebhookSubscriptions.events, [eventType])
+      ));
+  }
+
+  async createWebhookSubscription(subscription: InsertX402WebhookSubscription): Promise<X402WebhookSubscription> {
+    const [created] = await db.insert(x402WebhookSubscriptions).values(subscription).returning();
+    return created;
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<X402WebhookSubscription>): Promise<X402WebhookSubscription | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    const [updated] = await db.update(x402WebhookSubscriptions)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(x402WebhookSubscriptions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx.delete(x402WebhookSubscriptions)
+        .where(eq(x402WebhookSubscriptions.id, id))
+        .returning();
+      if (deleted.length === 0) return false;
+      await tx.delete(x402WebhookDeliveries).where(eq(x402WebhookDeliveries.subscriptionId, id));
+      return true;
+    });
+  }
+
+  async createWebhookDeliveries(deliveries: InsertX402WebhookDelivery[]): Promise<X402WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return db.insert(x402WebhookDeliveries)
+      .values(deliveries)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async getWebhookDelivery(subscriptionId: string, eventId: string): Promise<X402WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(x402WebhookDeliveries)
+      .where(and(
+        eq(x402WebhookDeliveries.subscriptionId, subscriptionId),
+        eq(x402WebhookDeliveries.eventId, eventId)
+      ));
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveries(filter: X402WebhookDeliveryFilter): Promise<X402WebhookDelivery[]> {
+    const conditions: SQL[] = [];
+    if (filter.subscriptionId) conditions.push(eq(x402WebhookDeliveries.subscriptionId, filter.subscriptionId));
+    if (filter.eventId) conditions.push(eq(x402WebhookDeliveries.eventId, filter.eventId));
+    if (filter.status) conditions.push(eq(x402WebhookDeliveries.status, filter.status));
+
+    return db.select().from(x402WebhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(x402WebhookDeliveries.createdAt))
+      .limit(filter.limit || 50);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number = 50): Promise<X402WebhookDelivery[]> {
+    return db.select().from(x402WebhookDeliveries)
+      .where(and(
+        eq(x402WebhookDeliveries.status, X402_WEBHOOK_DELIVERY_STATUS.PENDING),
+        lte(x402WebhookDeliveries.nextAttemptAt, now)
+      ))
+      .orderBy(asc(x402WebhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<X402WebhookDelivery>): Promise<X402WebhookDelivery | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    const [updated] = await db.update(x402WebhookDeliveries)
+      .set(fields)
+      .where(eq(x402WebhookDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getWebhookDeliveryCounts(): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: x402WebhookDeliveries.status,
+      count: sql<number>`count(*)::int`
+    })
+      .from(x402WebhookDeliveries)
+      .groupBy(x402WebhookDeliveries.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  async getX402Agents(): Promise<X402Agent[]> {
+    return db.select().from(x402Agents).orderBy(asc(x402Agents.createdAt));
+  }
+
+  async getX402Agent(id: string): Promise<X402Agent | undefined> {
+    const [agent] = await db.select().from(x402Agents).where(eq(x402Agents.id, id));
+    return agent || undefined;
+  }
+
+  // Inserts built-in agents that are not registered yet; existing rows are left
+  // untouched so admin edits survive restarts.
+  async seedX402Agents(agents: InsertX402Agent[], snapshots: Record<string, string>): Promise<number> {
+    if (agents.length === 0) return 0;
+    return db.transaction(async (tx) => {
+      const inserted = await tx.insert(x402Agents)
+        .values(agents)
+        .onConflictDoNothing()
+        .returning();
+      if (inserted.length > 0) {
+        await tx.insert(x402AgentVersions)
+          .values(inserted.map(agent => ({ agentId: agent.id, version: agent.version, snapshot: snapshots[agent.id] })))
+          .onConflictDoNothing();
+      }
+      return inserted.length;
+    });
+  }
+
+  async createX402Agent(agent: InsertX402Agent, snapshot: string): Promise<X402Agent | undefined> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(x402Agents)
+        .values(agent)
+        .onConflictDoNothing()
+        .returning();
+      if (!created) return undefined;
+
+      await tx.insert(x402AgentVersions).values({ agentId: created.id, version: created.version, snapshot });
+      return created;
+    });
+  }
+
+  async updateX402Agent(id: string, updates: Partial<X402Agent>): Promise<X402Agent | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    const [updated] = await db.update(x402Agents)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(x402Agents.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Returns undefined when the version already exists for this agent.
+  async publishX402AgentVersion(
+    id: string,
+    updates: Partial<X402Agent> & { version: string },
+    snapshot: string
+  ): Promise<X402Agent | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    return db.transaction(async (tx) => {
+      const [version] = await tx.insert(x402AgentVersions)
+        .values({ agentId: id, version: updates.version, snapshot })
+        .onConflictDoNothing()
+        .returning();
+      if (!version) return undefined;
+
+      const [updated] = await tx.update(x402Agents)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(x402Agents.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  async getX402AgentVersions(agentId: string): Promise<X402AgentVersion[]> {
+    return db.select().from(x402AgentVersions)
+      .where(eq(x402AgentVersions.agentId, agentId))
+      .orderBy(desc(x402AgentVersions.createdAt));
+  }
+
+  async recordAgentHealthCheck(check: InsertX402AgentHealthCheck): Promise<X402AgentHealthCheck> {
+    const [created] = await db.insert(x402AgentHealthChecks).values(check).returning();
+    return created;
+  }
+
+  async getAgentHealthChecks(agentId: string, limit: number = 50): Promise<X402AgentHealthCheck[]> {
+    return db.select().from(x402AgentHealthChecks)
+      .where(eq(x402AgentHealthChecks.agentId, agentId))
+      .orderBy(desc(x402AgentHealthChecks.checkedAt))
+      .limit(limit);
+  }
+
+  async pruneAgentHealthChecks(before: Date): Promise<number> {
+    const deleted = await db.delete(x402AgentHealthChecks)
+      .where(lt(x402AgentHealthChecks.checkedAt, before))
+      .returning({ id: x402AgentHealthChecks.id });
+    return deleted.length;
+  }
+
+  async recordX402AgentCall(call: InsertX402AgentCall): Promise<X402AgentCall> {
+    const [created] = await db.insert(x402AgentCalls).values(call).returning();
+    return created;
+  }
+
+  async summarizeX402AgentCalls(groupBy: X402CallGrouping, filter: X402AgentCallFilter): Promise<X402CallSummary[]> {
+    const conditions: SQL[] = [];
+    if (filter.agentId) conditions.push(eq(x402AgentCalls.agentId, filter.agentId));
+    if (filter.walletAddress) conditions.push(eq(x402AgentCalls.walletAddress, filter.walletAddress));
+    if (filter.paid !== undefined) {
+      conditions.push(filter.paid
+        ? sql`${x402AgentCalls.paymentMethod} <> ${X402_CALL_PAYMENT_METHOD.FREE}`
+        : eq(x402AgentCalls.paymentMethod, X402_CALL_PAYMENT_METHOD.FREE));
+    }
+    if (filter.from) conditions.push(gte(x402AgentCalls.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(x402AgentCalls.createdAt, filter.to));
+    if (groupBy === "wallet") conditions.push(isNotNull(x402AgentCalls.walletAddress));
+
+    const key = groupBy === "agent"
+      ? sql<string>`${x402AgentCalls.agentId}`
+      : groupBy === "wallet"
+        ? sql<string>`${x402AgentCalls.walletAddress}`
+        : sql<string>`to_char(${x402AgentCalls.createdAt}, 'YYYY-MM-DD')`;
+    const revenue = sql<number>`coalesce(sum(${x402AgentCalls.paymentAmount}) filter (where ${x402AgentCalls.success}), 0)::float8`;
+
+    const rows = await db.select({
+      key,
+      calls: sql<number>`count(*)::int`,
+      paidCalls: sql<number>`(count(*) filter (where ${x402AgentCalls.paymentMethod} <> ${X402_CALL_PAYMENT_METHOD.FREE}))::int`,
+      successfulCalls: sql<number>`(count(*) filter (where ${x402AgentCalls.success}))::int`,
+      revenue,
+      uniqueWallets: sql<number>`count(distinct ${x402AgentCalls.walletAddress})::int`,
+      avgResponseTimeMs: sql<number>`coalesce(avg(${x402AgentCalls.responseTimeMs}), 0)::float8`,
+      p50ResponseTimeMs: sql<number>`coalesce(percentile_cont(0.5) within group (order by ${x402AgentCalls.responseTimeMs}), 0)::float8`,
+      p95ResponseTimeMs: sql<number>`coalesce(percentile_cont(0.95) within group (order by ${x402AgentCalls.responseTimeMs}), 0)::float8`,
+    })
+      .from(x402AgentCalls)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(key)
+      .orderBy(groupBy === "day" ? asc(key) : desc(revenue))
+      .limit(filter.limit ?? 1000);
+
+    return rows.map(row => ({ ...row, failedCalls: row.calls - row.successfulCalls }));
+  }
+
+  async getPaymentBatch(id: string): Promise<X402PaymentBatch | undefined> {
+    const [batch] = await db.select().from(x402PaymentBatches).where(eq(x402PaymentBatches.id, id));
+    return batch || undefined;
+  }
+
+  async getPaymentBatches(filter: X402PaymentBatchFilter): Promise<X402PaymentBatch[]> {
+    return db.select().from(x402PaymentBatches)
+      .where(filter.status ? eq(x402PaymentBatches.status, filter.status) : undefined)
+      .orderBy(desc(x402PaymentBatches.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async createPaymentBatch(batch: InsertX402PaymentBatch): Promise<X402PaymentBatch> {
+    const [created] = await db.insert(x402PaymentBatches).values(batch).returning();
+    return created;
+  }
+
+  async updatePaymentBatch(id: string, updates: Partial<X402PaymentBatch>): Promise<X402PaymentBatch | undefined> {
+    const { id: _id, createdAt: _createdAt, ...fields } = updates;
+    const [updated] = await db.update(x402PaymentBatches)
+      .set(fields)
+      .where(eq(x402PaymentBatches.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async markInterruptedPaymentBatches(): Promise<number> {
+    const updated = await db.update(x402PaymentBatches)
+      .set({ status: X402_BATCH_STATUS.INTERRUPTED, processedAt: new Date() })
+      .where(eq(x402PaymentBatches.status, X402_BATCH_STATUS.PROCESSING))
+      .returning({ id: x402PaymentBatches.id });
+    return updated.length;
+  }
+
+  async recordBatchPayment(payment: InsertX402BatchPayment): Promise<X402BatchPayment> {
+    const [created] = await db.insert(x402BatchPayments).values(payment).returning();
+    return created;
+  }
+
+  async getBatchPayments(batchId: string): Promise<X402BatchPayment[]> {
+    return db.select().from(x402BatchPayments)
+      .where(eq(x402BatchPayments.batchId, batchId))
+      .orderBy(asc(x402BatchPayments.createdAt));
+  }
+
+  async getX402Payment(id: string): Promise<X402Payment | undefined> {
+    const [payment] = await db.select().from(x402Payments).where(eq(x402Payments.id, id));
+    return payment || undefined;
+  }
+
+  async getX402Payments(filter: X402PaymentFilter): Promise<X402Payment[]> {
+    const conditions: SQL[] = [];
+    if (filter.walletAddress) conditions.push(eq(x402Payments.walletAddress, filter.walletAddress));
+    if (filter.agentId) conditions.push(eq(x402Payments.agentId, filter.agentId));
+    if (filter.status) conditions.push(eq(x402Payments.status, filter.status));
+    if (filter.statuses) conditions.push(inArray(x402Payments.status, filter.statuses));
+    if (filter.from) conditions.push(gte(x402Payments.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(x402Payments.createdAt, filter.to));
+
+    return db.select().from(x402Payments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(x402Payments.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getX402PaymentByExecution(executionId: string): Promise<X402Payment | undefined> {
+    const [payment] = await db.select().from(x402Payments)
+      .where(eq(x402Payments.executionId, executionId));
+    return payment || undefined;
+  }
+
+  async getStaleX402Payments(statuses: string[], before: Date, limit: number): Promise<X402Payment[]> {
+    return db.select().from(x402Payments)
+      .where(and(inArray(x402Payments.status, statuses), lt(x402Payments.updatedAt, before)))
+      .orderBy(asc(x402Payments.updatedAt))
+      .limit(limit);
+  }
+
+  async createX402Payment(payment: InsertX402Payment, details?: string): Promise<X402Payment> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(x402Payments).values(payment).returning();
+      await tx.insert(x402PaymentEvents).values({
+        paymentId: created.id,
+        type: "transition",
+        fromStatus: null,
+        toStatus: created.status,
+        details: details ?? null
+      });
+      return created;
+    });
+  }
+
+  // Moves a payment to `to` only if it is currently in one of `from`, and logs
+  // the transition in the same transaction. Returns undefined otherwise.
+  async transitionX402Payment(
+    id: string,
+    from: string[],
+    to: string,
+    updates: Partial<X402Payment>,
+    details?: string
+  ): Promise<X402Payment | undefined> {
+    const { id: _id, createdAt: _createdAt, status: _status, ...fields } = updates;
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select({ status: x402Payments.status })
+        .from(x402Payments)
+        .where(eq(x402Payments.id, id))
+        .for("update");
+      if (!current || !from.includes(current.status)) return undefined;
+
+      const [updated] = await tx.update(x402Payments)
+        .set({ ...fields, status: to, updatedAt: new Date() })
+        .where(eq(x402Payments.id, id))
+        .returning();
+      await tx.insert(x402PaymentEvents).values({
+        paymentId: id,
+        type: "transition",
+        fromStatus: current.status,
+        toStatus: to,
+        details: details ?? null
+      });
+      return updated;
+    });
+  }
+
+  async recordX402PaymentEvent(event: InsertX402PaymentEvent): Promise<X402PaymentEvent> {
+    const [created] = await db.insert(x402PaymentEvents).values(event).returning();
+    return created;
+  }
+
+  async getX402PaymentEvents(paymentId: string): Promise<X402PaymentEvent[]> {
+    return db.select().from(x402PaymentEvents)
+      .where(eq(x402PaymentEvents.paymentId, paymentId))
+      .orderBy(asc(x402PaymentEvents.createdAt));
+  }
+
+  async getX402WalletSpend(walletAddress: string, statuses: string[], since: Date): Promise<X402WalletSpend[]> {
+    return db.select({
+      agentId: x402Payments.agentId,
+      spentUsd: sql<number>`coalesce(sum(${x402Payments.amountUsd}), 0)::float8`,
+    })
+      .from(x402Payments)
+      .where(and(
+        eq(x402Payments.walletAddress, walletAddress),
+        inArray(x402Payments.status, statuses),
+        gte(x402Payments.createdAt, since)
+      ))
+      .groupBy(x402Payments.agentId);
+  }
+
+  async getWalletBudget(walletAddress: string): Promise<X402WalletBudget | undefined> {
+    const [budget] = await db.select().from(x402WalletBudgets)
+      .where(eq(x402WalletBudgets.walletAddress, walletAddress));
+    return budget || undefined;
+  }
+
+  async saveWalletBudget(budget: InsertX402WalletBudget): Promise<X402WalletBudget> {
+    const [saved] = await db.insert(x402WalletBudgets)
+      .values(budget)
+      .onConflictDoUpdate({
+        target: x402WalletBudgets.walletAddress,
+        set: { ...budget, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPassPlan(id: string): Promise<X402PassPlan | undefined> {
+    const [plan] = await db.select().from(x402PassPlans).where(eq(x402PassPlans.id, id));
+    return plan || undefined;
+  }
+
+  async getPassPlans(activeOnly: boolean = false): Promise<X402PassPlan[]> {
+    return db.select().from(x402PassPlans)
+      .where(activeOnly ? eq(x402PassPlans.active, true) : undefined)
+      .orderBy(asc(x402PassPlans.createdAt));
+  }
+
+  async createPassPlan(plan: InsertX402PassPlan): Promise<X402PassPlan> {
+    const [created] = await db.insert(x402PassPlans).values(plan).returning();
+    return created;
+  }
+
+  async updatePassPlan(id: string, updates: Partial<X402PassPlan>): Promise<X402PassPlan | undefined> {
+    const [updated] = await db.update(x402PassPlans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(x402PassPlans.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getPass(id: string): Promise<X402Pass | undefined> {
+    const [pass] = await db.select().from(x402Passes).where(eq(x402Passes.id, id));
+    return pass || undefined;
+  }
+
+  async getPassByTokenHash(tokenHash: string): Promise<X402Pass | undefined> {
+    const [pass] = await db.select().from(x402Passes).where(eq(x402Passes.tokenHash, tokenHash));
+    return pass || undefined;
+  }
+
+  async getPasses(filter: X402PassFilter): Promise<X402Pass[]> {
+    const conditions: SQL[] = [];
+    if (filter.planId) conditions.push(eq(x402Passes.planId, filter.planId));
+    if (filter.walletAddress) conditions.push(eq(x402Passes.walletAddress, filter.walletAddress));
+    if (filter.activeAt) {
+      conditions.push(isNull(x402Passes.revokedAt));
+      conditions.push(lte(x402Passes.startsAt, filter.activeAt));
+      conditions.push(gte(x402Passes.expiresAt, filter.activeAt));
+    }
+
+    return db.select().from(x402Passes)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(x402Passes.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Returns undefined when the purchase transaction already issued a pass.
+  async createPass(pass: InsertX402Pass): Promise<X402Pass | undefined> {
+    const [created] = await db.insert(x402Passes)
+      .values(pass)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async revokePass(id: string, reason: string): Promise<X402Pass | undefined> {
+    const [revoked] = await db.update(x402Passes)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(x402Passes.id, id), isNull(x402Passes.revokedAt)))
+      .returning();
+    return revoked || undefined;
+  }
+
+  async recordPassUse(id: string): Promise<void> {
+    await db.update(x402Passes)
+      .set({ uses: sql`${x402Passes.uses} + 1`, lastUsedAt: new Date() })
+      .where(eq(x402Passes.id, id));
+  }
+
+  async summarizePasses(now: Date): Promise<X402PassSummary[]> {
+    return db.select({
+      planId: x402Passes.planId,
+      passes: sql<number>`count(*)::int`,
+      active: sql<number>`(count(*) filter (where ${x402Passes.revokedAt} is null and ${x402Passes.expiresAt} > ${now}))::int`,
+      revoked: sql<number>`(count(*) filter (where ${x402Passes.revokedAt} is not null))::int`,
+      uses: sql<number>`coalesce(sum(${x402Passes.uses}), 0)::int`,
+      revenueUsd: sql<number>`coalesce(sum(${x402Passes.priceUsd}), 0)::float8`,
+    })
+      .from(x402Passes)
+      .groupBy(x402Passes.planId);
+  }
+
+  async getPromoCode(code: string): Promise<X402PromoCode | undefined> {
+    const [promo] = await db.select().from(x402PromoCodes).where(eq(x402PromoCodes.code, code));
+    return promo || undefined;
+  }
+
+  async getPromoCodes(): Promise<X402PromoCode[]> {
+    return db.select().from(x402PromoCodes).orderBy(desc(x402PromoCodes.createdAt));
+  }
+
+  // Returns undefined when the code already exists.
+  async createPromoCode(promo: InsertX402PromoCode): Promise<X402PromoCode | undefined> {
+    const [created] = await db.insert(x402PromoCodes)
+      .values(promo)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async revokePromoCode(code: string): Promise<X402PromoCode | undefined> {
+    const [revoked] = await db.update(x402PromoCodes)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(x402PromoCodes.code, code), isNull(x402PromoCodes.revokedAt)))
+      .returning();
+    return revoked || undefined;
+  }
+
+  // Takes one redemption if the code is still usable at `now`, atomically so
+  // concurrent calls cannot redeem past maxRedemptions.
+  async reservePromoRedemption(code: string, now: Date): Promise<X402PromoCode | undefined> {
+    const [reserved] = await db.update(x402PromoCodes)
+      .set({ redemptions: sql`${x402PromoCodes.redemptions} + 1` })
+      .where(and(
+        eq(x402PromoCodes.code, code),
+        isNull(x402PromoCodes.revokedAt),
+        sql`(${x402PromoCodes.expiresAt} is null or ${x402PromoCodes.expiresAt} > ${now})`,
+        sql`(${x402PromoCodes.maxRedemptions} is null or ${x402PromoCodes.redemptions} < ${x402PromoCodes.maxRedemptions})`
+      ))
+      .returning();
+    return reserved || undefined;
+  }
+
+  async releasePromoRedemption(code: string): Promise<void> {
+    await db.update(x402PromoCodes)
+      .set({ redemptions: sql`greatest(${x402PromoCodes.redemptions} - 1, 0)` })
+      .where(eq(x402PromoCodes.code, code));
+  }
+
+  async recordPromoRedemption(redemption: InsertX402PromoRedemption): Promise<X402PromoRedemption> {
+    const [created] = await db.insert(x402PromoRedemptions).values(redemption).returning();
+    return created;
+  }
+
+  async summarizePromoRedemptions(code?: string): Promise<X402PromoRedemptionSummary[]> {
+    return db.select({
+      code: x402PromoRedemptions.code,
+      agentId: x402PromoRedemptions.agentId,
+      redemptions: sql<number>`count(*)::int`,
+      discountUsd: sql<number>`coalesce(sum(${x402PromoRedemptions.discountUsd}), 0)::float8`,
+      revenueUsd: sql<number>`coalesce(sum(${x402PromoRedemptions.priceUsd}), 0)::float8`,
+    })
+      .from(x402PromoRedemptions)
+      .where(code ? eq(x402PromoRedemptions.code, code) : undefined)
+      .groupBy(x402PromoRedemptions.code, x402PromoRedemptions.agentId);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, real, timestamp, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -246,8 +246,11 @@ export const agentExecutions = pgTable("agent_executions", {
   agentId: text("agent_id").notNull(),
   taskType: text("task_type").notNull(),
   status: text("status").notNull().default("pending"),
+  walletAddress: text("wallet_address"),
+  resource: text("resource"),
   inputData: text("input_data"),
   outputData: text("output_data"),
+  errorMessage: text("error_message"),
   x402Signature: text("x402_signature"),
   paymentType: text("payment_type"),
   paymentAmount: real("payment_amount"),
@@ -265,6 +268,15 @@ export const insertAgentExecutionSchema = createInsertSchema(agentExecutions).om
 export type InsertAgentExecution = z.infer<typeof insertAgentExecutionSchema>;
 export type AgentExecution = typeof agentExecutions.$inferSelect;
 
+export interface AgentExecutionFilter {
+  walletAddress?: string;
+  agentId?: string;
+  status?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
 export interface PortfolioHolding {
   tokenAddress: string;
   symbol: string;
@@ -295,6 +307,79 @@ export interface PortfolioSummary {
   performanceHistory: { timestamp: number; valueUsd: number }[];
 }
 
+export interface SmartEntryAnalysis {
+  tokenAddress: string;
+  symbol: string;
+  name: string;
+  currentPrice: number;
+  imageUrl: string | null;
+  entryZones: {
+    optimal: number;
+    aggressive: number;
+    conservative: number;
+  };
+  signals: {
+    type: 'bullish' | 'bearish' | 'neutral';
+    strength: number;
+    reasons: string[];
+  };
+  volumeAnalysis: {
+    h1Volume: number;
+    h24Volume: number;
+    volumeTrend: 'increasing' | 'decreasing' | 'stable';
+    buyPressure: number;
+  };
+  momentum: {
+    score: number;
+    trend: 'up' | 'down' | 'sideways';
+    strength: 'strong' | 'moderate' | 'weak';
+  };
+  support: {
+    level1: number;
+    level2: number;
+  };
+  recommendation: 'strong_buy' | 'buy' | 'wait' | 'avoid';
+  confidence: number;
+  liquidityUsd: number;
+  marketCap: number;
+}
+
+export interface LiquidityAnalysis {
+  tokenAddress: string;
+  symbol: string;
+  name: string;
+  imageUrl: string | null;
+  currentPrice: number;
+  liquidity: {
+    totalUsd: number;
+    baseAmount: number;
+    quoteAmount: number;
+    depth: 'deep' | 'moderate' | 'shallow' | 'critical';
+  };
+  concentration: {
+    riskLevel: 'low' | 'medium' | 'high' | 'extreme';
+    topPoolShare: number;
+    poolCount: number;
+  };
+  slippage: {
+    estimated1k: number;
+    estimated10k: number;
+    estimated50k: number;
+  };
+  metrics: {
+    liquidityToMcap: number;
+    volumeToLiquidity: number;
+    healthScore: number;
+  };
+  dexDistribution: Array<{
+    name: string;
+    liquidity: number;
+    share: number;
+  }>;
+  warnings: string[];
+  recommendation: 'safe' | 'moderate' | 'caution' | 'avoid';
+}
+
 export const portfolioSnapshots = pgTable("portfolio_snapshots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletAddress: text("wallet_address").notNull(),
@@ -312,3 +397,789 @@ export const insertPortfolioSnapshotSchema = createInsertSchema(portfolioSnapsho
 
 export type InsertPortfolioSnapshot = z.infer<typeof insertPortfolioSnapshotSchema>;
 export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+
+export const x402ConsumedPayments = pgTable("x402_consumed_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  payloadHash: text("payload_hash").notNull().unique(),
+  transactionSignature: text("transaction_signature").unique(),
+  agentId: text("agent_id").notNull(),
+  payer: text("payer"),
+  sessionId: text("session_id"),
+  paymentId: text("payment_id"),
+  consumedAt: timestamp("consumed_at").defaultNow(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const insertX402ConsumedPaymentSchema = createInsertSchema(x402ConsumedPayments).omit({
+  id: true,
+  consumedAt: true,
+  settledAt: true,
+});
+
+export type InsertX402ConsumedPayment = z.infer<typeof insertX402ConsumedPaymentSchema>;
+export type X402ConsumedPayment = typeof x402ConsumedPayments.$inferSelect;
+
+export const X402_VERIFICATION_STATUS = {
+  PENDING: "pending",
+  CONFIRMING: "confirming",
+  VERIFIED: "verified",
+  FAILED: "failed",
+} as const;
+
+// Transactions the self-hosted facilitator submitted, tracked by signature
+// until they are finalized or can no longer land.
+export const x402TransactionVerifications = pgTable("x402_transaction_verifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  signature: text("signature").notNull().unique(),
+  expectedAmount: text("expected_amount").notNull(),
+  expectedRecipient: text("expected_recipient").notNull(),
+  expectedSender: text("expected_sender").notNull(),
+  recentBlockhash: text("recent_blockhash").notNull(),
+  status: text("status").notNull().default("pending"),
+  confirmations: integer("confirmations").notNull().default(0),
+  blockHeight: bigint("block_height", { mode: "number" }),
+  slot: bigint("slot", { mode: "number" }),
+  errorCode: text("error_code"),
+  submittedAt: timestamp("submitted_at").defaultNow(),
+  verifiedAt: timestamp("verified_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertX402TransactionVerificationSchema = createInsertSchema(x402TransactionVerifications).omit({
+  id: true,
+  status: true,
+  confirmations: true,
+  blockHeight: true,
+  slot: true,
+  errorCode: true,
+  submittedAt: true,
+  verifiedAt: true,
+  updatedAt: true,
+});
+
+export type InsertX402TransactionVerification = z.infer<typeof insertX402TransactionVerificationSchema>;
+export type X402TransactionVerification = typeof x402TransactionVerifications.$inferSelect;
+
+export const X402_IDEMPOTENCY_STATUS = {
+  IN_PROGRESS: "in_progress",
+  COMPLETED: "completed",
+} as const;
+
+export const x402IdempotencyRecords = pgTable("x402_idempotency_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  idempotencyKey: text("idempotency_key").notNull(),
+  agentId: text("agent_id").notNull(),
+  requestHash: text("request_hash").notNull(),
+  payloadHash: text("payload_hash").notNull(),
+  payerWallet: text("payer_wallet"),
+  status: text("status").notNull().default("in_progress"),
+  statusCode: integer("status_code"),
+  responseBody: text("response_body"),
+  paymentResponse: text("payment_response"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  unique("x402_idempotency_agent_key").on(table.agentId, table.idempotencyKey),
+]);
+
+export const insertX402IdempotencyRecordSchema = createInsertSchema(x402IdempotencyRecords).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export type InsertX402IdempotencyRecord = z.infer<typeof insertX402IdempotencyRecordSchema>;
+export type X402IdempotencyRecord = typeof x402IdempotencyRecords.$inferSelect;
+
+export const X402_REFUND_STATUS = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  COMPLETED: "completed",
+  FAILED: "failed",
+} as const;
+
+export const x402Refunds = pgTable("x402_refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  executionId: text("execution_id").notNull().unique(),
+  agentId: text("agent_id").notNull(),
+  resource: text("resource"),
+  walletAddress: text("wallet_address").notNull(),
+  amount: real("amount").notNull(),
+  asset: text("asset").notNull(),
+  originalTransaction: text("original_transaction").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("pending"),
+  queuePaymentId: text("queue_payment_id"),
+  refundTransaction: text("refund_transaction"),
+  attempts: integer("attempts").default(0),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertX402RefundSchema = createInsertSchema(x402Refunds).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export type InsertX402Refund = z.infer<typeof insertX402RefundSchema>;
+export type X402Refund = typeof x402Refunds.$inferSelect;
+
+export interface X402RefundFilter {
+  walletAddress?: string;
+  agentId?: string;
+  executionId?: string;
+  status?: string;
+  limit?: number;
+}
+
+// Prepaid credit amounts are stored in micro-USD to avoid floating point drift.
+export const x402CreditBalances = pgTable("x402_credit_balances", {
+  walletAddress: text("wallet_address").primaryKey(),
+  balanceMicroUsd: bigint("balance_micro_usd", { mode: "number" }).notNull().default(0),
+  totalToppedUpMicroUsd: bigint("total_topped_up_micro_usd", { mode: "number" }).notNull().default(0),
+  totalSpentMicroUsd: bigint("total_spent_micro_usd", { mode: "number" }).notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type X402CreditBalance = typeof x402CreditBalances.$inferSelect;
+
+export const x402CreditTopUps = pgTable("x402_credit_top_ups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletAddress: text("wallet_address").notNull(),
+  amountMicroUsd: bigint("amount_micro_usd", { mode: "number" }).notNull(),
+  transactionSignature: text("transaction_signature").notNull().unique(),
+  executionId: text("execution_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402CreditTopUpSchema = createInsertSchema(x402CreditTopUps).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertX402CreditTopUp = z.infer<typeof insertX402CreditTopUpSchema>;
+export type X402CreditTopUp = typeof x402CreditTopUps.$inferSelect;
+
+export const X402_CREDIT_DEBIT_STATUS = {
+  RESERVED: "reserved",
+  SETTLED: "settled",
+  REVERSED: "reversed",
+} as const;
+
+export const x402CreditDebits = pgTable("x402_credit_debits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletAddress: text("wallet_address").notNull(),
+  agentId: text("agent_id").notNull(),
+  amountMicroUsd: bigint("amount_micro_usd", { mode: "number" }).notNull(),
+  quoteId: text("quote_id"),
+  executionId: text("execution_id"),
+  status: text("status").notNull().default("reserved"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const insertX402CreditDebitSchema = createInsertSchema(x402CreditDebits).omit({
+  id: true,
+  createdAt: true,
+  settledAt: true,
+});
+
+export type InsertX402CreditDebit = z.infer<typeof insertX402CreditDebitSchema>;
+export type X402CreditDebit = typeof x402CreditDebits.$inferSelect;
+
+// Sessions a wallet opened to spend prepaid credits. Tokens name a session, so
+// revoking it here ends every token issued for it.
+export const x402Sessions = pgTable("x402_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletAddress: text("wallet_address").notNull(),
+  agentId: text("agent_id").notNull(),
+  resource: text("resource").notNull(),
+  transactionSignature: text("transaction_signature"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402SessionSchema = createInsertSchema(x402Sessions).omit({
+  id: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertX402Session = z.infer<typeof insertX402SessionSchema>;
+export type X402Session = typeof x402Sessions.$inferSelect;
+
+export const x402WebhookSubscriptions = pgTable("x402_webhook_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: text("url").notNull(),
+  events: text("events").array().notNull(),
+  secret: text("secret").notNull(),
+  // Kept valid alongside `secret` until previousSecretExpiresAt after a rotation.
+  previousSecret: text("previous_secret"),
+  previousSecretExpiresAt: timestamp("previous_secret_expires_at"),
+  active: boolean("active").notNull().default(true),
+  failureCount: integer("failure_count").notNull().default(0),
+  lastDeliveryAt: timestamp("last_delivery_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertX402WebhookSubscriptionSchema = createInsertSchema(x402WebhookSubscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertX402WebhookSubscription = z.infer<typeof insertX402WebhookSubscriptionSchema>;
+export type X402WebhookSubscription = typeof x402WebhookSubscriptions.$inferSelect;
+
+export const X402_WEBHOOK_DELIVERY_STATUS = {
+  PENDING: "pending",
+  DELIVERED: "delivered",
+  FAILED: "failed",
+} as const;
+
+// One row per (subscription, event). The event body is stored unsigned and
+// signed with the subscription's secret on every attempt.
+export const x402WebhookDeliveries = pgTable("x402_webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: text("subscription_id").notNull(),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: text("payload").notNull(),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseCode: integer("response_code"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => [
+  unique("x402_webhook_delivery_event").on(table.subscriptionId, table.eventId),
+]);
+
+export const insertX402WebhookDeliverySchema = createInsertSchema(x402WebhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+  deliveredAt: true,
+});
+
+export type InsertX402WebhookDelivery = z.infer<typeof insertX402WebhookDeliverySchema>;
+export type X402WebhookDelivery = typeof x402WebhookDeliveries.$inferSelect;
+
+export interface X402WebhookDeliveryFilter {
+  subscriptionId?: string;
+  eventId?: string;
+  status?: string;
+  limit?: number;
+}
+
+export const X402_AGENT_STATUS = {
+  ACTIVE: "active",
+  INACTIVE: "inactive",
+  MAINTENANCE: "maintenance",
+} as const;
+
+// Registry of paid agents. Schemas and pricing rules are stored as JSON text;
+// retired agents keep their row (and version history) but are no longer served.
+export const x402Agents = pgTable("x402_agents", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  resource: text("resource").notNull().unique(),
+  method: text("method").notNull().default("GET"),
+  priceUsd: real("price_usd").notNull(),
+  inputSchema: text("input_schema"),
+  outputSchema: text("output_schema"),
+  pricing: text("pricing"),
+  probe: text("probe"),
+  category: text("category").notNull().default("Utility"),
+  tags: text("tags").array().notNull(),
+  documentation: text("documentation"),
+  status: text("status").notNull().default("active"),
+  version: text("version").notNull().default("1.0.0"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  retiredAt: timestamp("retired_at"),
+});
+
+export const insertX402AgentSchema = createInsertSchema(x402Agents).omit({
+  createdAt: true,
+  updatedAt: true,
+  retiredAt: true,
+});
+
+export type InsertX402Agent = z.infer<typeof insertX402AgentSchema>;
+export type X402Agent = typeof x402Agents.$inferSelect;
+
+export const x402AgentVersions = pgTable("x402_agent_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agentId: text("agent_id").notNull(),
+  version: text("version").notNull(),
+  snapshot: text("snapshot").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("x402_agent_version").on(table.agentId, table.version),
+]);
+
+export type X402AgentVersion = typeof x402AgentVersions.$inferSelect;
+
+export const x402AgentHealthChecks = pgTable("x402_agent_health_checks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agentId: text("agent_id").notNull(),
+  success: boolean("success").notNull(),
+  statusCode: integer("status_code"),
+  latencyMs: integer("latency_ms").notNull(),
+  errorMessage: text("error_message"),
+  checkedAt: timestamp("checked_at").defaultNow(),
+});
+
+export const insertX402AgentHealthCheckSchema = createInsertSchema(x402AgentHealthChecks).omit({
+  id: true,
+  checkedAt: true,
+});
+
+export type InsertX402AgentHealthCheck = z.infer<typeof insertX402AgentHealthCheckSchema>;
+export type X402AgentHealthCheck = typeof x402AgentHealthChecks.$inferSelect;
+
+const x402FieldDefSchema = z.object({
+  type: z.string().optional(),
+  required: z.boolean().optional(),
+  description: z.string().optional(),
+  enum: z.array(z.string()).optional(),
+  format: z.enum(["solana-address"]).optional(),
+  maxLength: z.number().int().positive().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+});
+
+const x402PricingRulesSchema = z.object({
+  depth: z.record(z.enum(["shallow", "standard", "deep"]), z.number().positive()).optional(),
+  batchParam: z.string().min(1).optional(),
+  maxBatchSize: z.number().int().positive().optional(),
+  amountParam: z.string().min(1).optional(),
+  maxAmountUSD: z.number().positive().optional(),
+});
+
+// Payloads accepted by the agent admin API.
+export const x402AgentDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{3,64}$/, "id must be 3-64 lowercase letters, digits or dashes"),
+  name: z.string().min(1).max(120),
+  description: z.string().min(1).max(2000),
+  priceUSD: z.number().positive().max(1000),
+  resource: z.string().regex(/^\/api\/[A-Za-z0-9/_-]+$/, "resource must be an /api/ path"),
+  method: z.enum(["GET", "POST"]).default("GET"),
+  inputSchema: z.object({
+    queryParams: z.record(x402FieldDefSchema).optional(),
+    bodyFields: z.record(x402FieldDefSchema).optional(),
+  }).optional(),
+  outputSchema: z.record(z.any()).optional(),
+  pricing: x402PricingRulesSchema.optional(),
+  probe: z.object({
+    query: z.record(z.string()).optional(),
+    body: z.record(z.any()).optional(),
+  }).optional(),
+  category: z.string().min(1).max(60).optional(),
+  tags: z.array(z.string().min(1).max(40)).max(20).optional(),
+  documentation: z.string().url().optional(),
+  status: z.enum(["active", "inactive", "maintenance"]).default("active"),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, "version must be semver (x.y.z)").default("1.0.0"),
+});
+
+// The id, resource and method are fixed once created since routes bind to them.
+export const x402AgentUpdateSchema = x402AgentDefinitionSchema
+  .omit({ id: true, resource: true, method: true, version: true })
+  .partial();
+
+export const x402AgentVersionSchema = x402AgentUpdateSchema.extend({
+  version: x402AgentDefinitionSchema.shape.version.removeDefault(),
+});
+
+export type X402AgentDefinition = z.infer<typeof x402AgentDefinitionSchema>;
+export type X402AgentUpdate = z.infer<typeof x402AgentUpdateSchema>;
+
+export const X402_CALL_PAYMENT_METHOD = {
+  X402: "x402",
+  CREDITS: "credits",
+  PASS: "pass",
+  PROMO: "promo",
+  FREE: "free",
+} as const;
+
+// One row per agent call that reached its handler, paid or free. Revenue
+// reporting reads from here, so it survives restarts.
+export const x402AgentCalls = pgTable("x402_agent_calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agentId: text("agent_id").notNull(),
+  walletAddress: text("wallet_address"),
+  paymentMethod: text("payment_method").notNull().default("free"),
+  paymentAmount: real("payment_amount").notNull().default(0),
+  executionId: text("execution_id"),
+  statusCode: integer("status_code").notNull(),
+  success: boolean("success").notNull(),
+  responseTimeMs: integer("response_time_ms").notNull(),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402AgentCallSchema = createInsertSchema(x402AgentCalls).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertX402AgentCall = z.infer<typeof insertX402AgentCallSchema>;
+export type X402AgentCall = typeof x402AgentCalls.$inferSelect;
+
+export type X402CallGrouping = "agent" | "day" | "wallet";
+
+export interface X402AgentCallFilter {
+  agentId?: string;
+  walletAddress?: string;
+  paid?: boolean;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface X402CallSummary {
+  key: string;
+  calls: number;
+  paidCalls: number;
+  successfulCalls: number;
+  failedCalls: number;
+  revenue: number;
+  uniqueWallets: number;
+  avgResponseTimeMs: number;
+  p50ResponseTimeMs: number;
+  p95ResponseTimeMs: number;
+}
+
+export const X402_BATCH_STATUS = {
+  PROCESSING: "processing",
+  COMPLETED: "completed",
+  PARTIAL: "partial",
+  FAILED: "failed",
+  INTERRUPTED: "interrupted",
+} as const;
+
+export const X402_BATCH_PAYMENT_STATUS = {
+  COMPLETED: "completed",
+  RETRYING: "retrying",
+  FAILED: "failed",
+  // Sent but never confirmed; needs reconciling by hand before any resend.
+  UNCONFIRMED: "unconfirmed",
+} as const;
+
+// Batches of outbound payments (refunds, payouts) drained from x402-queue.
+// Ids come from the queue so logs and API responses line up.
+export const x402PaymentBatches = pgTable("x402_payment_batches", {
+  id: varchar("id").primaryKey(),
+  status: text("status").notNull().default("processing"),
+  backend: text("backend").notNull(),
+  paymentCount: integer("payment_count").notNull(),
+  totalAmount: real("total_amount").notNull(),
+  successCount: integer("success_count").notNull().default(0),
+  failureCount: integer("failure_count").notNull().default(0),
+  retryCount: integer("retry_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const insertX402PaymentBatchSchema = createInsertSchema(x402PaymentBatches).omit({
+  createdAt: true,
+  processedAt: true,
+});
+
+export type InsertX402PaymentBatch = z.infer<typeof insertX402PaymentBatchSchema>;
+export type X402PaymentBatch = typeof x402PaymentBatches.$inferSelect;
+
+// One row per payment attempt within a batch; a retried payment shows up in
+// each batch that picked it up.
+export const x402BatchPayments = pgTable("x402_batch_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  paymentId: text("payment_id").notNull(),
+  kind: text("kind").notNull(),
+  referenceId: text("reference_id"),
+  walletAddress: text("wallet_address").notNull(),
+  agentId: text("agent_id").notNull(),
+  amount: real("amount").notNull(),
+  asset: text("asset").notNull(),
+  attempt: integer("attempt").notNull(),
+  status: text("status").notNull(),
+  transaction: text("transaction"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("x402_batch_payments_batch_payment").on(table.batchId, table.paymentId),
+]);
+
+export const insertX402BatchPaymentSchema = createInsertSchema(x402BatchPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertX402BatchPayment = z.infer<typeof insertX402BatchPaymentSchema>;
+export type X402BatchPayment = typeof x402BatchPayments.$inferSelect;
+
+export interface X402PaymentBatchFilter {
+  status?: string;
+  limit?: number;
+}
+
+// The single record of a payment across its lifecycle; transitions follow
+// X402_PAYMENT_STATUS in shared/x402 and each one is logged as an event.
+export const x402Payments = pgTable("x402_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: text("quote_id").notNull(),
+  agentId: text("agent_id").notNull(),
+  resource: text("resource").notNull(),
+  method: text("method").notNull(),
+  status: text("status").notNull().default("quoted"),
+  walletAddress: text("wallet_address"),
+  amountUsd: real("amount_usd").notNull(),
+  network: text("network"),
+  asset: text("asset"),
+  amount: text("amount"),
+  payloadHash: text("payload_hash"),
+  transactionSignature: text("transaction_signature"),
+  creditDebitId: text("credit_debit_id"),
+  executionId: text("execution_id"),
+  refundId: text("refund_id"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertX402PaymentSchema = createInsertSchema(x402Payments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertX402Payment = z.infer<typeof insertX402PaymentSchema>;
+export type X402Payment = typeof x402Payments.$inferSelect;
+
+export const X402_PAYMENT_METHOD = {
+  X402: "x402",
+  CREDITS: "credits",
+} as const;
+
+export const x402PaymentEvents = pgTable("x402_payment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: text("payment_id").notNull(),
+  type: text("type").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402PaymentEventSchema = createInsertSchema(x402PaymentEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertX402PaymentEvent = z.infer<typeof insertX402PaymentEventSchema>;
+export type X402PaymentEvent = typeof x402PaymentEvents.$inferSelect;
+
+export interface X402PaymentFilter {
+  walletAddress?: string;
+  agentId?: string;
+  status?: string;
+  statuses?: string[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Spending limits a wallet owner sets on their own x402 payments, in USD. A
+// null limit means no limit. agentLimits is a JSON object of agent id to a
+// daily USD cap for that agent.
+export const x402WalletBudgets = pgTable("x402_wallet_budgets", {
+  walletAddress: text("wallet_address").primaryKey(),
+  dailyLimitUsd: real("daily_limit_usd"),
+  monthlyLimitUsd: real("monthly_limit_usd"),
+  perCallLimitUsd: real("per_call_limit_usd"),
+  agentLimits: text("agent_limits"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertX402WalletBudgetSchema = createInsertSchema(x402WalletBudgets).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertX402WalletBudget = z.infer<typeof insertX402WalletBudgetSchema>;
+export type X402WalletBudget = typeof x402WalletBudgets.$inferSelect;
+
+const budgetLimitSchema = z.number().positive().max(1_000_000).nullable();
+
+// Body of a budget update. Omitted fields keep their current value; null
+// removes a limit.
+export const x402WalletBudgetUpdateSchema = z.object({
+  dailyLimitUSD: budgetLimitSchema.optional(),
+  monthlyLimitUSD: budgetLimitSchema.optional(),
+  perCallLimitUSD: budgetLimitSchema.optional(),
+  agentLimits: z.record(z.string().min(1).max(64), budgetLimitSchema).optional(),
+});
+
+export type X402WalletBudgetUpdate = z.infer<typeof x402WalletBudgetUpdateSchema>;
+
+export interface X402WalletSpend {
+  agentId: string;
+  spentUsd: number;
+}
+
+// Time-boxed passes admins put on sale, e.g. 30 days of unlimited calls to
+// one agent, bought with a single x402 payment.
+export const x402PassPlans = pgTable("x402_pass_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  agentIds: text("agent_ids").array().notNull(),
+  durationDays: integer("duration_days").notNull(),
+  priceUsd: real("price_usd").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertX402PassPlanSchema = createInsertSchema(x402PassPlans).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertX402PassPlan = z.infer<typeof insertX402PassPlanSchema>;
+export type X402PassPlan = typeof x402PassPlans.$inferSelect;
+
+// A pass held by a wallet. Only a hash of its bearer token is stored; the
+// token itself is returned once, when the pass is bought or granted.
+export const x402Passes = pgTable("x402_passes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: text("plan_id"),
+  walletAddress: text("wallet_address").notNull(),
+  agentIds: text("agent_ids").array().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  transactionSignature: text("transaction_signature").unique(),
+  priceUsd: real("price_usd").notNull().default(0),
+  startsAt: timestamp("starts_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason"),
+  uses: integer("uses").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402PassSchema = createInsertSchema(x402Passes).omit({
+  id: true,
+  uses: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  revokedReason: true,
+  createdAt: true,
+});
+
+export type InsertX402Pass = z.infer<typeof insertX402PassSchema>;
+export type X402Pass = typeof x402Passes.$inferSelect;
+
+export interface X402PassSummary {
+  planId: string | null;
+  passes: number;
+  active: number;
+  revoked: number;
+  uses: number;
+  revenueUsd: number;
+}
+
+export interface X402PassFilter {
+  planId?: string;
+  walletAddress?: string;
+  activeAt?: Date;
+  limit?: number;
+}
+
+// Codes take percentOff off the price of the listed agents (all agents when
+// agentIds is null); 100 waives the price.
+export const x402PromoCodes = pgTable("x402_promo_codes", {
+  code: text("code").primaryKey(),
+  description: text("description"),
+  agentIds: text("agent_ids").array(),
+  percentOff: integer("percent_off").notNull(),
+  maxRedemptions: integer("max_redemptions"),
+  redemptions: integer("redemptions").notNull().default(0),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402PromoCodeSchema = createInsertSchema(x402PromoCodes).omit({
+  redemptions: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertX402PromoCode = z.infer<typeof insertX402PromoCodeSchema>;
+export type X402PromoCode = typeof x402PromoCodes.$inferSelect;
+
+export const x402PromoRedemptions = pgTable("x402_promo_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull(),
+  agentId: text("agent_id").notNull(),
+  walletAddress: text("wallet_address"),
+  priceUsd: real("price_usd").notNull(),
+  discountUsd: real("discount_usd").notNull(),
+  executionId: text("execution_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertX402PromoRedemptionSchema = createInsertSchema(x402PromoRedemptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertX402PromoRedemption = z.infer<typeof insertX402PromoRedemptionSchema>;
+export type X402PromoRedemption = typeof x402PromoRedemptions.$inferSelect;
+
+export interface X402PromoRedemptionSummary {
+  code: string;
+  agentId: string;
+  redemptions: number;
+  discountUsd: number;
+  revenueUsd: number;
+}
+
+const agentIdListSchema = z.array(z.string().min(1).max(64)).min(1).max(50);
+
+export const x402PassPlanDefinitionSchema = z.object({
+  name: z.string().min(1).max(100),
+  agentIds: agentIdListSchema,
+  durationDays: z.number().int().min(1).max(366),
+  priceUSD: z.number().positive().max(10000),
+});
+
+export const x402PassGrantSchema = z.object({
+  walletAddress: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/),
+  agentIds: agentIdListSchema,
+  durationDays: z.number().int().min(1).max(366),
+});
+
+export const x402PromoCodeDefinitionSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_-]{3,32}$/).transform(code => code.toUpperCase()),
+  description: z.string().max(200).optional(),
+  agentIds: agentIdListSchema.optional(),
+  percentOff: z.number().int().min(1).max(100),
+  maxRedemptions: z.number().int().positive().optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export type X402PassPlanDefinition = z.infer<typeof x402PassPlanDefinitionSchema>;
+export type X402PassGrant = z.infer<typeof x402PassGrantSchema>;
+export type X402PromoCodeDefinition = z.infer<typeof x402PromoCodeDefinitionSchema>;
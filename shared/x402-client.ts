@@ -0,0 +1,349 @@
+import type { LiquidityAnalysis, SmartEntryAnalysis } from "./schema";
+import {
+  X402_ASSETS,
+  X402_NETWORK_IDS,
+  type X402AgentConfig,
+  type X402Cluster,
+  type X402PaymentRequirements,
+  type X402SettlementReceipt,
+  type X402Statement
+} from "./x402";
+import { decodeSettlementReceipt, encodePaymentHeader, type X402Signer } from "./x402-signer";
+import type { X402SignedReceipt } from "./x402-receipts";
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_PREFERRED_ASSET = "USDC";
+
+// An agent as listed by /api/x402/agents.
+export interface X402AgentListing extends X402AgentConfig {
+  status: string;
+  version: string;
+  category?: string;
+  tags?: string[];
+  documentation?: string;
+  health?: Record<string, unknown>;
+  fullUrl: string;
+  priceDisplay: string;
+}
+
+export interface SmartEntryResult extends SmartEntryAnalysis {
+  token: string;
+  generatedAt: string;
+  poweredBy: string;
+}
+
+export interface LiquidityResult extends LiquidityAnalysis {
+  token: string;
+  liquidityUSD: number;
+  generatedAt: string;
+  poweredBy: string;
+}
+
+export interface X402ClientOptions {
+  baseUrl: string;
+  signer: X402Signer;
+  // Total USD this client may pay across all calls. Calls that would go over
+  // it fail before anything is signed.
+  maxSpendUSD?: number;
+  // Retries after a network error, 5xx or in-progress 409. Every attempt of
+  // a call reuses its Idempotency-Key and payment, so a retry never pays twice.
+  maxRetries?: number;
+  retryDelayMs?: number;
+  // Symbol of the asset to pay with when the agent accepts several.
+  preferredAsset?: string;
+  fetch?: typeof fetch;
+}
+
+export interface X402CallInput {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+export interface X402CallOptions {
+  idempotencyKey?: string;
+  headers?: Record<string, string>;
+}
+
+// Proof of wallet ownership for private reads: a credit session token for the
+// wallet, or a signature over "MODEXO x402 <action>\nWallet: <wallet>\nTimestamp: <ms>".
+// Budget updates add "\nBody: <hex sha256 of the limits as key-sorted JSON>".
+export type X402WalletAuth = { sessionToken: string } | { timestamp: number; signature: string };
+
+function walletAuthHeaders(auth: X402WalletAuth): Record<string, string> {
+  return "sessionToken" in auth
+    ? { "X-Session-Token": auth.sessionToken }
+    : { "X-Wallet-Timestamp": String(auth.timestamp), "X-Wallet-Signature": auth.signature };
+}
+
+export interface X402CallResult<T> {
+  data: T;
+  status: number;
+  priceUSD: number;
+  receipt: X402SettlementReceipt | null;
+  paymentId?: string;
+  executionId?: string;
+  idempotencyKey: string;
+}
+
+export type X402ClientErrorCode =
+  | "AGENT_NOT_FOUND"
+  | "NO_PAYMENT_OPTION"
+  | "MAX_SPEND_EXCEEDED"
+  | "BUDGET_EXCEEDED"
+  | "PAYMENT_REJECTED"
+  | "REQUEST_FAILED";
+
+export class X402ClientError extends Error {
+  readonly code: X402ClientErrorCode;
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(code: X402ClientErrorCode, message: string, status?: number, body?: unknown) {
+    super(message);
+    this.name = "X402ClientError";
+    this.code = code;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Spend is tracked in whole micro-dollars so repeated additions do not drift.
+function roundUSD(usd: number): number {
+  return Math.round(usd * 1_000_000) / 1_000_000;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRetryable(status: number): boolean {
+  return status === 409 || status >= 500;
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return text;
+  }
+}
+
+function errorMessage(body: unknown, fallback: string): string {
+  return body && typeof body === "object" && typeof (body as any).error === "string" ? (body as any).error : fallback;
+}
+
+// Client for paid Modexo agents. It discovers agents, answers 402 challenges
+// with the configured signer and keeps a running total against maxSpendUSD.
+// Spend is reserved when a payment is signed and released if the call fails,
+// since the server only settles payments for successful responses.
+export class X402Client {
+  private baseUrl: string;
+  private signer: X402Signer;
+  private maxSpendUSD: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private preferredAsset: string;
+  private fetchImpl: typeof fetch;
+  private agents: Promise<X402AgentListing[]> | null = null;
+  private spent = 0;
+
+  constructor(options: X402ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.signer = options.signer;
+    this.maxSpendUSD = options.maxSpendUSD ?? Infinity;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.preferredAsset = (options.preferredAsset || DEFAULT_PREFERRED_ASSET).toUpperCase();
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  get spentUSD(): number {
+    return this.spent;
+  }
+
+  get remainingUSD(): number {
+    return Math.max(0, roundUSD(this.maxSpendUSD - this.spent));
+  }
+
+  // Lists active agents. The listing is fetched once per client; pass
+  // refresh to pick up registry changes.
+  async discover(refresh: boolean = false): Promise<X402AgentListing[]> {
+    if (!this.agents || refresh) {
+      this.agents = this.fetchImpl(`${this.baseUrl}/api/x402/agents`)
+        .then(async res => {
+          const body = await readBody(res);
+          if (!res.ok) {
+            throw new X402ClientError("REQUEST_FAILED", errorMessage(body, "Failed to list agents"), res.status, body);
+          }
+          return (body as { agents: X402AgentListing[] }).agents;
+        });
+      this.agents.catch(() => { this.agents = null; });
+    }
+    return this.agents;
+  }
+
+  async getAgent(agentId: string): Promise<X402AgentListing> {
+    const agent = (await this.discover()).find(candidate => candidate.id === agentId);
+    if (!agent) throw new X402ClientError("AGENT_NOT_FOUND", `Unknown agent ${agentId}`);
+    return agent;
+  }
+
+  async call<T = unknown>(agentId: string, input: X402CallInput = {}, options: X402CallOptions = {}): Promise<X402CallResult<T>> {
+    const agent = await this.getAgent(agentId);
+    const idempotencyKey = options.idempotencyKey || crypto.randomUUID();
+
+    const url = new URL(`${this.baseUrl}${agent.resource}`);
+    for (const [key, value] of Object.entries(input.query || {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const baseHeaders: Record<string, string> = {
+      ...options.headers,
+      "Idempotency-Key": idempotencyKey,
+      ...(input.body !== undefined && { "Content-Type": "application/json" })
+    };
+    const body = input.body !== undefined && agent.method !== "GET" ? JSON.stringify(input.body) : undefined;
+
+    let paymentHeaders: Record<string, string> | undefined;
+    let priceUSD = 0;
+    let reservedUSD = 0;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let res: Response;
+        try {
+          res = await this.fetchImpl(url.toString(), {
+            method: agent.method,
+            headers: { ...baseHeaders, ...paymentHeaders },
+            body
+          });
+        } catch (e) {
+          if (attempt >= this.maxRetries) {
+            // A paid request that never answered may still have settled, so
+            // its spend stays counted.
+            reservedUSD = 0;
+            throw e;
+          }
+          await delay(this.retryDelayMs * (attempt + 1));
+          continue;
+        }
+
+        if (res.status === 402) {
+          const challenge = await readBody(res) as { error?: string; budget?: unknown; accepts?: X402PaymentRequirements[] };
+          if (paymentHeaders) {
+            // The payer's own server-side budget (see /api/x402/budgets) refused it.
+            if (challenge.budget) {
+              throw new X402ClientError("BUDGET_EXCEEDED", errorMessage(challenge, "Wallet budget exceeded"), 402, challenge);
+            }
+            throw new X402ClientError("PAYMENT_REJECTED", errorMessage(challenge, "Payment was rejected"), 402, challenge);
+          }
+          const requirements = this.selectRequirements(challenge.accepts || []);
+          priceUSD = reservedUSD = this.reserve(agent, requirements);
+          paymentHeaders = await this.authorize(requirements);
+          // The paid request gets its own retry budget.
+          attempt = -1;
+          continue;
+        }
+
+        if (isRetryable(res.status) && attempt < this.maxRetries) {
+          await delay(this.retryDelayMs * (attempt + 1));
+          continue;
+        }
+
+        const data = await readBody(res);
+        if (!res.ok) {
+          throw new X402ClientError("REQUEST_FAILED", errorMessage(data, `${agent.id} responded with ${res.status}`), res.status, data);
+        }
+
+        reservedUSD = 0;
+        return {
+          data: data as T,
+          status: res.status,
+          priceUSD,
+          receipt: decodeSettlementReceipt(res.headers.get("X-PAYMENT-RESPONSE")),
+          paymentId: res.headers.get("X-Payment-Id") || undefined,
+          executionId: res.headers.get("X-Execution-Id") || undefined,
+          idempotencyKey
+        };
+      }
+    } finally {
+      this.spent = roundUSD(this.spent - reservedUSD);
+    }
+  }
+
+  smartEntry(token: string, options?: X402CallOptions): Promise<X402CallResult<SmartEntryResult>> {
+    return this.call<SmartEntryResult>("x402-entry", { query: { token } }, options);
+  }
+
+  liquidity(token: string, options?: X402CallOptions): Promise<X402CallResult<LiquidityResult>> {
+    return this.call<LiquidityResult>("x402-liquidity", { query: { token } }, options);
+  }
+
+  // Signed receipt for a paid call, by the paymentId of its result. Check it
+  // with verifyX402Receipt from shared/x402-receipts. Only the paying wallet
+  // can fetch it; signatures are for the "receipt" action.
+  getReceipt(paymentId: string, auth: X402WalletAuth): Promise<X402SignedReceipt> {
+    return this.getJson<X402SignedReceipt>(`/api/x402/receipts/${encodeURIComponent(paymentId)}`, "Failed to fetch receipt", walletAuthHeaders(auth));
+  }
+
+  // Monthly statement for a wallet; month is "YYYY-MM" (UTC), defaulting to
+  // the current month. Signatures are for the "statement" action.
+  getStatement(walletAddress: string, auth: X402WalletAuth, month?: string): Promise<X402Statement> {
+    const query = month ? `?month=${encodeURIComponent(month)}` : "";
+    return this.getJson<X402Statement>(`/api/x402/statements/${walletAddress}${query}`, "Failed to fetch statement", walletAuthHeaders(auth));
+  }
+
+  // Picks the advertised option for the preferred asset, falling back to the
+  // first option on a network the shared asset table knows.
+  private selectRequirements(accepts: X402PaymentRequirements[]): X402PaymentRequirements {
+    const known = accepts.filter(option => option.scheme === "exact" && this.assetSymbol(option) !== undefined);
+    const choice = known.find(option => this.assetSymbol(option) === this.preferredAsset) || known[0];
+    if (!choice) {
+      throw new X402ClientError("NO_PAYMENT_OPTION", "Agent offers no payment option this client can sign");
+    }
+    return choice;
+  }
+
+  private assetSymbol(option: X402PaymentRequirements): string | undefined {
+    const cluster = (Object.keys(X402_NETWORK_IDS) as X402Cluster[]).find(id => X402_NETWORK_IDS[id] === option.network);
+    return cluster ? X402_ASSETS[cluster].find(asset => asset.address === option.asset)?.symbol : undefined;
+  }
+
+  private reserve(agent: X402AgentListing, requirements: X402PaymentRequirements): number {
+    const priceUSD = Number(requirements.extra?.quote?.priceUSD ?? agent.priceUSD);
+    if (this.spent + priceUSD > this.maxSpendUSD) {
+      throw new X402ClientError(
+        "MAX_SPEND_EXCEEDED",
+        `Paying $${priceUSD} for ${agent.id} would exceed the $${this.maxSpendUSD} spend limit ($${this.remainingUSD} left)`
+      );
+    }
+    this.spent = roundUSD(this.spent + priceUSD);
+    return priceUSD;
+  }
+
+  private async authorize(requirements: X402PaymentRequirements): Promise<Record<string, string>> {
+    const payload = await this.signer.signPayment(requirements, {
+      recentBlockhash: () => this.recentBlockhash()
+    });
+    const quoteId = requirements.extra?.quote?.id;
+    return {
+      "X-Payment": encodePaymentHeader(payload),
+      ...(quoteId && { "X-Quote-Id": quoteId })
+    };
+  }
+
+  private async recentBlockhash(): Promise<string> {
+    return (await this.getJson<{ blockhash: string }>("/api/x402/blockhash", "Failed to fetch a recent blockhash")).blockhash;
+  }
+
+  private async getJson<T>(path: string, failure: string, headers?: Record<string, string>): Promise<T> {
+    const res = await this.fetchImpl(`${this.baseUrl}${path}`, { headers });
+    const body = await readBody(res);
+    if (!res.ok) {
+      throw new X402ClientError("REQUEST_FAILED", errorMessage(body, failure), res.status, body);
+    }
+    return body as T;
+  }
+}
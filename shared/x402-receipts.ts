@@ -0,0 +1,70 @@
+import { decodeBase58 } from "./base58";
+
+export const X402_RECEIPT_VERSION = 1;
+
+// What the server attests to for one paid call. Receipts are snapshots: a
+// payment refunded after its receipt was issued needs a fresh receipt to
+// show it.
+export interface X402CallReceipt {
+  version: number;
+  paymentId: string;
+  executionId: string | null;
+  walletAddress: string;
+  agentId: string;
+  resource: string;
+  status: string;
+  amountUSD: number;
+  network: string | null;
+  asset: string | null;
+  amount: string | null;
+  transaction: string;
+  paidAt: string;
+  issuedAt: string;
+  // Base58 ed25519 public key the receipt is signed with.
+  issuer: string;
+}
+
+export interface X402SignedReceipt {
+  receipt: X402CallReceipt;
+  // Base58 ed25519 signature of receiptSigningMessage(receipt).
+  signature: string;
+}
+
+// Sorts object keys recursively, so a value serializes to the same JSON
+// whatever order its keys were built in.
+export function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+// The exact bytes that are signed: the receipt as JSON with keys sorted, so
+// a receipt can be re-serialized in any key order and still verify.
+export function receiptSigningMessage(receipt: X402CallReceipt): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(canonicalize(receipt)));
+}
+
+// Checks a receipt offline against the issuer key published at
+// /api/x402/receipts/public-key. Pass that key rather than trusting the
+// receipt's own issuer field. Uses WebCrypto Ed25519 (Node 20+, current
+// browsers).
+export async function verifyX402Receipt(signed: X402SignedReceipt, issuer: string): Promise<boolean> {
+  if (signed.receipt.issuer !== issuer) return false;
+  try {
+    const key = await crypto.subtle.importKey("raw", decodeBase58(issuer), { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify(
+      { name: "Ed25519" },
+      key,
+      decodeBase58(signed.signature),
+      receiptSigningMessage(signed.receipt)
+    );
+  } catch {
+    return false;
+  }
+}
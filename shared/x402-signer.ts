@@ -0,0 +1,206 @@
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from "@solana/web3.js";
+import { NATIVE_SOL_MINT, type X402PaymentRequirements, type X402SettlementReceipt } from "./x402";
+
+export const X402_PAYLOAD_VERSION = 1;
+
+// Compute budget the exact scheme expects ahead of the transfer. The fee payer
+// covers the priority fee, so it is kept at the minimum.
+const TRANSFER_COMPUTE_UNITS = 40000;
+const TRANSFER_COMPUTE_UNIT_PRICE = 1;
+
+// SPL Token instructions are built by hand: @solana/spl-token relies on a
+// global Buffer, which browsers do not have.
+const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+const TRANSFER_CHECKED_DISCRIMINATOR = 12;
+
+// The decoded X-Payment header.
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: Record<string, unknown>;
+}
+
+export interface X402SigningContext {
+  // Blockhash the verifier will accept, normally from /api/x402/blockhash.
+  recentBlockhash(): Promise<string>;
+}
+
+// Turns one advertised payment option into a signed payment. Signers never see
+// the request itself, only what it costs.
+export interface X402Signer {
+  readonly kind: string;
+  readonly address: string;
+  signPayment(requirements: X402PaymentRequirements, context: X402SigningContext): Promise<X402PaymentPayload>;
+}
+
+// Anything that can sign as the transfer authority, e.g. a wallet-adapter
+// wallet or the injected Phantom provider.
+export interface X402WalletAdapter {
+  publicKey: { toBase58(): string } | null;
+  signTransaction(transaction: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+function associatedTokenAddress(mint: PublicKey, owner: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
+
+function transferCheckedInstruction(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  authority: PublicKey,
+  amount: bigint,
+  decimals: number
+): TransactionInstruction {
+  const data = new Uint8Array(10);
+  data[0] = TRANSFER_CHECKED_DISCRIMINATOR;
+  new DataView(data.buffer).setBigUint64(1, amount, true);
+  data[9] = decimals;
+
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false }
+    ],
+    data: data as Buffer
+  });
+}
+
+// Builds the unsigned exact-scheme payment: a transfer of the quoted amount to
+// the receiver, with the facilitator named in the requirements as fee payer.
+// The payer signs only as transfer authority; the facilitator adds the fee
+// payer signature when it settles.
+export function buildExactPaymentTransaction(
+  requirements: X402PaymentRequirements,
+  authority: PublicKey,
+  recentBlockhash: string
+): VersionedTransaction {
+  const feePayer = requirements.extra?.feePayer;
+  if (!feePayer) throw new Error("Payment requirements do not name a fee payer");
+
+  const amount = BigInt(requirements.maxAmountRequired);
+  const payTo = new PublicKey(requirements.payTo);
+  let transfer: TransactionInstruction;
+  if (requirements.asset === NATIVE_SOL_MINT) {
+    transfer = SystemProgram.transfer({ fromPubkey: authority, toPubkey: payTo, lamports: amount });
+  } else {
+    const mint = new PublicKey(requirements.asset);
+    transfer = transferCheckedInstruction(
+      associatedTokenAddress(mint, authority),
+      mint,
+      associatedTokenAddress(mint, payTo),
+      authority,
+      amount,
+      requirements.extra?.decimals ?? 6
+    );
+  }
+
+  const message = new TransactionMessage({
+    payerKey: new PublicKey(feePayer),
+    recentBlockhash,
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: TRANSFER_COMPUTE_UNITS }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: TRANSFER_COMPUTE_UNIT_PRICE }),
+      transfer
+    ]
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+function exactPayload(requirements: X402PaymentRequirements, transaction: VersionedTransaction): X402PaymentPayload {
+  return {
+    x402Version: X402_PAYLOAD_VERSION,
+    scheme: requirements.scheme,
+    network: requirements.network,
+    payload: { transaction: toBase64(transaction.serialize()) }
+  };
+}
+
+export function encodePaymentHeader(payload: X402PaymentPayload): string {
+  return btoa(JSON.stringify(payload));
+}
+
+export function decodeSettlementReceipt(header: string | null | undefined): X402SettlementReceipt | null {
+  if (!header) return null;
+  try {
+    return JSON.parse(atob(header));
+  } catch {
+    return null;
+  }
+}
+
+// Pays from a keypair held by the caller, e.g. a trading bot's hot wallet.
+export function createKeypairSigner(keypair: Keypair): X402Signer {
+  return {
+    kind: "keypair",
+    address: keypair.publicKey.toBase58(),
+    async signPayment(requirements, context) {
+      const transaction = buildExactPaymentTransaction(requirements, keypair.publicKey, await context.recentBlockhash());
+      transaction.sign([keypair]);
+      return exactPayload(requirements, transaction);
+    }
+  };
+}
+
+export function createWalletAdapterSigner(wallet: X402WalletAdapter): X402Signer {
+  return {
+    kind: "wallet-adapter",
+    get address() {
+      if (!wallet.publicKey) throw new Error("Wallet is not connected");
+      return wallet.publicKey.toBase58();
+    },
+    async signPayment(requirements, context) {
+      if (!wallet.publicKey) throw new Error("Wallet is not connected");
+      const authority = new PublicKey(wallet.publicKey.toBase58());
+      const transaction = buildExactPaymentTransaction(requirements, authority, await context.recentBlockhash());
+      return exactPayload(requirements, await wallet.signTransaction(transaction));
+    }
+  };
+}
+
+// Unsigned payloads that only the local facilitator (X402_FACILITATOR=local)
+// accepts, for development and tests without funds.
+export function createMockSigner(address: string = Keypair.generate().publicKey.toBase58()): X402Signer {
+  return {
+    kind: "mock",
+    address,
+    async signPayment(requirements) {
+      const nonce = crypto.getRandomValues(new Uint8Array(32));
+      return {
+        x402Version: X402_PAYLOAD_VERSION,
+        scheme: requirements.scheme,
+        network: requirements.network,
+        payload: {
+          transaction: toBase64(nonce),
+          payer: address,
+          payTo: requirements.payTo,
+          asset: requirements.asset,
+          amount: requirements.maxAmountRequired
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildWebhookSignatureHeader,
+  parseWebhookSignatureHeader,
+  verifyWebhookSignature
+} from "./x402-webhook";
+
+const body = JSON.stringify({ event: "payment.completed", paymentId: "p1" });
+const now = 1_700_000_000_000;
+const timestamp = Math.floor(now / 1000);
+
+test("a header built for a body verifies against the same body and secret", () => {
+  const header = buildWebhookSignatureHeader(["secret"], timestamp, body);
+  assert.deepEqual(verifyWebhookSignature(body, header, "secret", { now }), { valid: true });
+});
+
+test("every secret in a rotation gets its own v1 entry", () => {
+  const header = buildWebhookSignatureHeader(["old", "new"], timestamp, body);
+  assert.equal(parseWebhookSignatureHeader(header)?.signatures.length, 2);
+  assert.equal(verifyWebhookSignature(body, header, "old", { now }).valid, true);
+  assert.equal(verifyWebhookSignature(body, header, ["other", "new"], { now }).valid, true);
+});
+
+test("a modified body or a different secret is rejected", () => {
+  const header = buildWebhookSignatureHeader(["secret"], timestamp, body);
+  assert.equal(verifyWebhookSignature(body + " ", header, "secret", { now }).error, "No matching signature");
+  assert.equal(verifyWebhookSignature(body, header, "wrong", { now }).error, "No matching signature");
+});
+
+test("timestamps outside the tolerance window are rejected", () => {
+  const header = buildWebhookSignatureHeader(["secret"], timestamp - 301, body);
+  assert.equal(verifyWebhookSignature(body, header, "secret", { now }).valid, false);
+  assert.equal(verifyWebhookSignature(body, header, "secret", { now, toleranceSeconds: 600 }).valid, true);
+});
+
+test("missing and malformed headers are rejected", () => {
+  assert.equal(verifyWebhookSignature(body, undefined, "secret", { now }).valid, false);
+  assert.equal(verifyWebhookSignature(body, "v1=abc", "secret", { now }).error, "Malformed signature header");
+  assert.equal(parseWebhookSignatureHeader(`t=${timestamp}`), null);
+});
@@ -0,0 +1,82 @@
+import crypto from "crypto";
+
+// Webhook signatures follow the `t=<unix seconds>,v1=<hex hmac>` format. The
+// HMAC-SHA256 covers `<t>.<raw request body>`, so receivers must verify the
+// bytes they received before parsing them. While a secret is being rotated the
+// header carries one v1 entry per valid secret.
+export const X402_WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const X402_WEBHOOK_SIGNATURE_VERSION = "v1";
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface ParsedWebhookSignature {
+  timestamp: number;
+  signatures: string[];
+}
+
+export function computeWebhookSignature(secret: string, timestamp: number, rawBody: string | Buffer): string {
+  return crypto.createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest("hex");
+}
+
+export function buildWebhookSignatureHeader(secrets: string[], timestamp: number, rawBody: string | Buffer): string {
+  const signatures = secrets.map(secret => `${X402_WEBHOOK_SIGNATURE_VERSION}=${computeWebhookSignature(secret, timestamp, rawBody)}`);
+  return [`t=${timestamp}`, ...signatures].join(",");
+}
+
+export function parseWebhookSignatureHeader(header: string): ParsedWebhookSignature | null {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (key === "t") timestamp = Number(value);
+    else if (key === X402_WEBHOOK_SIGNATURE_VERSION && value) signatures.push(value);
+  }
+
+  if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) return null;
+  return { timestamp, signatures };
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// Receiver-side check for an incoming webhook. Pass every secret currently
+// valid for the endpoint; rejects stale timestamps to stop replayed posts.
+export function verifyWebhookSignature(
+  rawBody: string | Buffer,
+  header: string | undefined,
+  secrets: string | string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): { valid: boolean; error?: string } {
+  if (!header) {
+    return { valid: false, error: `Missing ${X402_WEBHOOK_SIGNATURE_HEADER} header` };
+  }
+
+  const parsed = parseWebhookSignatureHeader(header);
+  if (!parsed) {
+    return { valid: false, error: "Malformed signature header" };
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return { valid: false, error: "Signature timestamp is outside the tolerance window" };
+  }
+
+  const candidates = Array.isArray(secrets) ? secrets : [secrets];
+  for (const secret of candidates) {
+    const expected = computeWebhookSignature(secret, parsed.timestamp, rawBody);
+    if (parsed.signatures.some(signature => safeEqualHex(signature, expected))) {
+      return { valid: true };
+    }
+  }
+  return { valid: false, error: "No matching signature" };
+}
@@ -3,73 +3,48 @@ export const X402_NETWORK_ID = "solana-mainnet";
 export const X402_MIN_CONFIRMATION_BLOCKS = 32;
 export const TRANSACTION_EXPIRY_MS = 120000;
 
-interface TransactionState {
-  id: string;
-  status: "pending" | "confirmed" | "failed" | "expired";
-  createdAt: number;
-  confirmedAt?: number;
-  blockHeight?: number;
-  retryCount: number;
-}
-
-const transactionStates = new Map<string, TransactionState>();
-
-export function createTransaction(id: string): TransactionState {
-  const state: TransactionState = {
-    id,
-    status: "pending",
-    createdAt: Date.now(),
-    retryCount: 0,
-  };
-  transactionStates.set(id, state);
-  return state;
-}
+// Lifecycle of a payment, from the quote it was bound to until its funds are
+// consumed by a response, refunded or abandoned. Payments that never settle
+// end as expired (left unfinished) or failed (rejected or unsettled). A payment
+// is settling while its transaction was sent but not yet seen to land.
+export const X402_PAYMENT_STATUS = {
+  QUOTED: "quoted",
+  SUBMITTED: "submitted",
+  VERIFIED: "verified",
+  SETTLING: "settling",
+  SETTLED: "settled",
+  CONSUMED: "consumed",
+  REFUNDED: "refunded",
+  EXPIRED: "expired",
+  FAILED: "failed",
+} as const;
 
-export function confirmTransaction(id: string, blockHeight: number): boolean {
-  const state = transactionStates.get(id);
-  if (!state || state.status !== "pending") return false;
-  
-  state.status = "confirmed";
-  state.confirmedAt = Date.now();
-  state.blockHeight = blockHeight;
-  return true;
-}
+export type X402PaymentStatus = typeof X402_PAYMENT_STATUS[keyof typeof X402_PAYMENT_STATUS];
 
-export function failTransaction(id: string): boolean {
-  const state = transactionStates.get(id);
-  if (!state) return false;
-  
-  state.status = "failed";
-  return true;
-}
+const PAYMENT_TRANSITIONS: Record<X402PaymentStatus, X402PaymentStatus[]> = {
+  quoted: ["submitted", "expired", "failed"],
+  submitted: ["verified", "expired", "failed"],
+  verified: ["settling", "settled", "expired", "failed"],
+  settling: ["settled", "failed"],
+  settled: ["consumed", "refunded"],
+  consumed: ["refunded"],
+  refunded: [],
+  expired: [],
+  failed: [],
+};
 
-export function checkExpiredTransactions(): string[] {
-  const now = Date.now();
-  const expired: string[] = [];
-  
-  for (const [id, state] of transactionStates) {
-    if (state.status === "pending" && now - state.createdAt > TRANSACTION_EXPIRY_MS) {
-      state.status = "expired";
-      expired.push(id);
-    }
-  }
-  
-  return expired;
+export function canTransitionPayment(from: X402PaymentStatus, to: X402PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
 }
 
-export function getTransactionState(id: string): TransactionState | undefined {
-  return transactionStates.get(id);
+// States a payment may be in for a move to `to` to be allowed.
+export function paymentSourceStates(to: X402PaymentStatus): X402PaymentStatus[] {
+  return (Object.keys(PAYMENT_TRANSITIONS) as X402PaymentStatus[])
+    .filter(from => PAYMENT_TRANSITIONS[from].includes(to));
 }
 
-export function clearCompletedTransactions(): number {
-  let cleared = 0;
-  for (const [id, state] of transactionStates) {
-    if (state.status === "confirmed" || state.status === "failed" || state.status === "expired") {
-      transactionStates.delete(id);
-      cleared++;
-    }
-  }
-  return cleared;
+export function isPaymentTerminal(status: X402PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[status]?.length === 0;
 }
 
 export interface X402PaymentConfig {
@@ -80,6 +55,109 @@ export interface X402PaymentConfig {
   tokenMint: string;
 }
 
+export type X402Cluster = X402PaymentConfig["network"];
+
+// x402 network identifiers advertised in payment requirements for each cluster.
+export const X402_NETWORK_IDS: Record<X402Cluster, string> = {
+  "mainnet-beta": "solana",
+  devnet: "solana-devnet",
+};
+
+export const NATIVE_SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export interface X402AssetInfo {
+  symbol: "USDC" | "USDT" | "SOL";
+  name: string;
+  address: string;
+  decimals: number;
+  native: boolean;
+}
+
+// Devnet has no canonical USDT mint, so staging only accepts test USDC and SOL.
+export const X402_ASSETS: Record<X402Cluster, X402AssetInfo[]> = {
+  "mainnet-beta": [
+    { symbol: "USDC", name: "USD Coin", address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6, native: false },
+    { symbol: "USDT", name: "Tether USD", address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", decimals: 6, native: false },
+    { symbol: "SOL", name: "Solana", address: NATIVE_SOL_MINT, decimals: 9, native: true },
+  ],
+  devnet: [
+    { symbol: "USDC", name: "USD Coin", address: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", decimals: 6, native: false },
+    { symbol: "SOL", name: "Solana", address: NATIVE_SOL_MINT, decimals: 9, native: true },
+  ],
+};
+
+export type AnalysisDepth = "shallow" | "standard" | "deep";
+export type RequestPriority = "low" | "normal" | "high";
+
+export interface X402PricingConfig {
+  // Complexity multiplier per `depth` query value; agents without it ignore depth.
+  depth?: Partial<Record<AnalysisDepth, number>>;
+  // Query parameter holding a comma-separated batch; each item is billed.
+  batchParam?: string;
+  maxBatchSize?: number;
+  // Query parameter carrying a caller-chosen USD amount (e.g. a credit top-up),
+  // between the agent's priceUSD and maxAmountUSD. Replaces all other inputs.
+  amountParam?: string;
+  maxAmountUSD?: number;
+}
+
+export interface X402FieldDef {
+  type?: string;
+  required?: boolean;
+  description?: string;
+  enum?: string[];
+  format?: "solana-address";
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface X402ProbeInput {
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+export interface X402AgentConfig {
+  id: string;
+  name: string;
+  description: string;
+  priceUSD: number;
+  resource: string;
+  method: "GET" | "POST";
+  inputSchema?: {
+    queryParams?: Record<string, X402FieldDef>;
+    bodyFields?: Record<string, X402FieldDef>;
+  };
+  outputSchema?: Record<string, any>;
+  pricing?: X402PricingConfig;
+  // Canned request the health prober sends to the handler (without payment).
+  probe?: X402ProbeInput;
+}
+
+// One payment option from the `accepts` list of a 402 response.
+export interface X402PaymentRequirements {
+  scheme: string;
+  network: string;
+  maxAmountRequired: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string;
+  outputSchema?: object;
+  extra?: Record<string, any>;
+}
+
+// Decoded X-PAYMENT-RESPONSE header of a settled call.
+export interface X402SettlementReceipt {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer?: string;
+  errorReason?: string;
+}
+
 export interface X402AgentPayment {
   agentId: string;
   paymentType: "proof_of_work" | "proof_of_payment";
@@ -88,6 +166,58 @@ export interface X402AgentPayment {
   signature: string;
 }
 
+// How a statement item moved money: a charge paid on-chain, a credit top-up
+// paid on-chain, or a call paid from the prepaid credit balance.
+export type X402StatementItemKind = "charge" | "deposit" | "credits";
+
+// One payment on a wallet statement. `amount` is the price in USD and
+// `signature` the settlement transaction (credit debits use `credit_<id>`).
+export interface X402StatementItem extends X402AgentPayment {
+  kind: X402StatementItemKind;
+  paymentId: string;
+  executionId: string | null;
+  resource: string;
+  status: X402PaymentStatus;
+  network: string | null;
+  asset: string | null;
+  assetSymbol: string | null;
+  // Amount paid in the asset's base units, as quoted in the 402.
+  assetAmount: string | null;
+}
+
+export interface X402StatementAgentTotal {
+  agentId: string;
+  calls: number;
+  chargedUSD: number;
+  refundedUSD: number;
+  paidFromCreditsUSD: number;
+}
+
+// A wallet's x402 spend over one UTC calendar month. Charged, refunded and net
+// totals are on-chain payments only; top-ups are deposits into the credit
+// balance, and calls paid from that balance are totalled separately so no
+// spend is counted twice.
+export interface X402Statement {
+  walletAddress: string;
+  period: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  currency: "USD";
+  totals: {
+    calls: number;
+    chargedUSD: number;
+    refundedUSD: number;
+    netUSD: number;
+    depositedUSD: number;
+    paidFromCreditsUSD: number;
+  };
+  agents: X402StatementAgentTotal[];
+  items: X402StatementItem[];
+  // Set when the month has more payments than a statement lists.
+  truncated: boolean;
+}
+
 export const DEFAULT_X402_CONFIG: X402PaymentConfig = {
   network: "mainnet-beta",
   minPayment: 0.001,
@@ -110,7 +240,7 @@ export function calculateAgentFee(
 }
 
 export function validateX402Signature(signature: string): boolean {
-  return signature.length === 88 && /^[A-Za-z0-9+/=]+$/.test(signature);
+  return /^[1-9A-HJ-NP-Za-km-z]{87,88}$/.test(signature);
 }
 
 export function validateSolanaAddress(address: string): boolean {